@@ -0,0 +1,76 @@
+// A stand-in for a WebDAV folder to try sync against: GET and PUT of documents kept in
+// memory, with ETags, conditional writes, CORS and optional basic auth. Documents are lost
+// when the server stops.
+//
+//   node scripts/mock-sync-server.mjs [port]
+//   SYNC_USER=me SYNC_PASSWORD=secret node scripts/mock-sync-server.mjs
+//
+// In the app, sync with the server at http://localhost:8787/deckster/.
+import { createHash } from "node:crypto";
+import { createServer } from "node:http";
+
+const port = Number(process.argv[2] ?? process.env.PORT ?? 8787);
+const user = process.env.SYNC_USER;
+const password = process.env.SYNC_PASSWORD ?? "";
+
+const documents = new Map();
+
+const etagOf = (body) => `"${createHash("sha1").update(body).digest("hex")}"`;
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, PUT, OPTIONS",
+  "Access-Control-Allow-Headers": "Authorization, Content-Type, If-Match, If-None-Match",
+  "Access-Control-Expose-Headers": "ETag"
+};
+
+function send(response, status, body = "", headers = {}) {
+  response.writeHead(status, { ...corsHeaders, ...headers });
+  response.end(body);
+}
+
+function authorized(request) {
+  if (!user) return true;
+  const expected = `Basic ${Buffer.from(`${user}:${password}`).toString("base64")}`;
+  return request.headers.authorization === expected;
+}
+
+// Same rules as WebDAV servers: If-Match needs the current ETag, If-None-Match: * needs
+// the document to be missing.
+function preconditionFails(request, current) {
+  const ifMatch = request.headers["if-match"];
+  const ifNoneMatch = request.headers["if-none-match"];
+  if (ifMatch && (!current || ifMatch !== current.etag)) return true;
+  if (ifNoneMatch === "*" && current) return true;
+  return false;
+}
+
+const server = createServer((request, response) => {
+  const path = new URL(request.url ?? "/", "http://localhost").pathname;
+  if (request.method === "OPTIONS") return send(response, 204);
+  if (!authorized(request)) return send(response, 401, "", { "WWW-Authenticate": 'Basic realm="deckster"' });
+
+  const current = documents.get(path);
+  if (request.method === "GET") {
+    if (!current) return send(response, 404);
+    return send(response, 200, current.body, { "Content-Type": "application/json", ETag: current.etag });
+  }
+  if (request.method === "PUT") {
+    const chunks = [];
+    request.on("data", (chunk) => chunks.push(chunk));
+    request.on("end", () => {
+      if (preconditionFails(request, current)) return send(response, 412);
+      const body = Buffer.concat(chunks).toString("utf8");
+      const etag = etagOf(body);
+      documents.set(path, { body, etag });
+      console.log(`PUT ${path} (${body.length} bytes)`);
+      send(response, current ? 204 : 201, "", { ETag: etag });
+    });
+    return;
+  }
+  send(response, 405, "", { Allow: "GET, PUT, OPTIONS" });
+});
+
+server.listen(port, () => {
+  console.log(`Mock sync server on http://localhost:${port}/${user ? ` (user ${user})` : ""}`);
+});
@@ -0,0 +1,179 @@
+// Studies a deck in the terminal with the same session engine the app uses: German to
+// English flashcards, graded 1-4. Progress is kept in a JSON file when one is given, and
+// written after every answer.
+//
+//   node scripts/study.mjs [path/to/deck.json] [--progress progress.json] [--review]
+//
+// Without a path the first deck registered in public/decks/index.json is studied.
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import { createInterface } from "node:readline";
+import { fileURLToPath } from "node:url";
+import { createServer } from "vite";
+
+const root = fileURLToPath(new URL("..", import.meta.url));
+const publicDir = new URL("../public/", import.meta.url);
+
+const readJson = (path) => JSON.parse(readFileSync(path, "utf8"));
+
+function parseArgs(args) {
+  const options = { deckPath: null, progressPath: null, review: false };
+  for (let i = 0; i < args.length; i += 1) {
+    if (args[i] === "--progress") options.progressPath = args[++i] ?? null;
+    else if (args[i] === "--review") options.review = true;
+    else options.deckPath = args[i];
+  }
+  return options;
+}
+
+function defaultDeckPath() {
+  const manifest = readJson(new URL("decks/index.json", publicDir));
+  const entry = manifest.decks?.[0];
+  if (!entry) throw new Error("No deck is registered in public/decks/index.json.");
+  return fileURLToPath(new URL(entry.url.replace(/^\/+/, ""), publicDir));
+}
+
+const options = parseArgs(process.argv.slice(2));
+
+// The engine and the helpers around it are written in TypeScript; Vite loads them for us.
+const server = await createServer({
+  root,
+  configFile: false,
+  logLevel: "error",
+  appType: "custom",
+  server: { middlewareMode: true, hmr: false }
+});
+
+const load = (path) => server.ssrLoadModule(path);
+const [engineModule, schemaModule, schedulerModule, sessionModule, storageModule, reconcileModule, syncModule] =
+  await Promise.all([
+    load("/src/studyEngine.ts"),
+    load("/src/schema.ts"),
+    load("/src/scheduler.ts"),
+    load("/src/session.ts"),
+    load("/src/storage.ts"),
+    load("/src/reconcile.ts"),
+    load("/src/sync.ts")
+  ]).finally(() => server.close());
+
+const { createStudyEngine, pickStudyState } = engineModule;
+const { readDeckCards } = schemaModule;
+const { GRADES, formatInterval, gradeLabel, scheduleCard } = schedulerModule;
+const { defaultSessionConfig, formatStudyTime } = sessionModule;
+const { PROGRESS_VERSION, emptyProgress, upgradeProgress } = storageModule;
+const { noteIdsFor, reconcileProgress } = reconcileModule;
+const { stampChanges } = syncModule;
+
+const deckPath = options.deckPath ?? defaultDeckPath();
+const rawDeck = readJson(deckPath);
+const { cards, issues } = readDeckCards(rawDeck.schema, rawDeck.cards);
+if (issues.length > 0) console.log(`Skipped ${issues.length} malformed ${issues.length === 1 ? "card" : "cards"}.`);
+
+// The file has the shape of the progress in a sync document, so it upgrades the same way.
+function loadProgress() {
+  if (!options.progressPath || !existsSync(options.progressPath)) return emptyProgress();
+  const raw = readJson(options.progressPath);
+  return upgradeProgress(raw.progress ?? null, Number.isInteger(raw.progressVersion) ? raw.progressVersion : 1);
+}
+
+const cardById = new Map(cards.map((card) => [card.id, card]));
+const progress = reconcileProgress(loadProgress(), cards).progress;
+const engine = createStudyEngine(pickStudyState(progress), {
+  cards,
+  config: defaultSessionConfig(),
+  directionOf: () => "de-en",
+  eligible: () => true
+});
+
+// Like the app, the cards answered since the last save are stamped with the time, so that
+// syncing the file keeps the latest change of each card.
+let saved = { ...progress, ...engine.getState() };
+
+function saveProgress() {
+  if (!options.progressPath) return;
+  const next = { ...saved, ...engine.getState() };
+  const stamped = { ...next, changedAt: stampChanges(saved, next, Date.now()) };
+  saved = { ...stamped, noteIds: noteIdsFor(stamped, cardById) };
+  const document = { progressVersion: PROGRESS_VERSION, progress: saved };
+  writeFileSync(options.progressPath, `${JSON.stringify(document, null, 2)}\n`);
+}
+
+function describeEvents(events) {
+  for (const event of events) {
+    if (event.type === "reviewFinished") console.log("\nNothing else is due. Back to the deck.");
+    if (event.type === "undone") console.log("Took back the last answer.");
+  }
+}
+
+function summary() {
+  const { session } = engine.getState();
+  return `${session.answered} answered, ${session.correct} correct in ${formatStudyTime(session.studyMs)}.`;
+}
+
+// Lines are read from an iterator rather than with question(), so answers piped in ahead
+// of their prompt are not lost. Ctrl+D ends the session like q does.
+const rl = createInterface({ input: process.stdin });
+const lines = rl[Symbol.asyncIterator]();
+async function ask(prompt) {
+  process.stdout.write(prompt);
+  const { value, done } = await lines.next();
+  return done ? null : value;
+}
+
+console.log(`${rawDeck.title ?? "Deck"}: ${cards.length} cards. Enter reveals, 1-4 grades, u undoes, q quits.`);
+if (options.review) describeEvents(engine.dispatch({ type: "startReview" }));
+
+try {
+  for (;;) {
+    const view = engine.getView();
+    const state = engine.getState();
+    const card = view.currentCard;
+    if (!card) {
+      if (cards.length === 0) {
+        console.log("The deck has no cards.");
+        break;
+      }
+      const reason = view.sessionEnd === "limit" ? "No new cards are left for today." : "End of the session.";
+      const due = view.reviewQueue.length;
+      const choice = await ask(`\n${reason} ${summary()}\n${due > 0 ? `r reviews ${due} due, ` : ""}q quits > `);
+      if (choice === null || choice.trim() !== "r" || due === 0) break;
+      describeEvents(engine.dispatch({ type: "startReview" }));
+      continue;
+    }
+
+    const position = state.reviewMode
+      ? `review ${(state.reviewIndex % view.reviewQueue.length) + 1}/${view.reviewQueue.length}`
+      : `${view.sessionPosition + 1}/${view.sessionOrder.length}`;
+    console.log(`\n[${position}] ${card.de_word}`);
+    if (card.de_sentence) console.log(`  ${card.de_sentence}`);
+    const shownAt = Date.now();
+    const reveal = await ask("> ");
+    if (reveal === null || reveal.trim() === "q") break;
+    if (reveal.trim() === "u") {
+      describeEvents(engine.dispatch({ type: "undo" }));
+      saveProgress();
+      continue;
+    }
+    const responseMs = Date.now() - shownAt;
+
+    console.log(`  ${card.en_word}`);
+    if (card.en_sentence) console.log(`  ${card.en_sentence}`);
+    const previous = view.activeSchedules[card.id];
+    const choices = GRADES.map(
+      (grade, i) => `${i + 1} ${gradeLabel(grade)} (${formatInterval(scheduleCard(previous, grade, Date.now()).interval)})`
+    );
+    let grade = null;
+    while (!grade) {
+      const input = await ask(`${choices.join("  ")} > `);
+      if (input === null || input.trim() === "q") break;
+      grade = GRADES[Number.parseInt(input, 10) - 1] ?? null;
+    }
+    if (!grade) break;
+    describeEvents(engine.dispatch({ type: "answer", grade, responseMs }));
+    saveProgress();
+  }
+} finally {
+  rl.close();
+}
+
+console.log(`\n${summary()}`);
+if (options.progressPath) console.log(`Progress saved to ${options.progressPath}.`);
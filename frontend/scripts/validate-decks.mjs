@@ -0,0 +1,50 @@
+// Validates every deck registered in public/decks/index.json: malformed cards, empty
+// fields and audio files that are referenced but missing from public/. Exits with 1 on
+// errors so the build stops; warnings are only printed.
+//
+//   node scripts/validate-decks.mjs
+import { existsSync, readFileSync } from "node:fs";
+import { fileURLToPath } from "node:url";
+import { createServer } from "vite";
+
+const root = fileURLToPath(new URL("..", import.meta.url));
+const publicDir = new URL("../public/", import.meta.url);
+
+const readJson = (url) => JSON.parse(readFileSync(url, "utf8"));
+const publicPath = (path) => new URL(path.replace(/^\/+/, ""), publicDir);
+
+// The validator is shared with the app and written in TypeScript; Vite loads it for us.
+const server = await createServer({
+  root,
+  configFile: false,
+  logLevel: "error",
+  appType: "custom",
+  server: { middlewareMode: true, hmr: false }
+});
+
+let errors = 0;
+try {
+  const { validateDeck } = await server.ssrLoadModule("/src/deckValidation.ts");
+  const manifest = readJson(publicPath("decks/index.json"));
+  for (const entry of manifest.decks ?? []) {
+    let findings;
+    try {
+      findings = validateDeck(readJson(publicPath(entry.url)), (path) => existsSync(publicPath(path)));
+    } catch (reason) {
+      findings = [{ level: "error", message: `Could not read ${entry.url}: ${reason.message}` }];
+    }
+    const deckErrors = findings.filter((finding) => finding.level === "error").length;
+    errors += deckErrors;
+    console.log(`${entry.id}: ${deckErrors} errors, ${findings.length - deckErrors} warnings`);
+    for (const finding of findings) {
+      console.log(`  ${finding.level === "error" ? "error  " : "warning"} ${finding.message}`);
+    }
+  }
+} finally {
+  await server.close();
+}
+
+if (errors > 0) {
+  console.error(`Deck validation failed with ${errors} ${errors === 1 ? "error" : "errors"}.`);
+  process.exit(1);
+}
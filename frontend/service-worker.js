@@ -0,0 +1,142 @@
+// Template for dist/sw.js. The `serviceWorker` plugin in vite.config.ts fills in the
+// build id and the list of files emitted by the build. Every path is resolved against
+// the registration scope, so the app keeps working under the relative `base`.
+
+const BUILD_ID = __BUILD_ID__;
+const BUILD_FILES = __BUILD_FILES__;
+const STATIC_FILES = ["./", "manifest.webmanifest", "icon.svg"];
+const MANIFEST_PATH = "decks/index.json";
+
+const SHELL_CACHE = `deckster-shell-${BUILD_ID}`;
+// Kept across deploys; the names are shared with src/offline.ts.
+const DATA_CACHE = "deckster-data-v1";
+const AUDIO_CACHE = "deckster-audio-v1";
+
+const scope = new URL(self.registration.scope);
+
+function toUrl(path) {
+  return new URL(path, scope).href;
+}
+
+function scopedPath(url) {
+  return url.href.startsWith(scope.href) ? url.href.slice(scope.href.length).split(/[?#]/)[0] : null;
+}
+
+async function precacheDecks() {
+  const cache = await caches.open(DATA_CACHE);
+  const response = await fetch(toUrl(MANIFEST_PATH), { cache: "no-cache" });
+  if (!response.ok) return;
+  await cache.put(toUrl(MANIFEST_PATH), response.clone());
+  const manifest = await response.json();
+  const urls = (manifest.decks ?? [])
+    .map((entry) => entry.url)
+    .filter((url) => typeof url === "string" && !/^[a-z]+:/i.test(url));
+  await Promise.all(
+    urls.map((url) => cache.add(toUrl(url.replace(/^\/+/, ""))).catch(() => undefined))
+  );
+}
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    (async () => {
+      const shell = await caches.open(SHELL_CACHE);
+      await shell.addAll([...STATIC_FILES, ...BUILD_FILES].map(toUrl));
+      // Decks are best effort: a missing deck file must not keep the app shell from installing.
+      await precacheDecks().catch(() => undefined);
+      await self.skipWaiting();
+    })()
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    (async () => {
+      const names = await caches.keys();
+      await Promise.all(
+        names
+          .filter((name) => name.startsWith("deckster-shell-") && name !== SHELL_CACHE)
+          .map((name) => caches.delete(name))
+      );
+      await self.clients.claim();
+    })()
+  );
+});
+
+async function networkFirst(request, cacheName, fallbacks = []) {
+  const cache = await caches.open(cacheName);
+  try {
+    const response = await fetch(request);
+    if (response.ok) await cache.put(request, response.clone());
+    return response;
+  } catch (error) {
+    for (const candidate of [request, ...fallbacks]) {
+      const cached = await caches.match(candidate);
+      if (cached) return cached;
+    }
+    throw error;
+  }
+}
+
+async function cacheFirst(request, cacheName) {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(cacheName);
+    await cache.put(request, response.clone());
+  }
+  return response;
+}
+
+// Answers a `Range` header with the requested bytes of a full response. Safari only
+// plays media that comes back as 206 Partial Content.
+async function rangeResponse(request, response) {
+  const range = /^bytes=(\d*)-(\d*)$/.exec(request.headers.get("range") ?? "");
+  if (!range || response.status !== 200) return response;
+  const body = await response.arrayBuffer();
+  const size = body.byteLength;
+  let start = range[1] === "" ? size - Number(range[2]) : Number(range[1]);
+  let end = range[1] === "" || range[2] === "" ? size - 1 : Number(range[2]);
+  start = Math.max(start, 0);
+  end = Math.min(end, size - 1);
+  if (start > end) {
+    return new Response(null, { status: 416, headers: { "Content-Range": `bytes */${size}` } });
+  }
+  return new Response(body.slice(start, end + 1), {
+    status: 206,
+    headers: {
+      "Content-Type": response.headers.get("content-type") ?? "application/octet-stream",
+      "Content-Length": String(end - start + 1),
+      "Content-Range": `bytes ${start}-${end}/${size}`,
+      "Accept-Ranges": "bytes"
+    }
+  });
+}
+
+// Audio elements send range requests, which cannot be cached; fetching the plain URL
+// stores the whole clip, so it plays offline the next time. Ranges are then cut from it.
+async function audio(request) {
+  const cache = await caches.open(AUDIO_CACHE);
+  const cached = await cache.match(request.url);
+  if (cached) return rangeResponse(request, cached);
+  const response = await fetch(request.url);
+  if (response.status === 200) await cache.put(request.url, response.clone());
+  return rangeResponse(request, response);
+}
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+  const path = scopedPath(new URL(request.url));
+  if (path === null) return;
+
+  if (request.mode === "navigate") {
+    event.respondWith(networkFirst(request, SHELL_CACHE, [toUrl("./"), toUrl("index.html")]));
+  } else if (path.startsWith("media/")) {
+    event.respondWith(audio(request));
+  } else if (path.startsWith("decks/")) {
+    event.respondWith(networkFirst(request, DATA_CACHE));
+  } else {
+    event.respondWith(cacheFirst(request, SHELL_CACHE));
+  }
+});
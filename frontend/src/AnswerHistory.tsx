@@ -0,0 +1,102 @@
+import { useState } from "react";
+import { canRegrade, type AnswerRecord } from "./history";
+import { GRADES, gradeLabel, type Grade } from "./scheduler";
+import type { Card } from "./types";
+
+type AnswerHistoryProps = {
+  history: AnswerRecord[];
+  cardById: Map<string, Card>;
+  gradeStyles: Record<Grade, string>;
+  onUndo: () => void;
+  onRegrade: (position: number, grade: Grade) => void;
+  undoHint: string;
+};
+
+const SHOWN = 10;
+
+function formatTime(timestamp: number) {
+  return new Date(timestamp).toLocaleTimeString(undefined, { hour: "2-digit", minute: "2-digit" });
+}
+
+export default function AnswerHistory({ history, cardById, gradeStyles, onUndo, onRegrade, undoHint }: AnswerHistoryProps) {
+  const [openKey, setOpenKey] = useState<string | null>(null);
+  const positions = history.map((_, position) => position).slice(-SHOWN).reverse();
+
+  return (
+    <div>
+      <div className="flex items-center justify-between gap-3">
+        <p className="text-xs uppercase tracking-[0.2em] text-ink/40">Recent answers</p>
+        <button
+          type="button"
+          onClick={onUndo}
+          disabled={history.length === 0}
+          className="rounded-full border border-ink/15 bg-white/70 px-3 py-1 text-xs uppercase tracking-[0.2em] text-ink/70 hover:bg-white transition disabled:opacity-60"
+          title={undoHint || undefined}
+        >
+          Undo
+        </button>
+      </div>
+      {history.length === 0 ? (
+        <p className="mt-2 text-sm text-ink/60">Answers you give show up here so you can undo or regrade them.</p>
+      ) : (
+        <ul className="mt-3 divide-y divide-ink/5 rounded-xl border border-ink/10 bg-white/70 text-sm">
+          {positions.map((position) => {
+            const record = history[position];
+            const card = cardById.get(record.cardId);
+            const key = `${record.cardId}-${record.timestamp}`;
+            const open = openKey === key;
+            const editable = canRegrade(history, position);
+            return (
+              <li key={key}>
+                <button
+                  type="button"
+                  onClick={() => setOpenKey(open ? null : key)}
+                  className="flex w-full items-center gap-3 px-4 py-2 text-left hover:bg-white transition"
+                >
+                  <span className="shrink-0 text-xs text-ink/40">{formatTime(record.timestamp)}</span>
+                  <span className="min-w-0 flex-1 truncate">
+                    <span className="font-semibold text-ink">{card?.de_word ?? record.cardId}</span>
+                    {card && <span className="text-ink/50"> · {card.en_word}</span>}
+                  </span>
+                  <span className="shrink-0 text-[10px] uppercase tracking-[0.15em] text-ink/40">
+                    {record.direction === "de-en" ? "DE → EN" : "EN → DE"}
+                  </span>
+                  <span
+                    className={`shrink-0 rounded-full px-2 py-0.5 text-[10px] uppercase tracking-[0.15em] ${gradeStyles[record.grade]}`}
+                  >
+                    {gradeLabel(record.grade)}
+                  </span>
+                </button>
+                {open && (
+                  <div className="px-4 pb-3">
+                    {editable ? (
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className="text-xs text-ink/50">Grade again as</span>
+                        {GRADES.map((grade) => (
+                          <button
+                            key={grade}
+                            type="button"
+                            disabled={grade === record.grade}
+                            onClick={() => {
+                              onRegrade(position, grade);
+                              setOpenKey(null);
+                            }}
+                            className={`rounded-full px-3 py-1 text-xs font-semibold transition disabled:opacity-40 ${gradeStyles[grade]}`}
+                          >
+                            {gradeLabel(grade)}
+                          </button>
+                        ))}
+                      </div>
+                    ) : (
+                      <p className="text-xs text-ink/50">This card was answered again later; regrade the newer answer.</p>
+                    )}
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,194 @@
+import { useEffect, useMemo, useState } from "react";
+import {
+  buildProgressCsv,
+  createBackup,
+  downloadFile,
+  parseBackup,
+  planImport,
+  type BackupFile,
+  type ImportMode,
+  type ImportPlan
+} from "./backup";
+import { loadReviews, type ReviewLogEntry } from "./reviewLog";
+import type { ProgressState, SettingsState } from "./storage";
+import type { Deck } from "./types";
+
+type BackupDialogProps = {
+  deck: Deck;
+  progress: ProgressState;
+  settings: SettingsState;
+  onApply: (plan: ImportPlan) => Promise<void>;
+  onClose: () => void;
+};
+
+function fileStamp() {
+  return new Date().toISOString().slice(0, 10);
+}
+
+export default function BackupDialog({ deck, progress, settings, onApply, onClose }: BackupDialogProps) {
+  const [reviews, setReviews] = useState<ReviewLogEntry[] | null>(null);
+  const [backup, setBackup] = useState<BackupFile | null>(null);
+  const [mode, setMode] = useState<ImportMode>("merge");
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [applied, setApplied] = useState(false);
+
+  useEffect(() => {
+    loadReviews(deck.id)
+      .then(setReviews)
+      .catch(() => setReviews([]));
+  }, [deck.id]);
+
+  const plan = useMemo(() => {
+    if (!backup || !reviews) return null;
+    return planImport(backup, deck, { progress, settings, reviews }, mode);
+  }, [backup, deck, mode, progress, reviews, settings]);
+
+  const exportJson = () => {
+    if (!reviews) return;
+    const file = createBackup(deck, { progress, settings, reviews });
+    downloadFile(`deckster-${deck.id}-${fileStamp()}.json`, JSON.stringify(file, null, 2), "application/json");
+  };
+
+  const exportCsv = () => {
+    if (!reviews) return;
+    const csv = buildProgressCsv(deck, progress, reviews, Date.now());
+    downloadFile(`deckster-${deck.id}-${fileStamp()}.csv`, csv, "text/csv;charset=utf-8");
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setError(null);
+    setApplied(false);
+    try {
+      setBackup(parseBackup(await file.text()));
+    } catch (reason) {
+      setBackup(null);
+      setError(reason instanceof Error ? reason.message : String(reason));
+    }
+  };
+
+  const apply = async () => {
+    if (!plan) return;
+    setBusy(true);
+    setError(null);
+    try {
+      await onApply(plan);
+      setApplied(true);
+      setBackup(null);
+      setReviews(await loadReviews(deck.id));
+    } catch (reason) {
+      setError(reason instanceof Error ? reason.message : String(reason));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const changes = plan?.changes;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-ink/40 p-6" onClick={onClose}>
+      <div
+        className="card-surface w-full max-w-2xl max-h-full overflow-y-auto rounded-2xl shadow-card p-6 md:p-8"
+        onClick={(event) => event.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <p className="font-brand text-xs uppercase tracking-[0.3em] text-ink/50">Deckster Lab</p>
+          <button
+            type="button"
+            onClick={onClose}
+            className="rounded-full border border-ink/15 bg-white/70 px-3 py-1 text-xs uppercase tracking-[0.2em] text-ink/70 hover:bg-white transition"
+          >
+            Close
+          </button>
+        </div>
+        <h2 className="mt-4 text-2xl font-display text-ink">Backup · {deck.title}</h2>
+
+        <div className="mt-6">
+          <p className="text-xs uppercase tracking-[0.2em] text-ink/40">Export</p>
+          <p className="mt-2 text-sm text-ink/60">
+            The JSON backup holds progress, missed cards, settings and the review history of this deck. The CSV lists
+            the status of every card for teachers and spreadsheets.
+          </p>
+          <div className="mt-3 flex flex-wrap gap-2">
+            <button
+              type="button"
+              onClick={exportJson}
+              disabled={!reviews}
+              className="rounded-full bg-ink text-linen px-4 py-2 text-sm font-semibold shadow-soft hover:shadow-card transition disabled:opacity-60"
+            >
+              Download backup (.json)
+            </button>
+            <button
+              type="button"
+              onClick={exportCsv}
+              disabled={!reviews}
+              className="rounded-full border border-ink/15 bg-white/70 px-4 py-2 text-sm text-ink/70 hover:bg-white transition disabled:opacity-60"
+            >
+              Card status (.csv)
+            </button>
+          </div>
+        </div>
+
+        <div className="mt-6 border-t border-ink/10 pt-4">
+          <p className="text-xs uppercase tracking-[0.2em] text-ink/40">Import</p>
+          <input
+            type="file"
+            accept=".json,application/json"
+            onChange={(event) => void handleFile(event.target.files?.[0])}
+            className="mt-3 block w-full text-sm text-ink/70"
+          />
+          {applied && <p className="mt-3 text-sm text-moss">Backup applied.</p>}
+          {backup && changes && (
+            <div className="mt-4 space-y-3 text-sm text-ink/70">
+              <p>
+                Backup of <span className="font-semibold text-ink">{backup.deck.title}</span>
+                {backup.exportedAt && ` from ${new Date(backup.exportedAt).toLocaleString()}`}.
+                {backup.deck.id !== deck.id && (
+                  <span className="text-ember"> It was made for a different deck; only matching cards are used.</span>
+                )}
+              </p>
+              <div className="flex gap-4">
+                {(["merge", "replace"] as ImportMode[]).map((option) => (
+                  <label key={option} className="inline-flex items-center gap-2">
+                    <input type="radio" name="import-mode" checked={mode === option} onChange={() => setMode(option)} />
+                    {option === "merge" ? "Merge (newest review per card wins)" : "Replace current state"}
+                  </label>
+                ))}
+              </div>
+              <ul className="rounded-xl border border-ink/10 bg-white/70 p-4 space-y-1">
+                <li>
+                  Cards matched: {changes.matchedById} by id, {changes.matchedByNoteId} by note id
+                  {changes.unmatched.length > 0 && `, ${changes.unmatched.length} not in this deck (skipped)`}
+                </li>
+                <li>
+                  Scheduled cards: +{changes.scheduledAdded} new, {changes.scheduledUpdated} updated
+                  {changes.scheduledRemoved > 0 && `, ${changes.scheduledRemoved} removed`}
+                </li>
+                <li>
+                  Missed list: +{changes.missedAdded} / −{changes.missedRemoved}
+                </li>
+                <li>
+                  Review history: +{changes.reviewsAdded}
+                  {changes.reviewsRemoved > 0 && ` / −${changes.reviewsRemoved}`} entries
+                </li>
+                <li>
+                  Settings: {changes.settingsChanged.length === 0 ? "unchanged" : `${changes.settingsChanged.join(", ")} change`}
+                </li>
+              </ul>
+              <button
+                type="button"
+                onClick={() => void apply()}
+                disabled={busy}
+                className="rounded-full bg-ink text-linen px-4 py-2 text-sm font-semibold shadow-soft hover:shadow-card transition disabled:opacity-60"
+              >
+                {busy ? "Applying…" : mode === "merge" ? "Merge backup" : "Replace with backup"}
+              </button>
+            </div>
+          )}
+          {error && <p className="mt-3 text-sm text-ember">{error}</p>}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,458 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { CARD_FIELDS, type CardField } from "./types";
+import {
+  cardStatus,
+  defaultBrowserQuery,
+  findDuplicateHeadwords,
+  queryCards,
+  type BrowserContext,
+  type BrowserQuery,
+  type CardSort,
+  type StatusFilter
+} from "./cardQuery";
+import { languageNames, sideLabels } from "./schema";
+import type { CardSchedule } from "./scheduler";
+import type { CardOverride, CardOverrides } from "./storage";
+import { addTags, collectTags, parseTagInput, removeTags, sameTags } from "./tags";
+import type { Card, Deck } from "./types";
+
+type CardBrowserProps = {
+  deck: Deck;
+  missedIds: string[];
+  schedules: Record<string, CardSchedule>;
+  overrides: CardOverrides;
+  onEditCard: (cardId: string, fields: CardOverride | null) => void;
+  onTagCards: (changes: Record<string, string[]>) => void;
+  onStudyCard: (cardId: string) => void;
+  onClose: () => void;
+};
+
+const ROW_HEIGHT = 64;
+const OVERSCAN = 8;
+
+const statusFilters: Array<{ id: StatusFilter; label: string }> = [
+  { id: "all", label: "All cards" },
+  { id: "new", label: "New" },
+  { id: "missed", label: "Missed" },
+  { id: "known", label: "Known" }
+];
+
+function sortOptions(names: { front: string; back: string }): Array<{ id: CardSort; label: string }> {
+  return [
+    { id: "deck", label: "Deck order" },
+    { id: "german", label: `${names.front} A–Z` },
+    { id: "english", label: `${names.back} A–Z` },
+    { id: "due", label: "Next due" },
+    { id: "lapses", label: "Most lapses" }
+  ];
+}
+
+const statusStyles: Record<Exclude<StatusFilter, "all">, string> = {
+  new: "bg-ink/5 text-ink/50",
+  missed: "bg-ember/15 text-ember",
+  known: "bg-moss/20 text-moss"
+};
+
+function cardFields(card: Card): Record<CardField, string> {
+  return { de_word: card.de_word, de_sentence: card.de_sentence, en_word: card.en_word, en_sentence: card.en_sentence };
+}
+
+export default function CardBrowser({
+  deck,
+  missedIds,
+  schedules,
+  overrides,
+  onEditCard,
+  onTagCards,
+  onStudyCard,
+  onClose
+}: CardBrowserProps) {
+  const [query, setQuery] = useState<BrowserQuery>(defaultBrowserQuery);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<Record<CardField, string> | null>(null);
+  const [tagDraft, setTagDraft] = useState("");
+  const [checkedIds, setCheckedIds] = useState<Set<string>>(() => new Set());
+  const [bulkTags, setBulkTags] = useState("");
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(480);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  const names = languageNames(deck.schema);
+  const fieldLabels = sideLabels(deck.schema);
+  const tagList = useMemo(() => collectTags(deck.cards), [deck.cards]);
+  const duplicates = useMemo(() => findDuplicateHeadwords(deck.cards), [deck.cards]);
+  const groupSizes = useMemo(() => {
+    const sizes = new Map<string, number>();
+    duplicates.forEach((key) => sizes.set(key, (sizes.get(key) ?? 0) + 1));
+    return sizes;
+  }, [duplicates]);
+
+  const context = useMemo<BrowserContext>(
+    () => ({
+      missedIds: new Set(missedIds),
+      schedules,
+      editedIds: new Set(Object.keys(overrides)),
+      duplicates
+    }),
+    [duplicates, missedIds, overrides, schedules]
+  );
+
+  const results = useMemo(() => queryCards(deck.cards, query, context), [context, deck.cards, query]);
+  const selected = deck.cards.find((card) => card.id === selectedId) ?? null;
+
+  useEffect(() => {
+    const list = listRef.current;
+    if (!list) return;
+    const measure = () => setViewportHeight(list.clientHeight);
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(list);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    listRef.current?.scrollTo({ top: 0 });
+    setScrollTop(0);
+  }, [query]);
+
+  // Only a new selection resets the draft; saving the open card must not.
+  useEffect(() => {
+    setDraft(selected ? cardFields(selected) : null);
+  }, [selectedId]);
+
+  // Tags can also change from the selection toolbar while the card is open.
+  const selectedTags = selected?.tags.join(" ") ?? "";
+  useEffect(() => {
+    setTagDraft(selectedTags);
+  }, [selectedId, selectedTags]);
+
+  const updateQuery = (patch: Partial<BrowserQuery>) => setQuery((prev) => ({ ...prev, ...patch }));
+
+  const first = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const last = Math.min(results.length, Math.ceil((scrollTop + viewportHeight) / ROW_HEIGHT) + OVERSCAN);
+  const visible = results.slice(first, last);
+
+  const dirty = Boolean(
+    selected &&
+      draft &&
+      (CARD_FIELDS.some((field) => draft[field] !== selected[field]) || !sameTags(parseTagInput(tagDraft), selected.tags))
+  );
+  const edited = Boolean(selected && overrides[selected.id]);
+
+  const saveDraft = () => {
+    if (!selected || !draft) return;
+    onEditCard(selected.id, { ...draft, tags: parseTagInput(tagDraft) });
+  };
+
+  const toggleChecked = (cardId: string) =>
+    setCheckedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(cardId)) {
+        next.delete(cardId);
+      } else {
+        next.add(cardId);
+      }
+      return next;
+    });
+
+  // Only cards whose tags actually change are passed on.
+  const tagChecked = (remove: boolean) => {
+    const tags = parseTagInput(bulkTags);
+    if (tags.length === 0) return;
+    const changes: Record<string, string[]> = {};
+    deck.cards.forEach((card) => {
+      if (!checkedIds.has(card.id)) return;
+      const next = remove ? removeTags(card.tags, tags) : addTags(card.tags, tags);
+      if (!sameTags(next, card.tags)) changes[card.id] = next;
+    });
+    onTagCards(changes);
+  };
+
+  const revert = () => {
+    if (!selected) return;
+    onEditCard(selected.id, null);
+    setDraft(null);
+    setSelectedId(null);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-ink/40 p-6" onClick={onClose}>
+      <div
+        className="card-surface w-full max-w-5xl max-h-full overflow-y-auto rounded-2xl shadow-card p-6 md:p-8"
+        onClick={(event) => event.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <p className="font-brand text-xs uppercase tracking-[0.3em] text-ink/50">Deckster Lab</p>
+          <button
+            type="button"
+            onClick={onClose}
+            className="rounded-full border border-ink/15 bg-white/70 px-3 py-1 text-xs uppercase tracking-[0.2em] text-ink/70 hover:bg-white transition"
+          >
+            Close
+          </button>
+        </div>
+        <h2 className="mt-4 text-2xl font-display text-ink">Browse · {deck.title}</h2>
+
+        <div className="mt-6 flex flex-col gap-3 md:flex-row md:items-center">
+          <input
+            type="search"
+            value={query.search}
+            onChange={(event) => updateQuery({ search: event.target.value })}
+            placeholder={`Search ${names.front} and ${names.back}…`}
+            className="flex-1 rounded-full border border-ink/15 bg-white/80 px-4 py-2 text-sm text-ink focus:outline-none focus:ring-2 focus:ring-ink/20"
+          />
+          <select
+            value={query.status}
+            onChange={(event) => updateQuery({ status: event.target.value as StatusFilter })}
+            className="rounded-full border border-ink/15 bg-white/80 px-3 py-2 text-sm text-ink/70"
+          >
+            {statusFilters.map((filter) => (
+              <option key={filter.id} value={filter.id}>
+                {filter.label}
+              </option>
+            ))}
+          </select>
+          <select
+            value={query.tag === null ? "any" : query.tag === "" ? "none" : `tag:${query.tag}`}
+            onChange={(event) => {
+              const value = event.target.value;
+              updateQuery({ tag: value === "any" ? null : value === "none" ? "" : value.slice("tag:".length) });
+            }}
+            className="rounded-full border border-ink/15 bg-white/80 px-3 py-2 text-sm text-ink/70"
+          >
+            <option value="any">All tags</option>
+            <option value="none">Untagged</option>
+            {tagList.map(({ tag, count }) => (
+              <option key={tag} value={`tag:${tag}`}>
+                {tag} ({count})
+              </option>
+            ))}
+          </select>
+          <select
+            value={query.sort}
+            onChange={(event) => updateQuery({ sort: event.target.value as CardSort })}
+            className="rounded-full border border-ink/15 bg-white/80 px-3 py-2 text-sm text-ink/70"
+          >
+            {sortOptions(names).map((option) => (
+              <option key={option.id} value={option.id}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="mt-3 flex flex-wrap gap-4 text-sm text-ink/70">
+          <label className="inline-flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={query.audioOnly}
+              onChange={(event) => updateQuery({ audioOnly: event.target.checked })}
+            />
+            Has audio
+          </label>
+          <label className="inline-flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={query.duplicatesOnly}
+              onChange={(event) => updateQuery({ duplicatesOnly: event.target.checked })}
+            />
+            Duplicate headwords ({duplicates.size})
+          </label>
+          <label className="inline-flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={query.editedOnly}
+              onChange={(event) => updateQuery({ editedOnly: event.target.checked })}
+            />
+            Edited ({Object.keys(overrides).length})
+          </label>
+          <span className="ml-auto text-ink/50">
+            {results.length} of {deck.cards.length} cards
+          </span>
+        </div>
+        <div className="mt-3 flex flex-wrap items-center gap-2 text-sm text-ink/70">
+          <button
+            type="button"
+            onClick={() => setCheckedIds(new Set(results.map((card) => card.id)))}
+            disabled={results.length === 0}
+            className="rounded-full border border-ink/15 bg-white/70 px-3 py-1.5 text-sm text-ink/70 hover:bg-white transition disabled:opacity-60"
+          >
+            Select all shown
+          </button>
+          {checkedIds.size > 0 && (
+            <button
+              type="button"
+              onClick={() => setCheckedIds(new Set())}
+              className="rounded-full border border-ink/15 bg-white/70 px-3 py-1.5 text-sm text-ink/70 hover:bg-white transition"
+            >
+              Clear selection
+            </button>
+          )}
+          <span className="text-ink/50">{checkedIds.size} selected</span>
+          <input
+            type="text"
+            value={bulkTags}
+            onChange={(event) => setBulkTags(event.target.value)}
+            placeholder="Tags, e.g. travel"
+            list="card-browser-tags"
+            className="ml-auto w-40 rounded-full border border-ink/15 bg-white/80 px-3 py-1.5 text-sm text-ink focus:outline-none focus:ring-2 focus:ring-ink/20"
+          />
+          <datalist id="card-browser-tags">
+            {tagList.map(({ tag }) => (
+              <option key={tag} value={tag} />
+            ))}
+          </datalist>
+          <button
+            type="button"
+            onClick={() => tagChecked(false)}
+            disabled={checkedIds.size === 0 || !bulkTags.trim()}
+            className="rounded-full border border-ink/15 bg-white/70 px-3 py-1.5 text-sm text-ink/70 hover:bg-white transition disabled:opacity-60"
+          >
+            Add tag
+          </button>
+          <button
+            type="button"
+            onClick={() => tagChecked(true)}
+            disabled={checkedIds.size === 0 || !bulkTags.trim()}
+            className="rounded-full border border-ink/15 bg-white/70 px-3 py-1.5 text-sm text-ink/70 hover:bg-white transition disabled:opacity-60"
+          >
+            Remove tag
+          </button>
+        </div>
+
+        <div className="mt-4 grid grid-cols-1 gap-6 md:grid-cols-[1fr_20rem]">
+          <div
+            ref={listRef}
+            onScroll={(event) => setScrollTop(event.currentTarget.scrollTop)}
+            className="relative h-[55vh] overflow-y-auto rounded-xl border border-ink/10 bg-white/70"
+          >
+            {results.length === 0 && <p className="p-4 text-sm text-ink/60">No cards match.</p>}
+            <div style={{ height: results.length * ROW_HEIGHT }}>
+              {visible.map((card, offset) => {
+                const position = first + offset;
+                const status = cardStatus(card, context);
+                const group = duplicates.get(card.id);
+                const startsGroup = query.duplicatesOnly && group !== duplicates.get(results[position - 1]?.id);
+                return (
+                  <div
+                    key={card.id}
+                    style={{ top: position * ROW_HEIGHT, height: ROW_HEIGHT }}
+                    className={`absolute inset-x-0 flex items-center gap-3 pl-4 transition ${
+                      startsGroup && position > 0 ? "border-t-2 border-ink/20" : "border-t border-ink/5"
+                    } ${card.id === selectedId ? "bg-clay/60" : "hover:bg-white"}`}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={checkedIds.has(card.id)}
+                      onChange={() => toggleChecked(card.id)}
+                      aria-label={`Select ${card.de_word}`}
+                      className="shrink-0"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setSelectedId(card.id)}
+                      className="flex min-w-0 flex-1 items-center gap-3 self-stretch pr-4 text-left"
+                    >
+                      <span className="min-w-0 flex-1">
+                        <span className="block truncate text-sm text-ink">
+                          <span className="font-semibold">{card.de_word || "—"}</span>
+                          <span className="text-ink/50"> · {card.en_word}</span>
+                        </span>
+                        <span className="block truncate text-xs text-ink/50">{card.de_sentence}</span>
+                      </span>
+                      {group && (
+                        <span
+                          className="shrink-0 rounded-full bg-sky/40 px-2 py-0.5 text-[10px] uppercase tracking-[0.15em] text-ink/70"
+                          title={`${groupSizes.get(group)} cards share the headword "${group}"`}
+                        >
+                          ×{groupSizes.get(group)}
+                        </span>
+                      )}
+                      {card.tags.length > 0 && (
+                        <span
+                          className="max-w-[8rem] shrink-0 truncate text-[10px] uppercase tracking-[0.15em] text-ink/40"
+                          title={card.tags.join(" ")}
+                        >
+                          {card.tags.join(" · ")}
+                        </span>
+                      )}
+                      {overrides[card.id] && (
+                        <span className="shrink-0 text-[10px] uppercase tracking-[0.15em] text-ink/50">Edited</span>
+                      )}
+                      {card.audio_url && <i className="fa fa-volume-up shrink-0 text-ink/40" aria-label="Has audio" />}
+                      <span
+                        className={`shrink-0 rounded-full px-2 py-0.5 text-[10px] uppercase tracking-[0.15em] ${statusStyles[status]}`}
+                      >
+                        {status}
+                      </span>
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          <div>
+            {!selected || !draft ? (
+              <p className="text-sm text-ink/60">Select a card to see and edit it.</p>
+            ) : (
+              <div className="space-y-3">
+                <p className="text-xs uppercase tracking-[0.2em] text-ink/40">Edit card</p>
+                {CARD_FIELDS.map((field) => (
+                  <label key={field} className="block text-xs text-ink/60">
+                    {fieldLabels[field]}
+                    <textarea
+                      value={draft[field]}
+                      onChange={(event) => setDraft((prev) => (prev ? { ...prev, [field]: event.target.value } : prev))}
+                      rows={field.endsWith("sentence") ? 3 : 1}
+                      className="mt-1 block w-full resize-none rounded-lg border border-ink/15 bg-white/80 px-3 py-2 text-sm text-ink focus:outline-none focus:ring-2 focus:ring-ink/20"
+                    />
+                  </label>
+                ))}
+                <label className="block text-xs text-ink/60">
+                  Tags
+                  <input
+                    type="text"
+                    value={tagDraft}
+                    onChange={(event) => setTagDraft(event.target.value)}
+                    placeholder="Separated by spaces"
+                    list="card-browser-tags"
+                    className="mt-1 block w-full rounded-lg border border-ink/15 bg-white/80 px-3 py-2 text-sm text-ink focus:outline-none focus:ring-2 focus:ring-ink/20"
+                  />
+                </label>
+                <p className="text-xs text-ink/40">
+                  Edits are stored on this device on top of the deck file. Note {selected.note_id}.
+                </p>
+                <div className="flex flex-wrap gap-2">
+                  <button
+                    type="button"
+                    onClick={saveDraft}
+                    disabled={!dirty}
+                    className="rounded-full bg-ink text-linen px-4 py-2 text-sm font-semibold shadow-soft hover:shadow-card transition disabled:opacity-60"
+                  >
+                    Save
+                  </button>
+                  {edited && (
+                    <button
+                      type="button"
+                      onClick={revert}
+                      className="rounded-full border border-ink/15 bg-white/70 px-4 py-2 text-sm text-ink/70 hover:bg-white transition"
+                    >
+                      Revert to original
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => onStudyCard(selected.id)}
+                    className="rounded-full border border-ink/15 bg-white/70 px-4 py-2 text-sm text-ink/70 hover:bg-white transition"
+                  >
+                    Study this card
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+import type { ChoiceQuestion, ChoiceResult } from "./choice";
+import { OPTION_ACTIONS, keyHint, type KeyBindings } from "./keyboard";
+
+type ChoiceAnswerProps = {
+  question: ChoiceQuestion;
+  result: ChoiceResult | null;
+  onPick: (index: number) => void;
+  onContinue: () => void;
+  bindings: KeyBindings;
+};
+
+export default function ChoiceAnswer({ question, result, onPick, onContinue, bindings }: ChoiceAnswerProps) {
+  const optionStyle = (optionIndex: number) => {
+    if (!result) return "border-ink/15 bg-white/80 hover:bg-white";
+    if (optionIndex === question.answerIndex) return "border-moss bg-moss/15 text-ink";
+    if (optionIndex === result.chosenIndex) return "border-ember bg-ember/15 text-ember";
+    return "border-ink/10 bg-white/50 text-ink/40";
+  };
+
+  return (
+    <div className="mt-4 w-full max-w-xl">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+        {question.options.map((option, optionIndex) => (
+          <button
+            key={option.card.id}
+            type="button"
+            onClick={() => (result ? onContinue() : onPick(optionIndex))}
+            className={`flex items-center gap-3 rounded-xl border px-4 py-3 text-left text-base transition ${optionStyle(optionIndex)}`}
+          >
+            <span className="shrink-0 text-xs text-ink/40">{keyHint(bindings, OPTION_ACTIONS[optionIndex]) || optionIndex + 1}</span>
+            <span>{option.label}</span>
+          </button>
+        ))}
+      </div>
+      {result && (
+        <div className="mt-3 flex items-center justify-between gap-3 text-sm">
+          <p className={result.correct ? "text-moss" : "text-ember"}>
+            {result.correct ? "Correct!" : "Not quite. The card goes to your missed list."}
+          </p>
+          <button
+            type="button"
+            onClick={onContinue}
+            className="rounded-xl bg-ink text-linen px-4 py-2 text-sm font-semibold shadow-soft hover:shadow-card transition"
+          >
+            Continue
+            {keyHint(bindings, "continue") && <span className="block text-xs opacity-80">{keyHint(bindings, "continue")}</span>}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
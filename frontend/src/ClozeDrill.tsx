@@ -0,0 +1,270 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { buildClozeSet, checkCloze, type ClozeVerdict } from "./cloze";
+import type { Grade } from "./scheduler";
+import type { Card } from "./types";
+
+type ClozeDrillProps = {
+  cards: Card[];
+  index: number;
+  missedIds: string[];
+  onIndexChange: (index: number) => void;
+  onAnswer: (card: Card, grade: Grade, responseMs: number) => void;
+  paused?: boolean;
+};
+
+type Feedback = {
+  card: Card;
+  typed: string;
+  verdict: ClozeVerdict | "revealed";
+};
+
+const verdictGrades: Record<Feedback["verdict"], Grade> = {
+  correct: "good",
+  close: "hard",
+  wrong: "again",
+  revealed: "again"
+};
+
+const verdictLabels: Record<Feedback["verdict"], string> = {
+  correct: "Correct.",
+  close: "Almost — check the spelling.",
+  wrong: "Not quite.",
+  revealed: "Revealed."
+};
+
+export default function ClozeDrill({
+  cards,
+  index,
+  missedIds,
+  onIndexChange,
+  onAnswer,
+  paused = false
+}: ClozeDrillProps) {
+  const [missedOnly, setMissedOnly] = useState(false);
+  const [missedPosition, setMissedPosition] = useState(0);
+  const [typed, setTyped] = useState("");
+  const [feedback, setFeedback] = useState<Feedback | null>(null);
+  const [stats, setStats] = useState({ answered: 0, correct: 0 });
+  const [reportOpen, setReportOpen] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const shownAt = useRef(Date.now());
+
+  const clozeSet = useMemo(() => buildClozeSet(cards), [cards]);
+  const missedItems = useMemo(() => {
+    const missed = new Set(missedIds);
+    return clozeSet.items.filter((item) => missed.has(item.card.id));
+  }, [clozeSet, missedIds]);
+  const queue = missedOnly ? missedItems : clozeSet.items;
+  const position = missedOnly ? missedPosition : index;
+  const current =
+    (feedback && clozeSet.items.find((item) => item.card === feedback.card)) ??
+    (queue.length > 0 ? queue[position % queue.length] : null);
+
+  useEffect(() => {
+    shownAt.current = Date.now();
+    if (!paused) inputRef.current?.focus();
+  }, [current?.card, paused]);
+
+  useEffect(() => {
+    if (missedOnly && missedItems.length === 0) {
+      setMissedOnly(false);
+    }
+  }, [missedOnly, missedItems.length]);
+
+  const advance = () => {
+    setFeedback(null);
+    setTyped("");
+    if (queue.length === 0) return;
+    if (missedOnly) {
+      // Anything but a miss takes the card out of the missed queue, so the next one
+      // is already at the current position.
+      if (feedback && verdictGrades[feedback.verdict] === "again") setMissedPosition((prev) => prev + 1);
+    } else {
+      onIndexChange((index + 1) % clozeSet.items.length);
+    }
+  };
+
+  const finish = (verdict: Feedback["verdict"]) => {
+    if (!current) return;
+    setFeedback({ card: current.card, typed, verdict });
+    setStats((prev) => ({
+      answered: prev.answered + 1,
+      correct: prev.correct + (verdict === "correct" ? 1 : 0)
+    }));
+    onAnswer(current.card, verdictGrades[verdict], Date.now() - shownAt.current);
+  };
+
+  const submit = () => {
+    if (feedback) {
+      advance();
+    } else if (current && typed.trim()) {
+      finish(checkCloze(current.cloze, typed));
+    }
+  };
+
+  const skippedReport = (
+    <div className="mt-4 border-t border-ink/10 pt-4">
+      <button
+        type="button"
+        onClick={() => setReportOpen((prev) => !prev)}
+        className="text-xs uppercase tracking-[0.2em] text-ink/40 hover:text-ink/70 transition"
+      >
+        Skipped cards ({clozeSet.skipped.length}) {reportOpen ? "▴" : "▾"}
+      </button>
+      {reportOpen && (
+        <>
+          <p className="mt-2 text-xs text-ink/50">
+            No confident match for the headword was found in these sentences, so they are left out of the drill.
+          </p>
+          <ul className="mt-2 max-h-64 overflow-y-auto divide-y divide-ink/5 rounded-xl border border-ink/10 bg-white/70 text-sm">
+            {clozeSet.skipped.map((skip) => (
+              <li key={skip.card.id} className="px-4 py-2">
+                <p className="text-ink">
+                  <span className="font-semibold">{skip.card.de_word || "—"}</span>
+                  <span className="text-ink/50"> · {skip.reason}</span>
+                </p>
+                {skip.card.de_sentence && <p className="text-xs text-ink/50">{skip.card.de_sentence}</p>}
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+
+  if (!current) {
+    return (
+      <div>
+        <div className="border border-ink/10 rounded-xl p-6 md:p-10 text-center min-h-[280px] flex items-center justify-center bg-white/70">
+          <p className="text-ink/60">No example sentence in this deck contains its headword.</p>
+        </div>
+        {clozeSet.skipped.length > 0 && skippedReport}
+      </div>
+    );
+  }
+
+  const { card, cloze } = current;
+  const grade = feedback ? verdictGrades[feedback.verdict] : null;
+
+  return (
+    <div>
+      <div
+        className={`relative border rounded-xl p-6 md:p-10 text-center min-h-[280px] flex items-center justify-center transition ${
+          grade === null
+            ? "border-ink/10 bg-white/70"
+            : grade === "again"
+              ? "border-ember bg-ember/10"
+              : grade === "hard"
+                ? "border-clay bg-clay/30"
+                : "border-moss bg-moss/10"
+        }`}
+      >
+        <div className="absolute top-3 left-1/2 -translate-x-1/2 text-[11px] uppercase tracking-[0.2em] text-ink/40">
+          {missedOnly ? "Missed gaps" : "Fill the gap"} · {(position % queue.length) + 1} / {queue.length}
+        </div>
+        <div className="flex w-full flex-col items-center gap-3">
+          <p className="mt-4 text-2xl md:text-3xl font-display text-ink max-w-2xl leading-relaxed">
+            {cloze.segments.map((segment, segmentIndex) =>
+              !segment.blank ? (
+                <span key={segmentIndex}>{segment.text}</span>
+              ) : feedback ? (
+                <span key={segmentIndex} className="font-semibold underline decoration-2 underline-offset-4">
+                  {segment.text}
+                </span>
+              ) : (
+                <span
+                  key={segmentIndex}
+                  className="inline-block border-b-2 border-ink/40 align-baseline"
+                  style={{ width: `${Math.max(segment.text.length, 3)}ch` }}
+                  aria-label="blank"
+                >
+                  &nbsp;
+                </span>
+              )
+            )}
+          </p>
+          {card.en_sentence && <p className="text-base md:text-lg text-ink/60 font-light max-w-xl">{card.en_sentence}</p>}
+          {feedback && (
+            <div className="text-sm text-ink/60">
+              <p>
+                <span className="font-semibold text-ink">{card.de_word}</span> · {card.en_word}
+              </p>
+              <p className={`mt-2 ${grade === "again" ? "text-ember" : "text-ink/70"}`}>
+                {verdictLabels[feedback.verdict]}
+                {feedback.verdict !== "correct" && feedback.typed.trim() && ` You typed "${feedback.typed.trim()}".`}{" "}
+                Press Enter to continue.
+              </p>
+            </div>
+          )}
+          <form
+            className="mt-2 flex w-full max-w-md flex-col gap-2 sm:flex-row"
+            onSubmit={(event) => {
+              event.preventDefault();
+              submit();
+            }}
+          >
+            <input
+              ref={inputRef}
+              value={typed}
+              onChange={(event) => setTyped(event.target.value)}
+              readOnly={Boolean(feedback)}
+              placeholder="Missing word(s)"
+              autoComplete="off"
+              autoCapitalize="off"
+              spellCheck={false}
+              lang="de"
+              className="flex-1 rounded-full border border-ink/15 bg-white/80 px-4 py-2 text-base text-ink focus:outline-none focus:ring-2 focus:ring-ink/20"
+            />
+            {feedback ? (
+              <button
+                type="submit"
+                className="rounded-full bg-ink text-linen px-4 py-2 text-sm font-semibold shadow-soft hover:shadow-card transition"
+              >
+                Continue
+              </button>
+            ) : (
+              <>
+                <button
+                  type="submit"
+                  disabled={!typed.trim()}
+                  className="rounded-full bg-ink text-linen px-4 py-2 text-sm font-semibold shadow-soft hover:shadow-card transition disabled:opacity-60"
+                >
+                  Check
+                </button>
+                <button
+                  type="button"
+                  onClick={() => finish("revealed")}
+                  className="rounded-full border border-ink/15 bg-white/70 px-4 py-2 text-sm text-ink/70 hover:bg-white transition"
+                >
+                  Reveal
+                </button>
+              </>
+            )}
+          </form>
+        </div>
+      </div>
+
+      <div className="mt-4 flex flex-col md:flex-row md:items-center md:justify-between gap-3 text-sm text-ink/60">
+        <p>
+          {stats.correct} / {stats.answered} correct this session · {missedItems.length} missed ·{" "}
+          {clozeSet.items.length} of {cards.length} cards have a gap
+        </p>
+        <label className="inline-flex items-center gap-2 text-ink/70">
+          <input
+            type="checkbox"
+            checked={missedOnly}
+            disabled={missedItems.length === 0}
+            onChange={(event) => {
+              setMissedOnly(event.target.checked);
+              setMissedPosition(0);
+              setFeedback(null);
+              setTyped("");
+            }}
+          />
+          Only drill missed gaps
+        </label>
+      </div>
+      {clozeSet.skipped.length > 0 && skippedReport}
+    </div>
+  );
+}
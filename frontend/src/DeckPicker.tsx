@@ -0,0 +1,72 @@
+import { buildDueQueue } from "./scheduler";
+import { loadProgress } from "./storage";
+import type { DeckManifest, DeckManifestEntry } from "./types";
+
+type DeckPickerProps = {
+  manifest: DeckManifest;
+  onSelect: (deckId: string) => void;
+  onImport: () => void;
+  onDelete: (entry: DeckManifestEntry) => void;
+};
+
+export default function DeckPicker({ manifest, onSelect, onImport, onDelete }: DeckPickerProps) {
+  const now = Date.now();
+
+  return (
+    <div className="min-h-screen text-ink">
+      <div className="max-w-5xl mx-auto px-6 py-8">
+        <header className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+          <div className="text-center md:text-left">
+            <h1 className="text-2xl md:text-3xl font-display text-ink">Choose a deck</h1>
+            <h2 className="mt-2 font-brand text-xs uppercase tracking-[0.4em] text-ink/50">Deckster Lab</h2>
+          </div>
+          <div className="flex items-center justify-center md:justify-end gap-2">
+            <button
+              type="button"
+              onClick={onImport}
+              className="rounded-full border border-ink/15 bg-white/70 px-3 py-2 text-xs uppercase tracking-[0.2em] text-ink/70 hover:bg-white transition"
+              title="Import an Anki .apkg deck"
+            >
+              Import .apkg
+            </button>
+          </div>
+        </header>
+
+        <main className="mt-6 grid grid-cols-1 md:grid-cols-2 gap-6">
+          {manifest.decks.length === 0 && <p className="text-ink/60">No decks are registered yet.</p>}
+          {manifest.decks.map((entry) => {
+            const progress = loadProgress(entry.id);
+            const scheduledIds = Object.keys(progress.schedules);
+            const dueCount = buildDueQueue(progress.schedules, scheduledIds, now).length;
+            return (
+              <div key={entry.id} className="relative card-surface rounded-2xl shadow-card hover:shadow-soft transition animate-floatIn">
+                <button type="button" onClick={() => onSelect(entry.id)} className="w-full p-6 text-left">
+                  <p className="text-xs uppercase tracking-[0.2em] text-ink/40">
+                    {entry.cardCount !== undefined ? `${entry.cardCount} cards` : "Deck"}
+                    {entry.local && " · On this device"}
+                  </p>
+                  <p className="mt-2 text-xl font-display font-semibold text-ink">{entry.title}</p>
+                  {entry.description && <p className="mt-2 text-sm text-ink/60">{entry.description}</p>}
+                  <p className="mt-4 text-xs text-ink/50">
+                    {scheduledIds.length === 0
+                      ? "Not started yet"
+                      : `${scheduledIds.length} studied · ${dueCount} due · ${progress.missedIds.length} missed`}
+                  </p>
+                </button>
+                {entry.local && (
+                  <button
+                    type="button"
+                    onClick={() => onDelete(entry)}
+                    className="absolute top-4 right-4 rounded-full border border-ink/15 bg-white/70 px-3 py-1 text-[11px] uppercase tracking-[0.2em] text-ink/60 hover:bg-white transition"
+                  >
+                    Delete
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </main>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,198 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { OPTION_ACTIONS, actionsForEvent, isTypingTarget, keyHint, type KeyBindings } from "./keyboard";
+import type { Article, Card } from "./types";
+
+type GenderDrillProps = {
+  cards: Card[];
+  index: number;
+  missedIds: string[];
+  onIndexChange: (index: number) => void;
+  onAnswer: (card: Card, correct: boolean, responseMs: number) => void;
+  bindings: KeyBindings;
+  paused?: boolean;
+};
+
+type Feedback = {
+  card: Card;
+  chosen: Article;
+  correct: boolean;
+};
+
+const ARTICLE_CHOICES: Article[] = ["der", "die", "das"];
+
+const articleStyles: Record<Article, string> = {
+  der: "bg-sky text-ink",
+  die: "bg-ember text-white",
+  das: "bg-moss text-white"
+};
+
+const AUTO_ADVANCE_MS = 700;
+
+export default function GenderDrill({
+  cards,
+  index,
+  missedIds,
+  onIndexChange,
+  onAnswer,
+  bindings,
+  paused = false
+}: GenderDrillProps) {
+  const [missedOnly, setMissedOnly] = useState(false);
+  const [missedPosition, setMissedPosition] = useState(0);
+  const [feedback, setFeedback] = useState<Feedback | null>(null);
+  const [stats, setStats] = useState({ answered: 0, correct: 0, streak: 0 });
+  const advanceTimer = useRef<number | null>(null);
+  const shownAt = useRef(Date.now());
+
+  // Only nouns with a single, unambiguous article take part ("der/die Bekannte" does not).
+  const nouns = useMemo(() => cards.filter((card) => card.grammar?.article), [cards]);
+  const missedNouns = useMemo(() => {
+    const missed = new Set(missedIds);
+    return nouns.filter((card) => missed.has(card.id));
+  }, [missedIds, nouns]);
+  const queue = missedOnly ? missedNouns : nouns;
+  const position = missedOnly ? missedPosition : index;
+  const currentCard = feedback?.card ?? (queue.length > 0 ? queue[position % queue.length] : null);
+
+  useEffect(() => {
+    shownAt.current = Date.now();
+  }, [currentCard]);
+
+  useEffect(() => {
+    if (missedOnly && missedNouns.length === 0) {
+      setMissedOnly(false);
+    }
+  }, [missedOnly, missedNouns.length]);
+
+  useEffect(
+    () => () => {
+      if (advanceTimer.current !== null) window.clearTimeout(advanceTimer.current);
+    },
+    []
+  );
+
+  const advance = () => {
+    if (advanceTimer.current !== null) {
+      window.clearTimeout(advanceTimer.current);
+      advanceTimer.current = null;
+    }
+    setFeedback(null);
+    if (queue.length === 0) return;
+    if (missedOnly) {
+      // A correct answer removes the card from the missed queue, so the next one
+      // is already at the current position.
+      if (feedback && !feedback.correct) setMissedPosition((prev) => prev + 1);
+    } else {
+      onIndexChange((index + 1) % nouns.length);
+    }
+  };
+
+  const answer = (chosen: Article) => {
+    if (!currentCard) return;
+    if (feedback) {
+      advance();
+      return;
+    }
+    const correct = currentCard.grammar?.article === chosen;
+    setFeedback({ card: currentCard, chosen, correct });
+    setStats((prev) => ({
+      answered: prev.answered + 1,
+      correct: prev.correct + (correct ? 1 : 0),
+      streak: correct ? prev.streak + 1 : 0
+    }));
+    onAnswer(currentCard, correct, Date.now() - shownAt.current);
+    if (correct) {
+      advanceTimer.current = window.setTimeout(advance, AUTO_ADVANCE_MS);
+    }
+  };
+
+  useEffect(() => {
+    const handleKey = (event: KeyboardEvent) => {
+      if (paused || event.repeat || isTypingTarget(event.target)) return;
+      const actions = actionsForEvent(bindings, event);
+      const choice = ARTICLE_CHOICES.find((_, articleIndex) => actions.includes(OPTION_ACTIONS[articleIndex]));
+      if (choice) {
+        event.preventDefault();
+        answer(choice);
+      } else if (feedback && actions.includes("continue")) {
+        event.preventDefault();
+        advance();
+      }
+    };
+    window.addEventListener("keydown", handleKey);
+    return () => window.removeEventListener("keydown", handleKey);
+  });
+
+  if (!currentCard) {
+    return (
+      <div className="border border-ink/10 rounded-xl p-6 md:p-10 text-center min-h-[280px] flex items-center justify-center bg-white/70">
+        <p className="text-ink/60">This deck has no nouns with an article to drill.</p>
+      </div>
+    );
+  }
+
+  const grammar = currentCard.grammar!;
+
+  return (
+    <div>
+      <div
+        className={`relative border rounded-xl p-6 md:p-10 text-center min-h-[280px] flex items-center justify-center transition ${
+          feedback ? (feedback.correct ? "border-moss bg-moss/10" : "border-ember bg-ember/10") : "border-ink/10 bg-white/70"
+        }`}
+      >
+        <div className="absolute top-3 left-1/2 -translate-x-1/2 text-[11px] uppercase tracking-[0.2em] text-ink/40">
+          {missedOnly ? "Missed genders" : "Gender drill"} · {(position % queue.length) + 1} / {queue.length}
+        </div>
+        <div className="flex flex-col items-center gap-3">
+          <p className="text-sm uppercase tracking-[0.2em] text-ink/40">der, die or das?</p>
+          <p className="mt-2 text-4xl md:text-5xl font-display font-semibold text-ink">
+            {feedback ? `${grammar.article} ${grammar.lemma}` : grammar.lemma}
+          </p>
+          {feedback && (
+            <div className="text-base md:text-lg text-ink/60 font-light">
+              <p>{currentCard.en_word}</p>
+              {grammar.plural && !grammar.pluralOnly && <p className="text-sm">Plural: die {grammar.plural}</p>}
+              {!feedback.correct && (
+                <p className="mt-2 text-sm text-ember">
+                  Not {feedback.chosen}. {keyHint(bindings, "continue") ? `Press ${keyHint(bindings, "continue")} to continue.` : "Pick again to continue."}
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="mt-6 grid grid-cols-3 gap-3">
+        {ARTICLE_CHOICES.map((article, articleIndex) => (
+          <button
+            key={article}
+            onClick={() => answer(article)}
+            className={`rounded-xl px-4 py-3 text-lg font-semibold shadow-soft hover:shadow-card transition ${articleStyles[article]}`}
+          >
+            {article}
+            <span className="block text-xs opacity-80">{keyHint(bindings, OPTION_ACTIONS[articleIndex])}</span>
+          </button>
+        ))}
+      </div>
+
+      <div className="mt-4 flex flex-col md:flex-row md:items-center md:justify-between gap-3 text-sm text-ink/60">
+        <p>
+          {stats.correct} / {stats.answered} correct this session · streak {stats.streak} · {missedNouns.length} missed
+        </p>
+        <label className="inline-flex items-center gap-2 text-ink/70">
+          <input
+            type="checkbox"
+            checked={missedOnly}
+            disabled={missedNouns.length === 0}
+            onChange={(event) => {
+              setMissedOnly(event.target.checked);
+              setMissedPosition(0);
+              setFeedback(null);
+            }}
+          />
+          Only drill missed genders
+        </label>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,169 @@
+import { useMemo, useState } from "react";
+import {
+  buildImportedDeck,
+  defaultFieldMapping,
+  readApkg,
+  slugify,
+  type ApkgPackage,
+  type FieldMapping
+} from "./apkg";
+import { saveLocalDeck } from "./localDecks";
+import { CARD_FIELDS, type CardField, type DeckManifestEntry } from "./types";
+
+type ImportDeckProps = {
+  onClose: () => void;
+  onImported: (entry: DeckManifestEntry) => void;
+};
+
+const fieldLabels: Record<CardField, string> = {
+  de_word: "German word",
+  de_sentence: "German sentence",
+  en_word: "English word",
+  en_sentence: "English sentence"
+};
+
+export default function ImportDeck({ onClose, onImported }: ImportDeckProps) {
+  const [pkg, setPkg] = useState<ApkgPackage | null>(null);
+  const [mapping, setMapping] = useState<FieldMapping | null>(null);
+  const [title, setTitle] = useState("");
+  const [includeAudio, setIncludeAudio] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const sampleNote = pkg?.notes[0];
+  const preview = useMemo(() => {
+    if (!pkg || !mapping) return null;
+    return buildImportedDeck({ ...pkg, notes: pkg.notes.slice(0, 1) }, mapping, false).cards[0] ?? null;
+  }, [pkg, mapping]);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const loaded = await readApkg(file);
+      setPkg(loaded);
+      setMapping(defaultFieldMapping(loaded.fieldNames.length));
+      setTitle(loaded.title);
+    } catch (reason) {
+      setPkg(null);
+      setError(reason instanceof Error ? reason.message : String(reason));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!pkg || !mapping) return;
+    const deckTitle = title.trim() || pkg.title;
+    setBusy(true);
+    setError(null);
+    try {
+      const imported = buildImportedDeck(pkg, mapping, includeAudio);
+      if (imported.cards.length === 0) {
+        throw new Error("None of the notes has content in the mapped fields.");
+      }
+      const id = `local-${slugify(deckTitle)}-${Date.now().toString(36)}`;
+      onImported(await saveLocalDeck(id, deckTitle, imported));
+    } catch (reason) {
+      setError(reason instanceof Error ? reason.message : String(reason));
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-ink/40 p-6" onClick={onClose}>
+      <div
+        className="card-surface w-full max-w-2xl max-h-full overflow-y-auto rounded-2xl shadow-card p-6 md:p-8"
+        onClick={(event) => event.stopPropagation()}
+      >
+        <p className="font-brand text-xs uppercase tracking-[0.3em] text-ink/50">Deckster Lab</p>
+        <h2 className="mt-4 text-2xl font-display text-ink">Import an Anki deck</h2>
+        <p className="mt-2 text-sm text-ink/60">
+          Choose an <code>.apkg</code> file exported from Anki. It is read entirely in your browser and saved on this
+          device.
+        </p>
+
+        <input
+          type="file"
+          accept=".apkg"
+          disabled={busy}
+          onChange={(event) => void handleFile(event.target.files?.[0])}
+          className="mt-4 block w-full text-sm text-ink/70"
+        />
+
+        {pkg && mapping && (
+          <div className="mt-6 space-y-4">
+            <p className="text-sm text-ink/60">
+              {pkg.notes.length} notes · {pkg.media.size} media files
+            </p>
+            <label className="block text-sm text-ink/70">
+              Deck title
+              <input
+                type="text"
+                value={title}
+                onChange={(event) => setTitle(event.target.value)}
+                className="mt-1 w-full rounded-xl border border-ink/15 bg-white/70 px-3 py-2"
+              />
+            </label>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              {CARD_FIELDS.map((field) => (
+                <label key={field} className="block text-sm text-ink/70">
+                  {fieldLabels[field]}
+                  <select
+                    value={mapping[field] ?? ""}
+                    onChange={(event) =>
+                      setMapping({ ...mapping, [field]: event.target.value === "" ? null : Number(event.target.value) })
+                    }
+                    className="mt-1 w-full rounded-xl border border-ink/15 bg-white/70 px-3 py-2"
+                  >
+                    <option value="">(empty)</option>
+                    {pkg.fieldNames.map((name, position) => (
+                      <option key={position} value={position}>
+                        {name}
+                        {sampleNote?.fields[position] ? ` – ${sampleNote.fields[position].slice(0, 40)}` : ""}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+            </div>
+            <label className="inline-flex items-center gap-2 text-sm text-ink/70">
+              <input type="checkbox" checked={includeAudio} onChange={(event) => setIncludeAudio(event.target.checked)} />
+              Import audio from [sound:…] tags
+            </label>
+            {preview && (
+              <div className="rounded-xl border border-ink/10 bg-white/70 p-4 text-sm">
+                <p className="text-xs uppercase tracking-[0.2em] text-ink/40">First card</p>
+                <p className="mt-2 font-semibold text-ink">{preview.de_word || "—"}</p>
+                <p className="text-ink/60">{preview.de_sentence}</p>
+                <p className="mt-2 font-semibold text-ink">{preview.en_word || "—"}</p>
+                <p className="text-ink/60">{preview.en_sentence}</p>
+              </div>
+            )}
+          </div>
+        )}
+
+        {error && <p className="mt-4 text-sm text-ember">{error}</p>}
+
+        <div className="mt-6 flex items-center justify-end gap-2">
+          <button
+            type="button"
+            onClick={onClose}
+            className="rounded-full border border-ink/15 bg-white/70 px-4 py-2 text-sm text-ink/70 hover:bg-white transition"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={() => void handleImport()}
+            disabled={!pkg || busy}
+            className="rounded-full bg-ink text-linen px-4 py-2 text-sm font-semibold shadow-soft hover:shadow-card transition disabled:opacity-60"
+          >
+            {busy ? "Working…" : "Import deck"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,210 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import {
+  countCachedAudio,
+  deckAudioUrls,
+  downloadAudio,
+  estimateStorage,
+  formatBytes,
+  isOfflineSupported,
+  isServiceWorkerActive,
+  removeAudio,
+  requestPersistentStorage,
+  type DownloadProgress,
+  type StorageEstimate
+} from "./offline";
+import type { Deck } from "./types";
+
+type OfflineDialogProps = {
+  deck: Deck;
+  onClose: () => void;
+};
+
+export default function OfflineDialog({ deck, onClose }: OfflineDialogProps) {
+  const urls = useMemo(() => deckAudioUrls(deck), [deck]);
+  const [cachedCount, setCachedCount] = useState<number | null>(null);
+  const [storage, setStorage] = useState<StorageEstimate | null>(null);
+  const [workerActive, setWorkerActive] = useState(false);
+  const [downloading, setDownloading] = useState(false);
+  const [progress, setProgress] = useState<DownloadProgress | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const supported = isOfflineSupported();
+
+  const refresh = useCallback(async () => {
+    const [count, estimate, active] = await Promise.all([
+      countCachedAudio(urls),
+      estimateStorage(),
+      isServiceWorkerActive()
+    ]);
+    setCachedCount(count);
+    setStorage(estimate);
+    setWorkerActive(active);
+  }, [urls]);
+
+  useEffect(() => {
+    refresh().catch((reason: unknown) => setError(reason instanceof Error ? reason.message : String(reason)));
+  }, [refresh]);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const startDownload = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setDownloading(true);
+    setError(null);
+    setMessage(null);
+    void requestPersistentStorage();
+    try {
+      const result = await downloadAudio(urls, setProgress, controller.signal);
+      if (controller.signal.aborted) {
+        setMessage("Download stopped. Clips saved so far stay available offline.");
+      } else if (result.failed > 0) {
+        setError(`${result.failed} of ${result.total} clips could not be downloaded. Try again when you are online.`);
+      } else {
+        setMessage("All audio for this deck is available offline.");
+      }
+    } catch (reason) {
+      setError(reason instanceof Error ? reason.message : String(reason));
+    } finally {
+      abortRef.current = null;
+      setDownloading(false);
+      setProgress(null);
+      await refresh().catch(() => undefined);
+    }
+  };
+
+  const removeDownloads = async () => {
+    setError(null);
+    setMessage(null);
+    try {
+      await removeAudio(urls);
+      setMessage("Downloaded audio removed.");
+      await refresh();
+    } catch (reason) {
+      setError(reason instanceof Error ? reason.message : String(reason));
+    }
+  };
+
+  const percent = progress && progress.total > 0 ? Math.round((progress.done / progress.total) * 100) : 0;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-ink/40 p-6" onClick={onClose}>
+      <div
+        className="card-surface w-full max-w-2xl max-h-full overflow-y-auto rounded-2xl shadow-card p-6 md:p-8"
+        onClick={(event) => event.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <p className="font-brand text-xs uppercase tracking-[0.3em] text-ink/50">Deckster Lab</p>
+          <button
+            type="button"
+            onClick={onClose}
+            className="rounded-full border border-ink/15 bg-white/70 px-3 py-1 text-xs uppercase tracking-[0.2em] text-ink/70 hover:bg-white transition"
+          >
+            Close
+          </button>
+        </div>
+        <h2 className="mt-4 text-2xl font-display text-ink">Offline · {deck.title}</h2>
+
+        {!supported ? (
+          <p className="mt-4 text-sm text-ink/60">This browser does not support offline use.</p>
+        ) : (
+          <div className="mt-6 space-y-6">
+            <div>
+              <p className="text-xs uppercase tracking-[0.2em] text-ink/40">App</p>
+              <p className="mt-2 text-sm text-ink/60">
+                {workerActive
+                  ? "The app and its decks are stored on this device and open without a connection. Install it from the browser menu to get a home screen icon."
+                  : "Offline support is set up on the first visit of the deployed app; reload once while online to finish it."}
+              </p>
+            </div>
+
+            <div className="border-t border-ink/10 pt-4">
+              <p className="text-xs uppercase tracking-[0.2em] text-ink/40">Audio</p>
+              {deck.local ? (
+                <p className="mt-2 text-sm text-ink/60">
+                  This deck was imported in the browser, so its audio is already stored on this device.
+                </p>
+              ) : urls.length === 0 ? (
+                <p className="mt-2 text-sm text-ink/60">This deck has no audio.</p>
+              ) : (
+                <>
+                  <p className="mt-2 text-sm text-ink/60">
+                    Clips are saved as you play them. Download the rest to study without a connection.
+                  </p>
+                  <p className="mt-3 text-sm text-ink">
+                    {cachedCount === null ? "Checking…" : `${cachedCount} of ${urls.length} clips available offline`}
+                  </p>
+                  <div className="mt-2 h-2 w-full overflow-hidden rounded-full bg-ink/10">
+                    <div
+                      className="h-full bg-moss transition-all"
+                      style={{
+                        width: `${progress ? percent : cachedCount === null ? 0 : (cachedCount / urls.length) * 100}%`
+                      }}
+                    />
+                  </div>
+                  {progress && (
+                    <p className="mt-2 text-xs text-ink/50">
+                      Downloading {progress.done} / {progress.total}
+                      {progress.failed > 0 && ` · ${progress.failed} failed`}
+                    </p>
+                  )}
+                  <div className="mt-3 flex flex-wrap gap-2">
+                    {downloading ? (
+                      <button
+                        type="button"
+                        onClick={() => abortRef.current?.abort()}
+                        className="rounded-full border border-ink/15 bg-white/70 px-4 py-2 text-sm text-ink/70 hover:bg-white transition"
+                      >
+                        Stop
+                      </button>
+                    ) : (
+                      <button
+                        type="button"
+                        onClick={() => void startDownload()}
+                        disabled={cachedCount === urls.length}
+                        className="rounded-full bg-ink text-linen px-4 py-2 text-sm font-semibold shadow-soft hover:shadow-card transition disabled:opacity-60"
+                      >
+                        Download all audio for this deck
+                      </button>
+                    )}
+                    <button
+                      type="button"
+                      onClick={() => void removeDownloads()}
+                      disabled={downloading || !cachedCount}
+                      className="rounded-full border border-ink/15 bg-white/70 px-4 py-2 text-sm text-ink/70 hover:bg-white transition disabled:opacity-60"
+                    >
+                      Remove downloaded audio
+                    </button>
+                  </div>
+                </>
+              )}
+            </div>
+
+            <div className="border-t border-ink/10 pt-4">
+              <p className="text-xs uppercase tracking-[0.2em] text-ink/40">Storage</p>
+              {storage ? (
+                <>
+                  <p className="mt-2 text-sm text-ink/60">
+                    {formatBytes(storage.usage)} used of {formatBytes(storage.quota)} available to this site.
+                  </p>
+                  <div className="mt-2 h-2 w-full overflow-hidden rounded-full bg-ink/10">
+                    <div
+                      className="h-full bg-sky"
+                      style={{ width: `${Math.min(100, (storage.usage / Math.max(storage.quota, 1)) * 100)}%` }}
+                    />
+                  </div>
+                </>
+              ) : (
+                <p className="mt-2 text-sm text-ink/60">This browser does not report its storage usage.</p>
+              )}
+            </div>
+
+            {message && <p className="text-sm text-moss">{message}</p>}
+            {error && <p className="text-sm text-ember">{error}</p>}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
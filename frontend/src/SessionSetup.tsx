@@ -0,0 +1,208 @@
+import { useMemo, useState } from "react";
+import { buildSessionOrder, newSeed, type SessionConfig, type SessionGoal, type SessionOrder } from "./session";
+import type { Card } from "./types";
+
+type SessionSetupProps = {
+  cards: Card[];
+  config: SessionConfig;
+  newToday: number;
+  onStart: (config: SessionConfig) => void;
+  onClose: () => void;
+};
+
+const orderOptions: Array<{ id: SessionOrder; label: string }> = [
+  { id: "sequential", label: "Deck order" },
+  { id: "shuffled", label: "Shuffled" }
+];
+
+const goalOptions: Array<{ id: SessionGoal; label: string }> = [
+  { id: "none", label: "No goal" },
+  { id: "cards", label: "Number of cards" },
+  { id: "minutes", label: "Minutes of study" }
+];
+
+const inputClass =
+  "w-24 rounded-full border border-ink/15 bg-white/80 px-3 py-1.5 text-sm text-ink focus:outline-none focus:ring-2 focus:ring-ink/20";
+
+function parseOptional(value: string) {
+  const parsed = Number.parseInt(value, 10);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : null;
+}
+
+export default function SessionSetup({ cards, config, newToday, onStart, onClose }: SessionSetupProps) {
+  const [draft, setDraft] = useState<SessionConfig>(config);
+  const size = useMemo(() => buildSessionOrder(cards, draft).length, [cards, draft]);
+  const update = (patch: Partial<SessionConfig>) => setDraft((prev) => ({ ...prev, ...patch }));
+  const rangeInvalid = draft.rangeStart !== null && draft.rangeEnd !== null && draft.rangeStart > draft.rangeEnd;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-ink/40 p-6" onClick={onClose}>
+      <div
+        className="card-surface w-full max-w-2xl max-h-full overflow-y-auto rounded-2xl shadow-card p-6 md:p-8"
+        onClick={(event) => event.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <p className="font-brand text-xs uppercase tracking-[0.3em] text-ink/50">Deckster Lab</p>
+          <button
+            type="button"
+            onClick={onClose}
+            className="rounded-full border border-ink/15 bg-white/70 px-3 py-1 text-xs uppercase tracking-[0.2em] text-ink/70 hover:bg-white transition"
+          >
+            Close
+          </button>
+        </div>
+        <h2 className="mt-4 text-2xl font-display text-ink">New session</h2>
+
+        <div className="mt-6 space-y-6">
+          <div>
+            <p className="text-xs uppercase tracking-[0.2em] text-ink/40">Order</p>
+            <div className="mt-3 flex flex-wrap items-center gap-3">
+              {orderOptions.map((option) => (
+                <label key={option.id} className="inline-flex items-center gap-2 text-sm text-ink/70">
+                  <input
+                    type="radio"
+                    name="session-order"
+                    checked={draft.order === option.id}
+                    onChange={() => update({ order: option.id })}
+                  />
+                  {option.label}
+                </label>
+              ))}
+              {draft.order === "shuffled" && (
+                <button
+                  type="button"
+                  onClick={() => update({ seed: newSeed() })}
+                  className="rounded-full border border-ink/15 bg-white/70 px-3 py-1 text-xs uppercase tracking-[0.2em] text-ink/70 hover:bg-white transition"
+                >
+                  Reshuffle
+                </button>
+              )}
+            </div>
+            {draft.order === "shuffled" && (
+              <p className="mt-2 text-xs text-ink/50">
+                The shuffle is kept until you reshuffle, so a session picks up in the same order after a reload.
+              </p>
+            )}
+          </div>
+
+          <div className="border-t border-ink/10 pt-4">
+            <p className="text-xs uppercase tracking-[0.2em] text-ink/40">Cards</p>
+            <div className="mt-3 flex flex-wrap items-center gap-2 text-sm text-ink/70">
+              From card
+              <input
+                type="number"
+                min={1}
+                max={cards.length}
+                value={draft.rangeStart ?? ""}
+                placeholder="1"
+                onChange={(event) => update({ rangeStart: parseOptional(event.target.value) || null })}
+                className={inputClass}
+              />
+              to
+              <input
+                type="number"
+                min={1}
+                max={cards.length}
+                value={draft.rangeEnd ?? ""}
+                placeholder={String(cards.length)}
+                onChange={(event) => update({ rangeEnd: parseOptional(event.target.value) || null })}
+                className={inputClass}
+              />
+            </div>
+            <label className="mt-3 inline-flex items-center gap-2 text-sm text-ink/70">
+              <input
+                type="checkbox"
+                checked={draft.audioOnly}
+                onChange={(event) => update({ audioOnly: event.target.checked })}
+              />
+              Only cards with audio
+            </label>
+            {draft.focus && (
+              <div className="mt-3 flex flex-wrap items-center gap-2 text-sm text-ink/70">
+                Only {draft.focus.name} ({draft.focus.cardIds.length} cards)
+                <button
+                  type="button"
+                  onClick={() => update({ focus: null })}
+                  className="rounded-full border border-ink/15 bg-white/70 px-3 py-1 text-xs uppercase tracking-[0.2em] text-ink/70 hover:bg-white transition"
+                >
+                  Whole deck
+                </button>
+              </div>
+            )}
+            <p className={`mt-2 text-sm ${size === 0 ? "text-ember" : "text-ink/60"}`}>
+              {rangeInvalid
+                ? "The range ends before it starts."
+                : `${size} of ${cards.length} cards in this session.`}
+            </p>
+          </div>
+
+          <div className="border-t border-ink/10 pt-4">
+            <p className="text-xs uppercase tracking-[0.2em] text-ink/40">New cards per day</p>
+            <div className="mt-3 flex flex-wrap items-center gap-2 text-sm text-ink/70">
+              <input
+                type="number"
+                min={0}
+                value={draft.newPerDay ?? ""}
+                placeholder="No limit"
+                onChange={(event) => update({ newPerDay: parseOptional(event.target.value) })}
+                className={inputClass}
+              />
+              <span className="text-ink/50">{newToday} seen today</span>
+            </div>
+            <p className="mt-2 text-xs text-ink/50">
+              Cards you have never answered are skipped once the limit is reached; cards you already know still come up.
+            </p>
+          </div>
+
+          <div className="border-t border-ink/10 pt-4">
+            <p className="text-xs uppercase tracking-[0.2em] text-ink/40">Goal</p>
+            <div className="mt-3 flex flex-wrap items-center gap-3">
+              {goalOptions.map((option) => (
+                <label key={option.id} className="inline-flex items-center gap-2 text-sm text-ink/70">
+                  <input
+                    type="radio"
+                    name="session-goal"
+                    checked={draft.goal === option.id}
+                    onChange={() => update({ goal: option.id })}
+                  />
+                  {option.label}
+                </label>
+              ))}
+              {draft.goal !== "none" && (
+                <input
+                  type="number"
+                  min={1}
+                  value={draft.goalAmount}
+                  onChange={(event) => update({ goalAmount: parseOptional(event.target.value) || 1 })}
+                  className={inputClass}
+                  aria-label={draft.goal === "cards" ? "Cards" : "Minutes"}
+                />
+              )}
+            </div>
+            <p className="mt-2 text-xs text-ink/50">
+              A summary is shown when the goal is met, or when you reach the end of the cards.
+            </p>
+          </div>
+        </div>
+
+        <div className="mt-6 flex items-center justify-end gap-2">
+          <button
+            type="button"
+            onClick={onClose}
+            className="rounded-full border border-ink/15 bg-white/70 px-4 py-2 text-sm text-ink/70 hover:bg-white transition"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={() => onStart(draft)}
+            disabled={size === 0 || rangeInvalid}
+            className="rounded-full bg-ink text-linen px-4 py-2 text-sm font-semibold shadow-soft hover:shadow-card transition disabled:opacity-60"
+          >
+            Start session
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
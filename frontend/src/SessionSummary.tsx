@@ -0,0 +1,126 @@
+import { formatStudyTime, type SessionConfig, type SessionEnd, type SessionProgress } from "./session";
+import type { Card } from "./types";
+
+type SessionSummaryProps = {
+  reason: SessionEnd;
+  config: SessionConfig;
+  progress: SessionProgress;
+  cardById: Map<string, Card>;
+  dueCount: number;
+  onKeepGoing: () => void;
+  onRestart: () => void;
+  onSetup: () => void;
+  onReview: () => void;
+};
+
+const headings: Record<SessionEnd, string> = {
+  goal: "Goal reached",
+  end: "Session complete",
+  limit: "New cards done for today",
+  empty: "No cards in this session"
+};
+
+export default function SessionSummary({
+  reason,
+  config,
+  progress,
+  cardById,
+  dueCount,
+  onKeepGoing,
+  onRestart,
+  onSetup,
+  onReview
+}: SessionSummaryProps) {
+  const accuracy = progress.answered > 0 ? Math.round((progress.correct / progress.answered) * 100) : null;
+  const missed = progress.missedIds.flatMap((id) => {
+    const card = cardById.get(id);
+    return card ? [card] : [];
+  });
+
+  const message: Record<SessionEnd, string> = {
+    goal:
+      config.goal === "cards"
+        ? `You answered ${config.goalAmount} cards.`
+        : `You studied for ${config.goalAmount} ${config.goalAmount === 1 ? "minute" : "minutes"}.`,
+    end: "You went through every card in this session.",
+    limit: `You have seen ${config.newPerDay} new ${config.newPerDay === 1 ? "card" : "cards"} today and the rest of the session is new.`,
+    empty: "The range and filters leave no cards. Set up a new session to pick others."
+  };
+
+  const stats = [
+    { label: "Answered", value: String(progress.answered) },
+    { label: "Correct", value: accuracy === null ? "—" : `${accuracy}%` },
+    { label: "New cards", value: String(progress.newCards) },
+    { label: "Study time", value: formatStudyTime(progress.studyMs) }
+  ];
+
+  return (
+    <div className="border border-ink/10 rounded-xl p-6 md:p-10 min-h-[280px] bg-white/70">
+      <p className="text-sm uppercase tracking-[0.2em] text-ink/40 text-center">Session summary</p>
+      <h3 className="mt-2 text-3xl font-display text-ink text-center">{headings[reason]}</h3>
+      <p className="mt-2 text-sm text-ink/60 text-center">{message[reason]}</p>
+
+      {reason !== "empty" && (
+        <div className="mt-6 grid grid-cols-2 md:grid-cols-4 gap-3">
+          {stats.map((stat) => (
+            <div key={stat.label} className="rounded-xl border border-ink/10 bg-white/80 p-3 text-center">
+              <p className="text-xs uppercase tracking-[0.2em] text-ink/40">{stat.label}</p>
+              <p className="mt-1 text-xl font-semibold text-ink">{stat.value}</p>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {missed.length > 0 && (
+        <div className="mt-6">
+          <p className="text-xs uppercase tracking-[0.2em] text-ink/40">Missed this session ({missed.length})</p>
+          <ul className="mt-2 max-h-48 overflow-y-auto divide-y divide-ink/5 rounded-xl border border-ink/10 bg-white/80 text-sm">
+            {missed.map((card) => (
+              <li key={card.id} className="px-4 py-2">
+                <span className="font-semibold text-ink">{card.de_word}</span>
+                <span className="text-ink/50"> · {card.en_word}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="mt-6 flex flex-wrap justify-center gap-2">
+        {reason === "goal" && (
+          <button
+            type="button"
+            onClick={onKeepGoing}
+            className="rounded-full bg-ink text-linen px-4 py-2 text-sm font-semibold shadow-soft hover:shadow-card transition"
+          >
+            Keep going
+          </button>
+        )}
+        {dueCount > 0 && (
+          <button
+            type="button"
+            onClick={onReview}
+            className="rounded-full border border-ink/15 bg-white/70 px-4 py-2 text-sm text-ink/70 hover:bg-white transition"
+          >
+            Review {dueCount} due {dueCount === 1 ? "card" : "cards"}
+          </button>
+        )}
+        {reason !== "empty" && (
+          <button
+            type="button"
+            onClick={onRestart}
+            className="rounded-full border border-ink/15 bg-white/70 px-4 py-2 text-sm text-ink/70 hover:bg-white transition"
+          >
+            Start over
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={onSetup}
+          className="rounded-full border border-ink/15 bg-white/70 px-4 py-2 text-sm text-ink/70 hover:bg-white transition"
+        >
+          New session…
+        </button>
+      </div>
+    </div>
+  );
+}
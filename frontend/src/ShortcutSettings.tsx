@@ -0,0 +1,217 @@
+import { useEffect, useState } from "react";
+import { THRESHOLD_RANGE, defaultGestureSettings, type GestureSettings } from "./gestures";
+import {
+  KEY_ACTIONS,
+  comboFromEvent,
+  defaultKeyBindings,
+  findConflict,
+  formatCombo,
+  listConflicts,
+  type KeyAction,
+  type KeyBindings
+} from "./keyboard";
+
+type ShortcutSettingsProps = {
+  bindings: KeyBindings;
+  gestures: GestureSettings;
+  onBindingsChange: (bindings: KeyBindings) => void;
+  onGesturesChange: (gestures: GestureSettings) => void;
+  onClose: () => void;
+};
+
+type PendingBinding = { action: KeyAction; combo: string; conflict: KeyAction };
+
+const actionLabels = new Map(KEY_ACTIONS.map((item) => [item.id, item.label]));
+
+const pillClass =
+  "rounded-full border border-ink/15 bg-white/70 px-3 py-1 text-xs uppercase tracking-[0.2em] text-ink/70 hover:bg-white transition";
+
+export default function ShortcutSettings({
+  bindings,
+  gestures,
+  onBindingsChange,
+  onGesturesChange,
+  onClose
+}: ShortcutSettingsProps) {
+  const [capturing, setCapturing] = useState<KeyAction | null>(null);
+  const [pending, setPending] = useState<PendingBinding | null>(null);
+  const conflicts = listConflicts(bindings);
+
+  const addBinding = (action: KeyAction, combo: string, replace: KeyAction | null) => {
+    const next = { ...bindings };
+    if (replace) next[replace] = next[replace].filter((key) => key !== combo);
+    next[action] = [...next[action], combo];
+    onBindingsChange(next);
+  };
+
+  const removeBinding = (action: KeyAction, combo: string) => {
+    onBindingsChange({ ...bindings, [action]: bindings[action].filter((key) => key !== combo) });
+  };
+
+  // The next key press becomes the binding. Escape cancels, so it cannot be bound itself.
+  useEffect(() => {
+    if (!capturing) return;
+    const handleKey = (event: KeyboardEvent) => {
+      event.preventDefault();
+      event.stopPropagation();
+      if (event.key === "Escape") {
+        setCapturing(null);
+        return;
+      }
+      const combo = comboFromEvent(event);
+      if (!combo) return;
+      setCapturing(null);
+      if (bindings[capturing].includes(combo)) return;
+      const conflict = findConflict(bindings, capturing, combo);
+      if (conflict) {
+        setPending({ action: capturing, combo, conflict });
+      } else {
+        addBinding(capturing, combo, null);
+      }
+    };
+    window.addEventListener("keydown", handleKey, true);
+    return () => window.removeEventListener("keydown", handleKey, true);
+  });
+
+  const resetAll = () => {
+    const confirmed = window.confirm("Reset all shortcuts and gestures to their defaults?");
+    if (!confirmed) return;
+    setCapturing(null);
+    setPending(null);
+    onBindingsChange(defaultKeyBindings());
+    onGesturesChange(defaultGestureSettings());
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-ink/40 p-6" onClick={onClose}>
+      <div
+        className="card-surface w-full max-w-2xl max-h-full overflow-y-auto rounded-2xl shadow-card p-6 md:p-8"
+        onClick={(event) => event.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <p className="font-brand text-xs uppercase tracking-[0.3em] text-ink/50">Deckster Lab</p>
+          <button type="button" onClick={onClose} className={pillClass}>
+            Close
+          </button>
+        </div>
+        <h2 className="mt-4 text-2xl font-display text-ink">Shortcuts &amp; gestures</h2>
+
+        <div className="mt-6 space-y-6">
+          <div>
+            <p className="text-xs uppercase tracking-[0.2em] text-ink/40">Keyboard</p>
+            <p className="mt-2 text-sm text-ink/60">
+              Grading keys and choice keys never apply at the same time, so they may share keys.
+            </p>
+            {conflicts.size > 0 && (
+              <ul className="mt-3 space-y-1 text-sm text-ember">
+                {[...conflicts].map(([combo, actions]) => (
+                  <li key={combo}>
+                    {formatCombo(combo)} is bound to {actions.map((action) => actionLabels.get(action)).join(" and ")}.
+                  </li>
+                ))}
+              </ul>
+            )}
+            <ul className="mt-3 divide-y divide-ink/5 rounded-xl border border-ink/10 bg-white/70 text-sm">
+              {KEY_ACTIONS.map(({ id, label }) => (
+                <li key={id} className="flex flex-wrap items-center gap-2 px-4 py-2">
+                  <span className="min-w-[10rem] flex-1 text-ink/70">{label}</span>
+                  {bindings[id].length === 0 && <span className="text-xs text-ink/40">No key</span>}
+                  {bindings[id].map((combo) => (
+                    <span
+                      key={combo}
+                      className="inline-flex items-center gap-1 rounded-full border border-ink/15 bg-white px-3 py-1 text-xs text-ink"
+                    >
+                      {formatCombo(combo)}
+                      <button
+                        type="button"
+                        onClick={() => removeBinding(id, combo)}
+                        className="text-ink/40 hover:text-ember transition"
+                        aria-label={`Remove ${formatCombo(combo)} from ${label}`}
+                      >
+                        ×
+                      </button>
+                    </span>
+                  ))}
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setPending(null);
+                      setCapturing(capturing === id ? null : id);
+                    }}
+                    className={`rounded-full border px-3 py-1 text-xs transition ${
+                      capturing === id
+                        ? "border-ink bg-ink text-linen"
+                        : "border-ink/15 bg-white/70 text-ink/70 hover:bg-white"
+                    }`}
+                  >
+                    {capturing === id ? "Press a key… (Esc cancels)" : "Add key"}
+                  </button>
+                </li>
+              ))}
+            </ul>
+            {pending && (
+              <div className="mt-3 flex flex-wrap items-center gap-3 rounded-xl border border-ember/40 bg-ember/10 px-4 py-3 text-sm">
+                <p className="flex-1 text-ink/80">
+                  {formatCombo(pending.combo)} already does {actionLabels.get(pending.conflict)}. Use it for{" "}
+                  {actionLabels.get(pending.action)} instead?
+                </p>
+                <button
+                  type="button"
+                  onClick={() => {
+                    addBinding(pending.action, pending.combo, pending.conflict);
+                    setPending(null);
+                  }}
+                  className="rounded-full bg-ink text-linen px-3 py-1 text-xs font-semibold shadow-soft hover:shadow-card transition"
+                >
+                  Replace
+                </button>
+                <button type="button" onClick={() => setPending(null)} className={pillClass}>
+                  Cancel
+                </button>
+              </div>
+            )}
+          </div>
+
+          <div>
+            <p className="text-xs uppercase tracking-[0.2em] text-ink/40">Touch gestures</p>
+            <label className="mt-3 inline-flex items-center gap-2 text-sm text-ink/70">
+              <input
+                type="checkbox"
+                checked={gestures.enabled}
+                onChange={(event) => onGesturesChange({ ...gestures, enabled: event.target.checked })}
+              />
+              Swipe on the card: left for Again, right for Good, up to play the word; tap to flip
+            </label>
+            {(
+              [
+                ["horizontalThreshold", "Sideways swipe distance"],
+                ["verticalThreshold", "Upward swipe distance"]
+              ] as const
+            ).map(([key, label]) => (
+              <label key={key} className="mt-3 flex flex-col md:flex-row md:items-center gap-3 text-sm text-ink/50">
+                <span className="md:w-48">{label}</span>
+                <input
+                  type="range"
+                  min={THRESHOLD_RANGE.min}
+                  max={THRESHOLD_RANGE.max}
+                  step={10}
+                  value={gestures[key]}
+                  disabled={!gestures.enabled}
+                  onChange={(event) => onGesturesChange({ ...gestures, [key]: Number(event.target.value) })}
+                  className="flex-1"
+                />
+                <span className="w-16 text-ink/70">{gestures[key]} px</span>
+              </label>
+            ))}
+          </div>
+
+          <div className="flex justify-end">
+            <button type="button" onClick={resetAll} className={pillClass}>
+              Reset to defaults
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
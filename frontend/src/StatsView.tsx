@@ -0,0 +1,222 @@
+import { useEffect, useMemo, useState } from "react";
+import { loadReviews, type ReviewLogEntry } from "./reviewLog";
+import { startOfDay } from "./scheduler";
+import {
+  averageResponseMs,
+  buildHeatmap,
+  mostMissed,
+  mostReplayed,
+  overallRetention,
+  retentionByWeek,
+  reviewsSince,
+  studyStreak
+} from "./stats";
+import type { Deck } from "./types";
+
+type StatsViewProps = {
+  deck: Deck;
+  onClose: () => void;
+};
+
+const heatLevels = ["bg-ink/5", "bg-moss/30", "bg-moss/50", "bg-moss/75", "bg-moss"];
+
+function heatLevel(count: number) {
+  if (count === 0) return 0;
+  if (count < 10) return 1;
+  if (count < 30) return 2;
+  if (count < 60) return 3;
+  return 4;
+}
+
+function formatPercent(value: number | null) {
+  return value === null ? "–" : `${Math.round(value * 100)}%`;
+}
+
+function formatSeconds(value: number | null) {
+  return value === null ? "–" : `${(value / 1000).toFixed(1)} s`;
+}
+
+function formatDay(day: number) {
+  return new Date(day).toLocaleDateString(undefined, { month: "short", day: "numeric" });
+}
+
+export default function StatsView({ deck, onClose }: StatsViewProps) {
+  const [entries, setEntries] = useState<ReviewLogEntry[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [now] = useState(() => Date.now());
+
+  useEffect(() => {
+    let cancelled = false;
+    loadReviews(deck.id)
+      .then((loaded) => {
+        if (!cancelled) setEntries(loaded);
+      })
+      .catch((reason: unknown) => {
+        if (!cancelled) setError(reason instanceof Error ? reason.message : String(reason));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [deck.id]);
+
+  const cardById = useMemo(() => new Map(deck.cards.map((card) => [card.id, card])), [deck.cards]);
+
+  const summary = useMemo(() => {
+    if (!entries) return null;
+    const monthAgo = now - 30 * 24 * 60 * 60 * 1000;
+    return {
+      heatmap: buildHeatmap(entries, now),
+      retention: retentionByWeek(entries, now),
+      missed: mostMissed(entries),
+      replayed: mostReplayed(entries),
+      today: reviewsSince(entries, startOfDay(now)),
+      retention30: overallRetention(entries, monthAgo),
+      response: averageResponseMs(entries),
+      streak: studyStreak(entries, now),
+      flippedShare: entries.length ? entries.filter((entry) => entry.flipped).length / entries.length : null,
+      audioShare: entries.length ? entries.filter((entry) => entry.audioPlayed).length / entries.length : null
+    };
+  }, [entries, now]);
+
+  const weeks = useMemo(() => {
+    if (!summary) return [];
+    const columns = [];
+    for (let start = 0; start < summary.heatmap.length; start += 7) {
+      columns.push(summary.heatmap.slice(start, start + 7));
+    }
+    return columns;
+  }, [summary]);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-ink/40 p-6" onClick={onClose}>
+      <div
+        className="card-surface w-full max-w-4xl max-h-full overflow-y-auto rounded-2xl shadow-card p-6 md:p-8"
+        onClick={(event) => event.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <p className="font-brand text-xs uppercase tracking-[0.3em] text-ink/50">Deckster Lab</p>
+          <button
+            type="button"
+            onClick={onClose}
+            className="rounded-full border border-ink/15 bg-white/70 px-3 py-1 text-xs uppercase tracking-[0.2em] text-ink/70 hover:bg-white transition"
+          >
+            Close
+          </button>
+        </div>
+        <h2 className="mt-4 text-2xl font-display text-ink">Statistics · {deck.title}</h2>
+
+        {error && <p className="mt-4 text-sm text-ember">{error}</p>}
+        {!error && !summary && <p className="mt-4 text-sm text-ink/60">Loading…</p>}
+        {summary && entries && (
+          <div className="mt-6 space-y-8">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              {[
+                ["Reviews today", String(summary.today)],
+                ["Retention (30 days)", formatPercent(summary.retention30)],
+                ["Avg. response", formatSeconds(summary.response)],
+                ["Day streak", String(summary.streak)]
+              ].map(([label, value]) => (
+                <div key={label} className="rounded-xl border border-ink/10 bg-white/70 p-4">
+                  <p className="text-xs uppercase tracking-[0.2em] text-ink/40">{label}</p>
+                  <p className="mt-2 text-2xl font-semibold text-ink">{value}</p>
+                </div>
+              ))}
+            </div>
+
+            <div>
+              <p className="text-xs uppercase tracking-[0.2em] text-ink/40">Daily activity</p>
+              <div className="mt-3 flex gap-[3px] overflow-x-auto pb-1">
+                {weeks.map((week) => (
+                  <div key={week[0].day} className="flex flex-col gap-[3px]">
+                    {week.map((cell) => (
+                      <div
+                        key={cell.day}
+                        className={`h-3 w-3 rounded-sm ${heatLevels[heatLevel(cell.count)]}`}
+                        title={`${formatDay(cell.day)}: ${cell.count} ${cell.count === 1 ? "review" : "reviews"}`}
+                      />
+                    ))}
+                  </div>
+                ))}
+              </div>
+              <p className="mt-2 text-xs text-ink/50">{entries.length} answers recorded in total.</p>
+            </div>
+
+            <div>
+              <p className="text-xs uppercase tracking-[0.2em] text-ink/40">Retention by week</p>
+              <div className="mt-3 flex items-end gap-2 h-32">
+                {summary.retention.map((point) => (
+                  <div key={point.weekStart} className="flex-1 flex flex-col items-center justify-end h-full">
+                    <div
+                      className={`w-full rounded-t-md ${point.retention === null ? "bg-ink/5" : "bg-moss"}`}
+                      style={{ height: `${Math.max(point.retention ?? 0, 0.02) * 100}%` }}
+                      title={`Week of ${formatDay(point.weekStart)}: ${formatPercent(point.retention)} of ${point.reviews} reviews`}
+                    />
+                    <p className="mt-1 text-[10px] text-ink/40">{formatDay(point.weekStart)}</p>
+                  </div>
+                ))}
+              </div>
+              <p className="mt-2 text-xs text-ink/50">
+                Share of reviews of already learned cards that were not answered Again.
+              </p>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div>
+                <p className="text-xs uppercase tracking-[0.2em] text-ink/40">Most missed cards</p>
+                {summary.missed.length === 0 ? (
+                  <p className="mt-3 text-sm text-ink/60">Nothing missed yet.</p>
+                ) : (
+                  <ol className="mt-3 space-y-2 text-sm">
+                    {summary.missed.map((stat) => {
+                      const card = cardById.get(stat.cardId);
+                      return (
+                        <li key={stat.cardId} className="flex items-baseline justify-between gap-3">
+                          <span className="text-ink">
+                            {card?.de_word ?? stat.cardId}
+                            {card && <span className="text-ink/50"> · {card.en_word}</span>}
+                          </span>
+                          <span className="shrink-0 text-ink/60">
+                            {stat.misses} / {stat.reviews}
+                          </span>
+                        </li>
+                      );
+                    })}
+                  </ol>
+                )}
+              </div>
+              <div>
+                <p className="text-xs uppercase tracking-[0.2em] text-ink/40">How you answer</p>
+                <ul className="mt-3 space-y-2 text-sm text-ink/70">
+                  <li>Flipped before answering: {formatPercent(summary.flippedShare)}</li>
+                  <li>Played audio: {formatPercent(summary.audioShare)}</li>
+                  <li>Average time to answer: {formatSeconds(summary.response)}</li>
+                </ul>
+                {summary.replayed.length > 0 && (
+                  <>
+                    <p className="mt-6 text-xs uppercase tracking-[0.2em] text-ink/40">Most replayed audio</p>
+                    <ol className="mt-3 space-y-2 text-sm">
+                      {summary.replayed.map((stat) => {
+                        const card = cardById.get(stat.cardId);
+                        return (
+                          <li key={stat.cardId} className="flex items-baseline justify-between gap-3">
+                            <span className="text-ink">
+                              {card?.de_word ?? stat.cardId}
+                              {card && <span className="text-ink/50"> · {card.en_word}</span>}
+                            </span>
+                            <span className="shrink-0 text-ink/60" title="Plays per answer">
+                              {(stat.plays / stat.reviews).toFixed(1)}×
+                            </span>
+                          </li>
+                        );
+                      })}
+                    </ol>
+                  </>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
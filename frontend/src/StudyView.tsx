@@ -0,0 +1,1521 @@
+import { useCallback, useEffect, useMemo, useRef, useState, useSyncExternalStore } from "react";
+import {
+  PLAYBACK_RATES,
+  createAudioPlayer,
+  hasSpeech,
+  isSpeechSupported,
+  onVoicesChanged,
+  voicesFor,
+  type AudioSettings,
+  type AudioTarget,
+  type AutoplaySetting
+} from "./audio";
+import { directionOptions, pickDirection, progressForDirection } from "./direction";
+import { isGerman, languageNames } from "./schema";
+import type { Card, Deck } from "./types";
+import { GRADES, formatInterval, gradeLabel, scheduleCard, startOfDay, type Grade } from "./scheduler";
+import BackupDialog from "./BackupDialog";
+import type { ImportPlan } from "./backup";
+import CardBrowser from "./CardBrowser";
+import ChoiceAnswer from "./ChoiceAnswer";
+import { buildChoiceQuestion, type ChoiceResult } from "./choice";
+import ClozeDrill from "./ClozeDrill";
+import GenderDrill from "./GenderDrill";
+import OfflineDialog from "./OfflineDialog";
+import SessionSetup from "./SessionSetup";
+import SessionSummary from "./SessionSummary";
+import StatsView from "./StatsView";
+import TopicsDialog from "./TopicsDialog";
+import SyncDialog from "./SyncDialog";
+import { stampChanges, type DeckState, type SyncResult } from "./sync";
+import ShortcutSettings from "./ShortcutSettings";
+import SwipeCard from "./SwipeCard";
+import type { GestureSettings, SwipeDirection } from "./gestures";
+import {
+  OPTION_ACTIONS,
+  actionsForEvent,
+  isTypingTarget,
+  keyHint,
+  listConflicts,
+  type KeyAction,
+  type KeyBindings
+} from "./keyboard";
+import AnswerHistory from "./AnswerHistory";
+import { addReviews, appendReview, regradeReview, remapReviews, removeReview, replaceReviews } from "./reviewLog";
+import { noteIdsFor, reconcileProgress } from "./reconcile";
+import { describeGoal, type SessionConfig, type SessionFocus } from "./session";
+import {
+  createStudyEngine,
+  pickStudyState,
+  studyView,
+  type StudyAction,
+  type StudyContext,
+  type StudyEvent
+} from "./studyEngine";
+import TypedAnswer from "./TypedAnswer";
+import {
+  REPLAY_LIMITS,
+  hasListeningAudio,
+  playsLeft,
+  replayLimitLabel,
+  type ListeningAnswer,
+  type ListeningSettings
+} from "./listening";
+import type { TypedAnswerResult } from "./typedAnswer";
+import type { StorageAdapter } from "./storageAdapter";
+import {
+  type CardDirection,
+  type CardOverride,
+  type CardOverrides,
+  type DirectionSetting,
+  type ProgressState,
+  type SettingsState,
+  type StudyMode
+} from "./storage";
+
+const gradeStyles: Record<Grade, string> = {
+  again: "bg-ember text-white",
+  hard: "bg-clay text-ink",
+  good: "bg-moss text-white",
+  easy: "bg-sky text-ink"
+};
+
+type LanguageNames = { front: string; back: string };
+
+function autoplayOptions(names: LanguageNames): Array<{ id: AutoplaySetting; label: string }> {
+  return [
+    { id: "off", label: "Off" },
+    { id: "show", label: `When the ${names.front} side appears` },
+    { id: "reveal", label: "When the answer is revealed" }
+  ];
+}
+
+// The article drill only makes sense for German decks.
+function studyModes(names: LanguageNames, german: boolean): Array<{ id: StudyMode; label: string }> {
+  return [
+    { id: "flashcards", label: "Flashcards" },
+    { id: "typed", label: `Type the ${names.front} word for the ${names.back} prompt` },
+    { id: "choice", label: "Multiple choice" },
+    ...(german ? [{ id: "gender" as const, label: "der / die / das drill" }] : []),
+    { id: "cloze", label: "Fill the gap in the example sentence" },
+    { id: "listening", label: `Listen to the ${names.front} word first` }
+  ];
+}
+
+function listeningAnswers(names: LanguageNames): Array<{ id: ListeningAnswer; label: string }> {
+  return [
+    { id: "dictation", label: "Type what you hear" },
+    { id: "meaning", label: `Pick the ${names.back} meaning` }
+  ];
+}
+
+type StudyViewProps = {
+  deck: Deck;
+  // Where progress and settings are kept; the view starts from `initialState` read from it.
+  storage: StorageAdapter;
+  initialState: DeckState;
+  overrides: CardOverrides;
+  onEditCard: (cardId: string, fields: CardOverride | null) => void;
+  onTagCards: (changes: Record<string, string[]>) => void;
+  onOpenLibrary: () => void;
+};
+
+export default function StudyView({
+  deck,
+  storage,
+  initialState,
+  overrides,
+  onEditCard,
+  onTagCards,
+  onOpenLibrary
+}: StudyViewProps) {
+  // Progress of cards whose ids changed with the deck follows them by note id.
+  const [reconciled] = useState(() => reconcileProgress(initialState.progress, deck.cards));
+  const initialProgress = reconciled.progress;
+  const [initialSettings] = useState(initialState.settings);
+  const [flipped, setFlipped] = useState(false);
+  const [infoOpen, setInfoOpen] = useState(false);
+  const [statsOpen, setStatsOpen] = useState(false);
+  const [backupOpen, setBackupOpen] = useState(false);
+  const [syncOpen, setSyncOpen] = useState(false);
+  const [offlineOpen, setOfflineOpen] = useState(false);
+  const [browserOpen, setBrowserOpen] = useState(false);
+  const [sessionOpen, setSessionOpen] = useState(false);
+  const [shortcutsOpen, setShortcutsOpen] = useState(false);
+  const [topicsOpen, setTopicsOpen] = useState(false);
+  const [showGermanSentence, setShowGermanSentence] = useState(initialSettings.showGermanSentence);
+  const [showEnglishSentence, setShowEnglishSentence] = useState(initialSettings.showEnglishSentence);
+  const [studyMode, setStudyMode] = useState<StudyMode>(initialSettings.studyMode);
+  const [direction, setDirection] = useState<DirectionSetting>(initialSettings.direction);
+  const [directionSeed] = useState(() => startOfDay(Date.now()));
+  const [genderIndex, setGenderIndex] = useState(initialProgress.genderIndex);
+  const [genderMissedIds, setGenderMissedIds] = useState<string[]>(initialProgress.genderMissedIds);
+  const [clozeIndex, setClozeIndex] = useState(initialProgress.clozeIndex);
+  const [clozeMissedIds, setClozeMissedIds] = useState<string[]>(initialProgress.clozeMissedIds);
+  const [typedResult, setTypedResult] = useState<TypedAnswerResult | null>(null);
+  const [choiceResult, setChoiceResult] = useState<ChoiceResult | null>(null);
+  const [sessionConfig, setSessionConfig] = useState<SessionConfig>(initialSettings.session);
+  const [changedAt, setChangedAt] = useState<Record<string, number>>(initialProgress.changedAt);
+  const [audioSettings, setAudioSettings] = useState<AudioSettings>(initialSettings.audio);
+  const [keyBindings, setKeyBindings] = useState<KeyBindings>(initialSettings.keys);
+  const [gestureSettings, setGestureSettings] = useState<GestureSettings>(initialSettings.gestures);
+  const [listeningSettings, setListeningSettings] = useState<ListeningSettings>(initialSettings.listening);
+  const [audioMessage, setAudioMessage] = useState<{ error: boolean; text: string } | null>(null);
+  const [logError, setLogError] = useState<string | null>(null);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [playCount, setPlayCount] = useState(0);
+  // Plays of the word before the answer in listening mode, automatic ones included.
+  const [listenCount, setListenCount] = useState(0);
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
+  const [player] = useState(createAudioPlayer);
+
+  const overlayOpen =
+    infoOpen ||
+    statsOpen ||
+    backupOpen ||
+    syncOpen ||
+    offlineOpen ||
+    browserOpen ||
+    sessionOpen ||
+    shortcutsOpen ||
+    topicsOpen;
+
+  const languages = languageNames(deck.schema);
+  const germanDeck = isGerman(deck.schema.languages.front);
+  const cardById = useMemo(() => new Map(deck.cards.map((card) => [card.id, card])), [deck.cards]);
+
+  const listening = studyMode === "listening";
+
+  // Typed answers are always English to German: the grader checks German spelling.
+  // Listening starts from the German audio, so it counts as German to English.
+  const directionOf = useCallback(
+    (cardId: string): CardDirection => {
+      if (studyMode === "typed") return "en-de";
+      if (listening) return "de-en";
+      return pickDirection(direction, cardId, directionSeed);
+    },
+    [direction, directionSeed, listening, studyMode]
+  );
+
+  // The flashcard session runs in the study engine; this view renders it and does the
+  // logging, audio and persistence around it. Listening leaves out the cards that have
+  // nothing to listen to.
+  const studyContext = useMemo<StudyContext>(
+    () => ({
+      cards: deck.cards,
+      config: sessionConfig,
+      directionOf,
+      eligible: listening ? hasListeningAudio : () => true
+    }),
+    [deck.cards, directionOf, listening, sessionConfig]
+  );
+  const [engine] = useState(() => createStudyEngine(pickStudyState(initialProgress), studyContext));
+  const study = useSyncExternalStore(engine.subscribe, engine.getState);
+  const {
+    missedIds,
+    reverseMissedIds,
+    reviewMode,
+    reviewIndex,
+    schedules,
+    reverseSchedules,
+    session: sessionProgress,
+    history
+  } = study;
+  const view = useMemo(() => studyView(study, studyContext, Date.now()), [study, studyContext]);
+  const {
+    activeSchedules,
+    studyCards,
+    reviewQueue,
+    sessionOrder,
+    sessionPosition,
+    sessionEnd,
+    currentCard,
+    currentDirection,
+    nextCard,
+    newToday
+  } = view;
+  const focus = sessionConfig.focus;
+  const cardStatus = useMemo(
+    () =>
+      progressForDirection(
+        direction,
+        { missedIds, schedules },
+        { missedIds: reverseMissedIds, schedules: reverseSchedules }
+      ),
+    [direction, missedIds, schedules, reverseMissedIds, reverseSchedules]
+  );
+
+  // Cards that left the deck drop out of the session state here.
+  useEffect(() => {
+    engine.setContext(studyContext);
+  }, [engine, studyContext]);
+
+  // Ids were already matched by note id on load; this keeps the drills in step with a
+  // deck that changes while it is open.
+  useEffect(() => {
+    setGenderMissedIds((prev) => {
+      const next = prev.filter((id) => cardById.has(id));
+      return next.length === prev.length ? prev : next;
+    });
+    setClozeMissedIds((prev) => {
+      const next = prev.filter((id) => cardById.has(id));
+      return next.length === prev.length ? prev : next;
+    });
+  }, [cardById]);
+
+  const progress = useMemo<ProgressState>(() => {
+    const current = {
+      ...study,
+      genderIndex,
+      genderMissedIds,
+      clozeIndex,
+      clozeMissedIds,
+      noteIds: initialProgress.noteIds,
+      changedAt
+    };
+    return { ...current, noteIds: noteIdsFor(current, cardById) };
+  }, [study, genderIndex, genderMissedIds, clozeIndex, clozeMissedIds, initialProgress.noteIds, changedAt, cardById]);
+
+  // Cards whose state changed since the last render are stamped with the time, which
+  // sync uses to let the latest change of a card win.
+  const stampedProgress = useRef(progress);
+  useEffect(() => {
+    const next = stampChanges(stampedProgress.current, progress, Date.now());
+    stampedProgress.current = progress;
+    if (next !== progress.changedAt) setChangedAt(next);
+  }, [progress]);
+
+  // Studying goes on when the log cannot be written, e.g. with IndexedDB blocked in a
+  // private window; the learner is told that the statistics are off. Every write to the
+  // log goes through here.
+  const writeLog = useCallback((task: Promise<unknown>) => {
+    task.then(
+      () => setLogError(null),
+      (reason: unknown) =>
+        setLogError(
+          `The review history could not be updated, so the statistics may be off: ${reason instanceof Error ? reason.message : String(reason)}`
+        )
+    );
+  }, []);
+
+  useEffect(() => {
+    if (reconciled.remapped.size > 0) writeLog(remapReviews(deck.id, reconciled.remapped));
+  }, [deck.id, reconciled, writeLog]);
+  const settings = useMemo<SettingsState>(
+    () => ({
+      showGermanSentence,
+      showEnglishSentence,
+      studyMode,
+      direction,
+      session: sessionConfig,
+      audio: audioSettings,
+      keys: keyBindings,
+      gestures: gestureSettings,
+      listening: listeningSettings
+    }),
+    [
+      showGermanSentence,
+      showEnglishSentence,
+      studyMode,
+      direction,
+      sessionConfig,
+      audioSettings,
+      keyBindings,
+      gestureSettings,
+      listeningSettings
+    ]
+  );
+
+  useEffect(() => {
+    storage.save(deck, { progress, settings }).then(
+      (saved) =>
+        setSaveError(
+          saved ? null : `Progress was changed in the ${storage.label} meanwhile, so it was not saved. Sync to combine both.`
+        ),
+      (reason: unknown) =>
+        setSaveError(`Progress could not be saved: ${reason instanceof Error ? reason.message : String(reason)}`)
+    );
+  }, [deck, progress, settings, storage]);
+
+  const listeningAnswer = listening ? listeningSettings.answer : null;
+
+  // Built once per card shown, so the options stay put while the card is on screen. The
+  // answer count changes with every answer, so a card that comes back, after Again or in
+  // review, is asked with freshly picked options.
+  const answeredCount = sessionProgress.answered;
+  const choiceQuestion = useMemo(
+    () =>
+      (studyMode === "choice" || listeningAnswer === "meaning") && currentCard
+        ? buildChoiceQuestion(currentCard, deck.cards, currentDirection, Date.now())
+        : null,
+    [answeredCount, currentCard, currentDirection, deck.cards, listeningAnswer, studyMode]
+  );
+
+  const progressLabel =
+    sessionOrder.length > 0
+      ? `${sessionPosition < 0 ? sessionOrder.length : sessionPosition + 1} / ${sessionOrder.length}`
+      : "0 / 0";
+
+  // What happened since the current card was shown, recorded with the answer.
+  const attempt = useRef({ shownAt: Date.now(), flipped: false, audioPlayed: false, audioPlays: 0 });
+
+  useEffect(() => {
+    attempt.current = { shownAt: Date.now(), flipped: false, audioPlayed: false, audioPlays: 0 };
+  }, [currentCard]);
+
+  useEffect(() => {
+    if (nextCard) player.preload(deck, nextCard);
+  }, [deck, nextCard, player]);
+
+  useEffect(() => {
+    const update = () => setVoices(voicesFor(deck.schema.languages.front));
+    update();
+    return onVoicesChanged(update);
+  }, [deck.schema.languages.front]);
+
+  const dueCount = reviewQueue.length;
+  const sessionGoal = describeGoal(sessionConfig, sessionProgress);
+
+  const gradePreviews = useMemo(() => {
+    const now = Date.now();
+    const previous = currentCard ? activeSchedules[currentCard.id] : undefined;
+    return Object.fromEntries(
+      GRADES.map((grade) => [grade, formatInterval(scheduleCard(previous, grade, now).interval)])
+    ) as Record<Grade, string>;
+  }, [activeSchedules, currentCard]);
+
+  const resetAnswer = () => {
+    setFlipped(false);
+    setTypedResult(null);
+    setChoiceResult(null);
+  };
+
+  // The review log is written from the engine's events, together with what happened while
+  // the card was on screen.
+  const handleStudyEvent = (event: StudyEvent) => {
+    if (event.type === "answered") {
+      writeLog(
+        appendReview({
+          deckId: deck.id,
+          cardId: event.cardId,
+          timestamp: event.timestamp,
+          grade: event.grade,
+          mode: studyMode,
+          responseMs: event.responseMs,
+          flipped: attempt.current.flipped,
+          audioPlayed: attempt.current.audioPlayed,
+          audioPlays: attempt.current.audioPlays,
+          previousInterval: event.previousInterval,
+          direction: event.direction
+        })
+      );
+      attempt.current = { shownAt: event.timestamp, flipped: false, audioPlayed: false, audioPlays: 0 };
+    } else if (event.type === "undone") {
+      writeLog(removeReview(deck.id, event.cardId, event.timestamp));
+    } else if (event.type === "regraded") {
+      writeLog(regradeReview(deck.id, event.cardId, event.timestamp, event.grade));
+    }
+  };
+
+  const runStudy = (action: StudyAction) => engine.dispatch(action).forEach(handleStudyEvent);
+
+  const handleAnswer = (grade: Grade) => {
+    if (!currentCard) return;
+    runStudy({ type: "answer", grade, responseMs: Date.now() - attempt.current.shownAt });
+    resetAnswer();
+  };
+
+  const undoLastAnswer = () => {
+    runStudy({ type: "undo" });
+    resetAnswer();
+  };
+
+  const regradeAnswer = (position: number, grade: Grade) => runStudy({ type: "regrade", position, grade });
+
+  const typedAnswers = studyMode === "typed" || listeningAnswer === "dictation";
+  const promptGerman = currentDirection === "de-en";
+  const showingGerman = promptGerman ? !flipped : flipped;
+
+  const handleGenderAnswer = (card: Card, correct: boolean, responseMs: number) => {
+    writeLog(
+      appendReview({
+        deckId: deck.id,
+        cardId: card.id,
+        timestamp: Date.now(),
+        grade: correct ? "good" : "again",
+        mode: "gender",
+        responseMs,
+        flipped: false,
+        audioPlayed: false,
+        previousInterval: null
+      })
+    );
+    setGenderMissedIds((prev) => {
+      if (correct) return prev.filter((id) => id !== card.id);
+      return prev.includes(card.id) ? prev : [...prev, card.id];
+    });
+  };
+
+  const handleClozeAnswer = (card: Card, grade: Grade, responseMs: number) => {
+    writeLog(
+      appendReview({
+        deckId: deck.id,
+        cardId: card.id,
+        timestamp: Date.now(),
+        grade,
+        mode: "cloze",
+        responseMs,
+        flipped: false,
+        audioPlayed: false,
+        previousInterval: null
+      })
+    );
+    setClozeMissedIds((prev) => {
+      if (grade !== "again") return prev.filter((id) => id !== card.id);
+      return prev.includes(card.id) ? prev : [...prev, card.id];
+    });
+  };
+
+  const changeStudyMode = (mode: StudyMode) => {
+    setStudyMode(mode);
+    setFlipped(false);
+    setTypedResult(null);
+    setChoiceResult(null);
+  };
+
+  const changeListeningSettings = (patch: Partial<ListeningSettings>) => {
+    setListeningSettings((prev) => ({ ...prev, ...patch }));
+    setFlipped(false);
+    setTypedResult(null);
+    setChoiceResult(null);
+  };
+
+  const changeDirection = (next: DirectionSetting) => {
+    setDirection(next);
+    setFlipped(false);
+  };
+
+  const handleTypedCheck = (result: TypedAnswerResult) => {
+    attempt.current.flipped = true;
+    setTypedResult(result);
+    setFlipped(true);
+    playOnReveal();
+  };
+
+  const handleChoicePick = (optionIndex: number) => {
+    if (!choiceQuestion || choiceResult) return;
+    attempt.current.flipped = true;
+    setChoiceResult({ chosenIndex: optionIndex, correct: optionIndex === choiceQuestion.answerIndex });
+    setFlipped(true);
+    playOnReveal();
+  };
+
+  const handleChoiceContinue = () => {
+    if (!choiceResult) return;
+    handleAnswer(choiceResult.correct ? "good" : "again");
+  };
+
+  const handleFlip = () => {
+    if (!currentCard || (choiceQuestion && !choiceResult)) return;
+    attempt.current.flipped = true;
+    setFlipped((prev) => !prev);
+    if (!flipped) playOnReveal();
+  };
+
+  // With an English prompt the German audio is the answer: it stays locked until the reveal.
+  const soundLocked = !promptGerman && !flipped;
+  // Before a listening answer only the word plays, and only as often as the limit allows.
+  const listeningPlaysLeft = listening && !flipped ? playsLeft(listeningSettings, listenCount) : null;
+  const wordLocked = soundLocked || listeningPlaysLeft === 0;
+  const sentenceLocked = soundLocked || (listening && !flipped);
+
+  // Automatic plays skip the lock, since they only happen once German may be heard, and
+  // are not counted as replays.
+  const playSound = async (target: AudioTarget = "word", automatic = false) => {
+    if (!currentCard) return;
+    if (!automatic && (target === "word" ? wordLocked : sentenceLocked)) return;
+    const counted = listening && !flipped && target === "word";
+    attempt.current.audioPlayed = true;
+    if (!automatic) {
+      attempt.current.audioPlays += 1;
+      setPlayCount((prev) => prev + 1);
+    }
+    if (counted) setListenCount((prev) => prev + 1);
+    setAudioMessage(null);
+    try {
+      const result = await player.play(deck, currentCard, target, audioSettings);
+      if (result.fallbackReason) {
+        setAudioMessage({ error: false, text: `${result.fallbackReason} The browser voice read it instead.` });
+      }
+    } catch (reason) {
+      // A play the browser blocked or could not load was not heard, so it does not count.
+      if (counted) setListenCount((prev) => Math.max(0, prev - 1));
+      setAudioMessage({ error: true, text: reason instanceof Error ? reason.message : String(reason) });
+    }
+  };
+
+  const playOnReveal = () => {
+    const { autoplay } = audioSettings;
+    if (autoplay === "reveal" || (autoplay === "show" && !promptGerman)) void playSound("word", true);
+  };
+
+  useEffect(() => {
+    setPlayCount(0);
+    setListenCount(0);
+    setAudioMessage(null);
+    return () => player.stop();
+  }, [currentCard, player]);
+
+  // Each card is played once when it appears. A card that came up behind an open dialog,
+  // or before autoplay was turned on, is played when that changes.
+  const autoplayedCard = useRef<Card | null>(null);
+  const latestPlaySound = useRef(playSound);
+  latestPlaySound.current = playSound;
+  const autoplayWord = listening || (audioSettings.autoplay === "show" && promptGerman);
+  useEffect(() => {
+    if (!currentCard || autoplayedCard.current === currentCard || !autoplayWord || overlayOpen) return;
+    autoplayedCard.current = currentCard;
+    void latestPlaySound.current("word", true);
+  }, [autoplayWord, currentCard, overlayOpen]);
+
+  const updateAudioSettings = (patch: Partial<AudioSettings>) => setAudioSettings((prev) => ({ ...prev, ...patch }));
+
+  const startReview = () => {
+    runStudy({ type: "startReview" });
+    setFlipped(false);
+  };
+
+  // The engine gets the new session right away, so the actions that follow already see it.
+  const startSession = (config: SessionConfig) => {
+    setSessionConfig(config);
+    engine.setContext({ ...studyContext, config });
+    runStudy({ type: "restart" });
+    resetAnswer();
+    setSessionOpen(false);
+  };
+
+  // Starts a session on a topic or filtered deck, or on the whole deck again for null.
+  const studyFocus = (nextFocus: SessionFocus | null, review: boolean) => {
+    if (studyMode === "gender" || studyMode === "cloze") changeStudyMode("flashcards");
+    startSession({ ...sessionConfig, rangeStart: null, rangeEnd: null, focus: nextFocus });
+    if (review) runStudy({ type: "startReview" });
+    setTopicsOpen(false);
+  };
+
+  const applyState = (nextProgress: ProgressState, nextSettings: SettingsState) => {
+    engine.replaceState(pickStudyState(nextProgress));
+    setGenderIndex(nextProgress.genderIndex);
+    setGenderMissedIds(nextProgress.genderMissedIds);
+    setClozeIndex(nextProgress.clozeIndex);
+    setClozeMissedIds(nextProgress.clozeMissedIds);
+    setShowGermanSentence(nextSettings.showGermanSentence);
+    setShowEnglishSentence(nextSettings.showEnglishSentence);
+    changeStudyMode(nextSettings.studyMode);
+    setDirection(nextSettings.direction);
+    setSessionConfig(nextSettings.session);
+    setAudioSettings(nextSettings.audio);
+    setKeyBindings(nextSettings.keys);
+    setGestureSettings(nextSettings.gestures);
+    setListeningSettings(nextSettings.listening);
+  };
+
+  // Imported cards count as changed now, so they win over older states on other devices.
+  const applyImport = async (plan: ImportPlan) => {
+    if (plan.mode === "replace") {
+      await replaceReviews(deck.id, plan.reviews);
+    } else {
+      await addReviews(plan.reviews);
+    }
+    applyState(plan.progress, plan.settings);
+  };
+
+  // Synced cards keep the change times they won with.
+  const applySync = (result: SyncResult) => {
+    applyState(result.state.progress, result.state.settings);
+    setChangedAt(result.state.progress.changedAt);
+  };
+
+  const studyCard = (cardId: string) => {
+    const inSession = (order: Card[]) => order.some((card) => card.id === cardId);
+    if (!inSession(sessionOrder)) {
+      const confirmed = window.confirm("This card is outside the current session. Widen the session to the whole deck?");
+      if (!confirmed) return;
+      const widened = { ...sessionConfig, rangeStart: null, rangeEnd: null, audioOnly: false, focus: null };
+      setSessionConfig(widened);
+      engine.setContext({ ...studyContext, config: widened });
+      if (!inSession(engine.getView().sessionOrder)) return;
+    }
+    if (studyMode === "gender" || studyMode === "cloze") changeStudyMode("flashcards");
+    runStudy({ type: "studyCard", cardId });
+    setFlipped(false);
+    setBrowserOpen(false);
+  };
+
+  const resetProgress = () => {
+    const confirmed = window.confirm("Reset your progress for this deck?");
+    if (!confirmed) return;
+    runStudy({ type: "reset" });
+    setGenderIndex(0);
+    setGenderMissedIds([]);
+    setClozeIndex(0);
+    setClozeMissedIds([]);
+    setFlipped(false);
+  };
+
+  const hint = (action: KeyAction) => keyHint(keyBindings, action);
+
+  // Swipes follow the keys: left and right are Again and Good, or Continue once a
+  // choice is picked; up plays the word whenever the sound button would.
+  const swipeLabels: Partial<Record<SwipeDirection, string>> = {};
+  if (currentCard) {
+    if (!choiceQuestion) {
+      swipeLabels.left = gradeLabel("again");
+      swipeLabels.right = gradeLabel("good");
+    } else if (choiceResult) {
+      swipeLabels.right = "Continue";
+    }
+    if (!wordLocked && (currentCard.audio_url || hasSpeech(currentCard, "word"))) swipeLabels.up = "Play";
+  }
+
+  const handleSwipe = (swipe: SwipeDirection) => {
+    if (swipe === "up") void playSound("word");
+    else if (choiceQuestion) handleChoiceContinue();
+    else handleAnswer(swipe === "left" ? "again" : "good");
+  };
+
+  // The listener is added once and calls the handler of the latest render, so it always
+  // sees the current state.
+  const handleKey = (event: KeyboardEvent) => {
+    if (event.repeat || isTypingTarget(event.target)) return;
+    if (overlayOpen || studyMode === "gender" || studyMode === "cloze") return;
+    const actions = actionsForEvent(keyBindings, event);
+    if (actions.includes("undo")) {
+      event.preventDefault();
+      undoLastAnswer();
+      return;
+    }
+    if (!currentCard) return;
+    if (actions.includes("playWord") || actions.includes("playSentence")) {
+      event.preventDefault();
+      void playSound(actions.includes("playSentence") ? "sentence" : "word");
+      return;
+    }
+    // In multiple choice the option keys pick an answer and there is no self-grading;
+    // the answer decides between known and missed.
+    if (choiceQuestion) {
+      const option = OPTION_ACTIONS.findIndex((action) => actions.includes(action));
+      if (!choiceResult && option >= 0 && option < choiceQuestion.options.length) {
+        event.preventDefault();
+        handleChoicePick(option);
+      } else if (choiceResult && actions.includes("continue")) {
+        event.preventDefault();
+        handleChoiceContinue();
+      }
+      return;
+    }
+    if (actions.includes("flip")) {
+      event.preventDefault();
+      handleFlip();
+      return;
+    }
+    const grade = GRADES.find((item) => actions.includes(item));
+    if (grade) {
+      event.preventDefault();
+      handleAnswer(grade);
+    }
+  };
+  const latestHandleKey = useRef(handleKey);
+  latestHandleKey.current = handleKey;
+  useEffect(() => {
+    const listener = (event: KeyboardEvent) => latestHandleKey.current(event);
+    window.addEventListener("keydown", listener);
+    return () => window.removeEventListener("keydown", listener);
+  }, []);
+
+  return (
+    <div className="min-h-screen text-ink">
+      <div className="max-w-5xl mx-auto px-6 py-8">
+        <header className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+          <div className="text-center md:text-left">
+            <h1 className="text-2xl md:text-3xl font-display text-ink">{deck.title}</h1>
+            <h2 className="mt-2 font-brand text-xs uppercase tracking-[0.4em] text-ink/50">Deckster Lab</h2>
+          </div>
+          <div className="flex items-center justify-center md:justify-end gap-2">
+            <button
+              type="button"
+              onClick={onOpenLibrary}
+              className="rounded-full border border-ink/15 bg-white/70 px-3 py-2 text-xs uppercase tracking-[0.2em] text-ink/70 hover:bg-white transition"
+              aria-label="Choose another deck"
+              title="Choose another deck"
+            >
+              Decks
+            </button>
+            <button
+              type="button"
+              onClick={() => setSessionOpen(true)}
+              className="rounded-full border border-ink/15 bg-white/70 px-3 py-2 text-xs uppercase tracking-[0.2em] text-ink/70 hover:bg-white transition"
+              aria-label="Set up a study session"
+              title="Session"
+            >
+              Session
+            </button>
+            <button
+              type="button"
+              onClick={() => setBrowserOpen(true)}
+              className="rounded-full border border-ink/15 bg-white/70 px-3 py-2 text-xs uppercase tracking-[0.2em] text-ink/70 hover:bg-white transition"
+              aria-label="Browse and edit cards"
+              title="Browse cards"
+            >
+              Browse
+            </button>
+            <button
+              type="button"
+              onClick={() => setTopicsOpen(true)}
+              className="rounded-full border border-ink/15 bg-white/70 px-3 py-2 text-xs uppercase tracking-[0.2em] text-ink/70 hover:bg-white transition"
+              aria-label="Study by topic"
+              title="Topics and filtered decks"
+            >
+              Topics
+            </button>
+            <button
+              type="button"
+              onClick={() => setStatsOpen(true)}
+              className="rounded-full border border-ink/15 bg-white/70 px-3 py-2 text-xs uppercase tracking-[0.2em] text-ink/70 hover:bg-white transition"
+              aria-label="Open statistics"
+              title="Statistics"
+            >
+              Stats
+            </button>
+            <button
+              type="button"
+              onClick={() => setBackupOpen(true)}
+              className="rounded-full border border-ink/15 bg-white/70 px-3 py-2 text-xs uppercase tracking-[0.2em] text-ink/70 hover:bg-white transition"
+              aria-label="Export or import a backup"
+              title="Backup"
+            >
+              Backup
+            </button>
+            <button
+              type="button"
+              onClick={() => setSyncOpen(true)}
+              className="rounded-full border border-ink/15 bg-white/70 px-3 py-2 text-xs uppercase tracking-[0.2em] text-ink/70 hover:bg-white transition"
+              aria-label="Sync progress with a file or server"
+              title="Sync"
+            >
+              Sync
+            </button>
+            <button
+              type="button"
+              onClick={() => setOfflineOpen(true)}
+              className="rounded-full border border-ink/15 bg-white/70 px-3 py-2 text-xs uppercase tracking-[0.2em] text-ink/70 hover:bg-white transition"
+              aria-label="Download audio for offline use"
+              title="Offline"
+            >
+              Offline
+            </button>
+            <button
+              type="button"
+              onClick={resetProgress}
+              className="rounded-full border border-ink/15 bg-white/70 px-3 py-2 text-xs uppercase tracking-[0.2em] text-ink/70 hover:bg-white transition"
+              aria-label="Reset progress"
+              title="Reset progress"
+            >
+              Reset
+            </button>
+            <button
+              type="button"
+              onClick={() => setInfoOpen(true)}
+              className="rounded-full border border-ink/15 bg-white/70 p-2 text-ink/70 hover:bg-white transition"
+              aria-label="Open instructions"
+              title="Instructions"
+            >
+              <svg width="18" height="18" viewBox="0 0 20 20" fill="none" aria-hidden="true">
+                <circle cx="10" cy="10" r="8" stroke="currentColor" strokeWidth="1.4" />
+                <path d="M10 9V14" stroke="currentColor" strokeWidth="1.4" strokeLinecap="round" />
+                <circle cx="10" cy="6.5" r="1" fill="currentColor" />
+              </svg>
+            </button>
+          </div>
+        </header>
+
+        <main className="mt-6 flex flex-col items-center gap-8">
+          {deck.issues.length > 0 && (
+            <details className="w-full rounded-2xl border border-ember/30 bg-ember/10 px-6 py-4 text-sm text-ink/70">
+              <summary className="cursor-pointer text-ember">
+                {deck.issues.length} {deck.issues.length === 1 ? "card was" : "cards were"} left out because{" "}
+                {deck.issues.length === 1 ? "it does" : "they do"} not fit the deck format.
+              </summary>
+              <ul className="mt-3 space-y-1">
+                {deck.issues.map((issue) => (
+                  <li key={issue.position}>
+                    Card {issue.position + 1}
+                    {issue.cardId && ` (${issue.cardId})`}: {issue.problems.join(" ")}
+                  </li>
+                ))}
+              </ul>
+            </details>
+          )}
+          {saveError && (
+            <p className="w-full rounded-2xl border border-ember/30 bg-ember/10 px-6 py-4 text-sm text-ember">{saveError}</p>
+          )}
+          {logError && (
+            <p className="w-full rounded-2xl border border-ember/30 bg-ember/10 px-6 py-4 text-sm text-ember">{logError}</p>
+          )}
+          <section className="w-full card-surface rounded-2xl shadow-card p-6 md:p-8 animate-floatIn">
+            {studyMode === "gender" ? (
+              <GenderDrill
+                cards={deck.cards}
+                index={genderIndex}
+                missedIds={genderMissedIds}
+                onIndexChange={setGenderIndex}
+                onAnswer={handleGenderAnswer}
+                bindings={keyBindings}
+                paused={overlayOpen}
+              />
+            ) : studyMode === "cloze" ? (
+              <ClozeDrill
+                cards={deck.cards}
+                index={clozeIndex}
+                missedIds={clozeMissedIds}
+                onIndexChange={setClozeIndex}
+                onAnswer={handleClozeAnswer}
+                paused={overlayOpen}
+              />
+            ) : sessionEnd && !reviewMode ? (
+              <SessionSummary
+                reason={sessionEnd}
+                config={sessionConfig}
+                progress={sessionProgress}
+                cardById={cardById}
+                dueCount={dueCount}
+                onKeepGoing={() => runStudy({ type: "keepGoing" })}
+                onRestart={() => startSession(sessionConfig)}
+                onSetup={() => setSessionOpen(true)}
+                onReview={startReview}
+              />
+            ) : (
+              <>
+                <SwipeCard
+                  settings={gestureSettings}
+                  labels={swipeLabels}
+                  onSwipe={handleSwipe}
+                  onTap={handleFlip}
+                  className={`relative border border-ink/10 rounded-xl p-6 md:p-10 text-center min-h-[280px] flex items-center justify-center ${flipped ? "bg-slate-100" : "bg-white/70"
+                    }`}
+                >
+                  {currentCard && (
+                    <div className="absolute top-3 left-1/2 -translate-x-1/2 text-[11px] uppercase tracking-[0.2em] text-ink/40">
+                      {progressLabel}
+                    </div>
+                  )}
+                  {currentCard ? (
+                    <div className="flex flex-col items-center gap-3">
+                      <p className="text-sm uppercase tracking-[0.2em] text-ink/40">
+                        {listening
+                          ? `Listening · ${languages.front}`
+                          : `${flipped ? "Back" : "Front"} · ${
+                              promptGerman ? `${languages.front} → ${languages.back}` : `${languages.back} → ${languages.front}`
+                            }`}
+                      </p>
+                      {listening && !flipped ? (
+                        <div className="flex flex-col items-center gap-2">
+                          <button
+                            type="button"
+                            onClick={() => void playSound("word")}
+                            disabled={wordLocked}
+                            className="mt-2 flex h-20 w-20 items-center justify-center rounded-full bg-ink text-linen shadow-soft hover:shadow-card transition disabled:opacity-40"
+                            aria-label="Play the word"
+                          >
+                            <svg width="30" height="30" viewBox="0 0 20 20" fill="currentColor" aria-hidden="true">
+                              <path d="M6 4.5v11l9-5.5-9-5.5Z" />
+                            </svg>
+                          </button>
+                          <p className="text-sm text-ink/50">
+                            {listeningPlaysLeft === null
+                              ? "Play it as often as you need."
+                              : listeningPlaysLeft === 0
+                                ? "No plays left. Answer from memory."
+                                : `${listeningPlaysLeft} ${listeningPlaysLeft === 1 ? "play" : "plays"} left`}
+                          </p>
+                        </div>
+                      ) : listening ? (
+                        <div className="text-center">
+                          <p className="mt-2 text-4xl md:text-5xl font-display font-semibold text-ink">{currentCard.de_word}</p>
+                          <p className="mt-2 text-xl text-ink/70">{currentCard.en_word}</p>
+                          {showGermanSentence && currentCard.de_sentence && (
+                            <p className="mt-3 text-base md:text-lg text-ink/60 font-light max-w-xl">
+                              {currentCard.de_sentence}
+                            </p>
+                          )}
+                          {showEnglishSentence && currentCard.en_sentence && (
+                            <p className="mt-1 text-base text-ink/50 font-light max-w-xl">{currentCard.en_sentence}</p>
+                          )}
+                        </div>
+                      ) : (
+                        <div className="text-center">
+                          <p className="mt-2 text-4xl md:text-5xl font-display font-semibold text-ink">
+                            {showingGerman ? currentCard.de_word : currentCard.en_word}
+                          </p>
+                          {showingGerman && showGermanSentence && currentCard.de_sentence && (
+                            <p className="mt-3 text-base md:text-lg text-ink/60 font-light max-w-xl">
+                              {currentCard.de_sentence}
+                            </p>
+                          )}
+                          {!showingGerman && showEnglishSentence && currentCard.en_sentence && (
+                            <p className="mt-3 text-base md:text-lg text-ink/60 font-light max-w-xl">
+                              {currentCard.en_sentence}
+                            </p>
+                          )}
+                        </div>
+                      )}
+                      {choiceQuestion && (
+                        <ChoiceAnswer
+                          question={choiceQuestion}
+                          result={choiceResult}
+                          onPick={handleChoicePick}
+                          onContinue={handleChoiceContinue}
+                          bindings={keyBindings}
+                        />
+                      )}
+                      {typedAnswers && (
+                        <TypedAnswer
+                          key={currentCard.id}
+                          expected={currentCard.de_word}
+                          language={languages.front}
+                          placeholder={listening ? "Type what you hear" : undefined}
+                          nounCapitals={listening}
+                          result={typedResult}
+                          onCheck={handleTypedCheck}
+                          onContinue={handleAnswer}
+                        />
+                      )}
+                      <p className="text-[9px] uppercase tracking-[0.1em] text-ink/40 font-light">
+                        Note ID - {currentCard.note_id}
+                      </p>
+                    </div>
+                  ) : (
+                    <p className="text-ink/60">No cards in this deck yet.</p>
+                  )}
+                </SwipeCard>
+
+                <div className="mt-6 grid grid-cols-1 md:grid-cols-3 gap-3">
+                  <button
+                    onClick={handleFlip}
+                    className="rounded-xl border border-ink/15 px-4 py-3 text-sm font-semibold hover:bg-white/70 transition disabled:opacity-60"
+                    disabled={!currentCard || Boolean(choiceQuestion && !choiceResult)}
+                  >
+                    Show Answer
+                    {hint("flip") && <span className="block text-xs text-ink/50">{hint("flip")}</span>}
+                  </button>
+                  <button
+                    onClick={() => void playSound("word")}
+                    className="rounded-xl border border-ink/15 px-4 py-3 text-sm font-semibold hover:bg-white/70 transition disabled:opacity-60"
+                    disabled={!currentCard || wordLocked || (!currentCard.audio_url && !hasSpeech(currentCard, "word"))}
+                  >
+                    Play Sound
+                    <span className="block text-xs text-ink/50">
+                      {soundLocked
+                        ? "Plays after the reveal"
+                        : [
+                            hint("playWord"),
+                            currentCard && !currentCard.audio_url && "browser voice",
+                            listeningPlaysLeft !== null
+                              ? `${listeningPlaysLeft} left`
+                              : playCount > 0 && `played ${playCount}×`
+                          ]
+                            .filter(Boolean)
+                            .join(" · ")}
+                    </span>
+                  </button>
+                  <button
+                    onClick={() => void playSound("sentence")}
+                    className="rounded-xl border border-ink/15 px-4 py-3 text-sm font-semibold hover:bg-white/70 transition disabled:opacity-60"
+                    disabled={!currentCard || sentenceLocked || !hasSpeech(currentCard, "sentence")}
+                  >
+                    Play Sentence
+                    <span className="block text-xs text-ink/50">
+                      {sentenceLocked ? "Plays after the reveal" : [hint("playSentence"), "browser voice"].filter(Boolean).join(" · ")}
+                    </span>
+                  </button>
+                </div>
+                {audioMessage && (
+                  <p className={`mt-2 text-sm ${audioMessage.error ? "text-ember" : "text-ink/60"}`}>{audioMessage.text}</p>
+                )}
+                {!choiceQuestion && (
+                  <div className="mt-3 grid grid-cols-2 md:grid-cols-4 gap-3">
+                    {GRADES.map((grade) => (
+                      <button
+                        key={grade}
+                        onClick={() => handleAnswer(grade)}
+                        className={`rounded-xl px-4 py-3 text-sm font-semibold shadow-soft hover:shadow-card transition ${gradeStyles[grade]} ${typedResult?.grade === grade ? "ring-2 ring-ink ring-offset-2" : ""}`}
+                        disabled={!currentCard}
+                      >
+                        {gradeLabel(grade)}
+                        <span className="block text-xs opacity-80">
+                          {gradePreviews[grade]}
+                          {hint(grade) && ` · ${hint(grade)}`}
+                        </span>
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </>
+            )}
+          </section>
+
+          {studyMode !== "gender" && studyMode !== "cloze" && (
+            <section className="w-full card-surface rounded-2xl shadow-card p-6 md:p-8">
+              <AnswerHistory
+                history={history}
+                cardById={cardById}
+                gradeStyles={gradeStyles}
+                onUndo={undoLastAnswer}
+                onRegrade={regradeAnswer}
+                undoHint={hint("undo")}
+              />
+            </section>
+          )}
+
+          <section className="w-full card-surface rounded-2xl shadow-card p-6 md:p-8">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+              <div>
+                <p className="text-xs uppercase tracking-[0.2em] text-ink/40">Deck</p>
+                <p className="mt-2 text-lg font-semibold text-ink">{deck.title}</p>
+                <p className="text-sm text-ink/60">{deck.cards.length} cards</p>
+                {focus && (
+                  <p className="text-sm text-ink/60">
+                    Studying {focus.name} ·{" "}
+                    <button type="button" onClick={() => studyFocus(null, false)} className="underline hover:text-ink">
+                      whole deck
+                    </button>
+                  </p>
+                )}
+              </div>
+              <div>
+                <p className="text-xs uppercase tracking-[0.2em] text-ink/40">Progress</p>
+                <p className="mt-2 text-lg font-semibold text-ink">{progressLabel}</p>
+                {(sessionGoal || sessionConfig.newPerDay !== null) && (
+                  <p className="text-sm text-ink/60">
+                    {sessionGoal && `Goal: ${sessionGoal}`}
+                    {sessionGoal && sessionConfig.newPerDay !== null && " · "}
+                    {sessionConfig.newPerDay !== null && `New today: ${newToday} / ${sessionConfig.newPerDay}`}
+                  </p>
+                )}
+                <p className="text-sm text-ink/60">
+                  DE → EN: {missedIds.length} missed · {Object.keys(schedules).length} scheduled
+                </p>
+                <p className="text-sm text-ink/60">
+                  EN → DE: {reverseMissedIds.length} missed · {Object.keys(reverseSchedules).length} scheduled
+                </p>
+              </div>
+              <div>
+                <p className="text-xs uppercase tracking-[0.2em] text-ink/40">Due today</p>
+                {dueCount === 0 && <p className="mt-2 text-sm text-ink/60">You are clear for now.</p>}
+                {dueCount > 0 && (
+                  <button
+                    onClick={reviewMode ? () => runStudy({ type: "exitReview" }) : startReview}
+                    className="mt-2 w-full rounded-xl bg-ink text-linen px-4 py-3 text-sm font-semibold shadow-soft hover:shadow-card transition"
+                  >
+                    {reviewMode ? "Exit review" : `Review ${dueCount} due ${dueCount === 1 ? "card" : "cards"}`}
+                  </button>
+                )}
+                {reviewMode && reviewQueue.length > 0 && (
+                  <p className="mt-3 text-xs text-ink/50">
+                    Reviewing {Math.min(reviewIndex + 1, reviewQueue.length)} of {reviewQueue.length}
+                  </p>
+                )}
+              </div>
+            </div>
+            <div className="mt-6 border-t border-ink/10 pt-4">
+              <p className="text-xs uppercase tracking-[0.2em] text-ink/40">Sentence display</p>
+              <div className="mt-3 flex flex-col md:flex-row md:items-center gap-3">
+                <label className="inline-flex items-center gap-2 text-sm text-ink/70">
+                  <input
+                    type="checkbox"
+                    checked={showGermanSentence}
+                    onChange={(event) => setShowGermanSentence(event.target.checked)}
+                  />
+                  Show {languages.front} sentence
+                </label>
+                <label className="inline-flex items-center gap-2 text-sm text-ink/70">
+                  <input
+                    type="checkbox"
+                    checked={showEnglishSentence}
+                    onChange={(event) => setShowEnglishSentence(event.target.checked)}
+                  />
+                  Show {languages.back} sentence
+                </label>
+              </div>
+            </div>
+            <div className="mt-6 border-t border-ink/10 pt-4">
+              <p className="text-xs uppercase tracking-[0.2em] text-ink/40">Audio</p>
+              <div className="mt-3 flex flex-col md:flex-row md:items-center gap-3">
+                <span className="text-sm text-ink/50">Autoplay</span>
+                {autoplayOptions(languages).map((option) => (
+                  <label key={option.id} className="inline-flex items-center gap-2 text-sm text-ink/70">
+                    <input
+                      type="radio"
+                      name="audio-autoplay"
+                      checked={audioSettings.autoplay === option.id}
+                      onChange={() => updateAudioSettings({ autoplay: option.id })}
+                    />
+                    {option.label}
+                  </label>
+                ))}
+              </div>
+              <div className="mt-3 flex flex-wrap items-center gap-2">
+                <span className="text-sm text-ink/50">Speed</span>
+                {PLAYBACK_RATES.map((rate) => (
+                  <button
+                    key={rate}
+                    type="button"
+                    onClick={() => updateAudioSettings({ rate })}
+                    className={`rounded-full border px-3 py-1 text-sm transition ${
+                      audioSettings.rate === rate
+                        ? "border-ink bg-ink text-linen"
+                        : "border-ink/15 bg-white/70 text-ink/70 hover:bg-white"
+                    }`}
+                  >
+                    {rate}×
+                  </button>
+                ))}
+              </div>
+              {!isSpeechSupported() ? (
+                <p className="mt-2 text-xs text-ink/50">
+                  This browser cannot read text aloud, so cards without an audio file stay silent.
+                </p>
+              ) : voices.length === 0 ? (
+                <p className="mt-2 text-xs text-ink/50">
+                  No {languages.front} voice is installed for this browser; cards without an audio file use its default voice.
+                </p>
+              ) : (
+                <div className="mt-3 flex flex-col md:flex-row md:items-center gap-3">
+                  {(
+                    [
+                      ["wordVoice", "Word voice"],
+                      ["sentenceVoice", "Sentence voice"]
+                    ] as const
+                  ).map(([key, label]) => (
+                    <label key={key} className="inline-flex items-center gap-2 text-sm text-ink/50">
+                      {label}
+                      <select
+                        value={audioSettings[key] ?? ""}
+                        onChange={(event) => updateAudioSettings({ [key]: event.target.value || null })}
+                        className="rounded-full border border-ink/15 bg-white/80 px-3 py-1.5 text-sm text-ink/70"
+                      >
+                        <option value="">Default {languages.front} voice</option>
+                        {voices.map((voice) => (
+                          <option key={voice.voiceURI} value={voice.voiceURI}>
+                            {voice.name} ({voice.lang})
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                  ))}
+                </div>
+              )}
+            </div>
+            <div className="mt-6 border-t border-ink/10 pt-4">
+              <p className="text-xs uppercase tracking-[0.2em] text-ink/40">Shortcuts &amp; gestures</p>
+              <div className="mt-3 flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+                <p className="text-sm text-ink/60">
+                  {listConflicts(keyBindings).size > 0
+                    ? "Some keys are bound to more than one action."
+                    : gestureSettings.enabled
+                      ? "Keyboard shortcuts and swipes on the card are on."
+                      : "Keyboard shortcuts are on; swipes are off."}
+                </p>
+                <button
+                  type="button"
+                  onClick={() => setShortcutsOpen(true)}
+                  className="rounded-full border border-ink/15 bg-white/70 px-4 py-2 text-sm text-ink/70 hover:bg-white transition"
+                >
+                  Customize
+                </button>
+              </div>
+            </div>
+            <div className="mt-6 border-t border-ink/10 pt-4">
+              <p className="text-xs uppercase tracking-[0.2em] text-ink/40">Card direction</p>
+              <div className="mt-3 flex flex-col md:flex-row md:items-center gap-3">
+                {directionOptions(deck.schema).map((option) => (
+                  <label key={option.id} className="inline-flex items-center gap-2 text-sm text-ink/70">
+                    <input
+                      type="radio"
+                      name="card-direction"
+                      checked={direction === option.id}
+                      onChange={() => changeDirection(option.id)}
+                    />
+                    {option.label}
+                  </label>
+                ))}
+              </div>
+              {studyMode !== "flashcards" && studyMode !== "choice" && (
+                <p className="mt-2 text-xs text-ink/50">
+                  {studyMode === "typed"
+                    ? `Typed answers always ask ${languages.back} → ${languages.front}.`
+                    : listening
+                      ? `Listening always starts from the ${languages.front} audio.`
+                      : "The drills do not use a direction."}
+                </p>
+              )}
+            </div>
+            <div className="mt-6 border-t border-ink/10 pt-4">
+              <p className="text-xs uppercase tracking-[0.2em] text-ink/40">Study mode</p>
+              <div className="mt-3 flex flex-col md:flex-row md:items-center gap-3">
+                {studyModes(languages, germanDeck).map((mode) => (
+                  <label key={mode.id} className="inline-flex items-center gap-2 text-sm text-ink/70">
+                    <input
+                      type="radio"
+                      name="study-mode"
+                      checked={studyMode === mode.id}
+                      onChange={() => changeStudyMode(mode.id)}
+                    />
+                    {mode.label}
+                  </label>
+                ))}
+              </div>
+            </div>
+            {listening && (
+              <div className="mt-6 border-t border-ink/10 pt-4">
+                <p className="text-xs uppercase tracking-[0.2em] text-ink/40">Listening</p>
+                <div className="mt-3 flex flex-col md:flex-row md:items-center gap-3">
+                  {listeningAnswers(languages).map((option) => (
+                    <label key={option.id} className="inline-flex items-center gap-2 text-sm text-ink/70">
+                      <input
+                        type="radio"
+                        name="listening-answer"
+                        checked={listeningSettings.answer === option.id}
+                        onChange={() => changeListeningSettings({ answer: option.id })}
+                      />
+                      {option.label}
+                    </label>
+                  ))}
+                </div>
+                <div className="mt-3 flex flex-wrap items-center gap-2">
+                  <span className="text-sm text-ink/50">Before answering</span>
+                  {REPLAY_LIMITS.map((limit) => (
+                    <button
+                      key={String(limit)}
+                      type="button"
+                      onClick={() => changeListeningSettings({ replayLimit: limit })}
+                      className={`rounded-full border px-3 py-1 text-sm transition ${
+                        listeningSettings.replayLimit === limit
+                          ? "border-ink bg-ink text-linen"
+                          : "border-ink/15 bg-white/70 text-ink/70 hover:bg-white"
+                      }`}
+                    >
+                      {replayLimitLabel(limit)}
+                    </button>
+                  ))}
+                </div>
+                <p className="mt-2 text-xs text-ink/50">
+                  {studyCards.length === 0
+                    ? "No card in this deck has an audio file to listen to."
+                    : studyCards.length < deck.cards.length
+                      ? `${deck.cards.length - studyCards.length} cards without an audio file are left out.`
+                      : "Every card in this deck has an audio file."}
+                </p>
+              </div>
+            )}
+            <div className="mt-6 border-t border-ink/10 pt-4 flex flex-col gap-3 text-sm text-ink/60 md:flex-row md:items-start md:justify-between">
+              <div className="flex flex-col gap-2">
+                <p className="text-[13px] text-ink/50">Designed and Vibe Coded by Akshay Verma.</p>
+                <div className="social-media-links">
+                  <a href="https://twitter.com/imakshayverma" target="_blank" rel="noreferrer">
+                    <i className="fa fa-twitter" aria-hidden="true"></i>
+                  </a>
+                  <a href="https://github.com/imakshayverma" target="_blank" rel="noreferrer">
+                    <i className="fa fa-github" aria-hidden="true"></i>
+                  </a>
+                  <a href="https://www.instagram.com/akshayverma295/" target="_blank" rel="noreferrer">
+                    <i className="fa fa-instagram" aria-hidden="true"></i>
+                  </a>
+                  <a href="https://in.linkedin.com/in/imakshayverma" target="_blank" rel="noreferrer">
+                    <i className="fa fa-linkedin-square" aria-hidden="true"></i>
+                  </a>
+                </div>
+              </div>
+              <div className="md:text-right">
+                {deck.source && (
+                  <p>
+                    Source deck:{" "}
+                    <a href={deck.source.url} target="_blank" rel="noreferrer" className="text-ink underline">
+                      {deck.source.label}
+                    </a>
+                  </p>
+                )}
+                <p className="text-[12px] text-ink/50">This app is published under the MIT license.</p>
+              </div>
+            </div>
+          </section>
+        </main>
+      </div>
+
+      {browserOpen && (
+        <CardBrowser
+          deck={deck}
+          missedIds={cardStatus.missedIds}
+          schedules={cardStatus.schedules}
+          overrides={overrides}
+          onEditCard={onEditCard}
+          onTagCards={onTagCards}
+          onStudyCard={studyCard}
+          onClose={() => setBrowserOpen(false)}
+        />
+      )}
+
+      {shortcutsOpen && (
+        <ShortcutSettings
+          bindings={keyBindings}
+          gestures={gestureSettings}
+          onBindingsChange={setKeyBindings}
+          onGesturesChange={setGestureSettings}
+          onClose={() => setShortcutsOpen(false)}
+        />
+      )}
+
+      {sessionOpen && (
+        <SessionSetup
+          cards={deck.cards}
+          config={sessionConfig}
+          newToday={newToday}
+          onStart={startSession}
+          onClose={() => setSessionOpen(false)}
+        />
+      )}
+
+      {topicsOpen && (
+        <TopicsDialog
+          deck={deck}
+          missedIds={cardStatus.missedIds}
+          schedules={cardStatus.schedules}
+          focus={focus}
+          onStudy={studyFocus}
+          onClose={() => setTopicsOpen(false)}
+        />
+      )}
+
+      {statsOpen && <StatsView deck={deck} onClose={() => setStatsOpen(false)} />}
+
+      {offlineOpen && <OfflineDialog deck={deck} onClose={() => setOfflineOpen(false)} />}
+
+      {backupOpen && (
+        <BackupDialog
+          deck={deck}
+          progress={progress}
+          settings={settings}
+          onApply={applyImport}
+          onClose={() => setBackupOpen(false)}
+        />
+      )}
+
+      {syncOpen && <SyncDialog deck={deck} local={storage} onSynced={applySync} onClose={() => setSyncOpen(false)} />}
+
+      {infoOpen && (
+        <div
+          className="fixed inset-0 z-50 flex items-center justify-center bg-ink/40 p-6"
+          onClick={() => setInfoOpen(false)}
+        >
+          <div
+            className="card-surface w-full max-w-lg rounded-2xl shadow-card p-6 md:p-8"
+            onClick={(event) => event.stopPropagation()}
+          >
+            <div className="flex items-center justify-between">
+              <p className="font-brand text-xs uppercase tracking-[0.3em] text-ink/50">Deckster Lab</p>
+              <button
+                type="button"
+                onClick={() => setInfoOpen(false)}
+                className="rounded-full border border-ink/15 bg-white/70 p-2 text-ink/70 hover:bg-white transition"
+                aria-label="Close instructions"
+              >
+                <svg width="16" height="16" viewBox="0 0 20 20" fill="none" aria-hidden="true">
+                  <path
+                    d="M5 5L15 15"
+                    stroke="currentColor"
+                    strokeWidth="1.4"
+                    strokeLinecap="round"
+                  />
+                  <path
+                    d="M15 5L5 15"
+                    stroke="currentColor"
+                    strokeWidth="1.4"
+                    strokeLinecap="round"
+                  />
+                </svg>
+              </button>
+            </div>
+            <h2 className="mt-4 text-2xl font-display text-ink">Quick instructions</h2>
+            <div className="mt-4 space-y-3 text-sm text-ink/70">
+              <p>This is a simple flashcard app to help you study vocabulary decks. The app is
+                entirely client-side and stores your progress in your browser. It works on desktop with the keyboard and on phones and tablets with swipes.
+              </p>
+              <p>Use the buttons, keyboard shortcuts or swipes on the card to work through the flashcards. The keys below are your current ones; change them under Shortcuts &amp; gestures.</p>
+              <ul className="list-disc pl-5 space-y-1">
+                <li>Show the answer: {hint("flip") || "no key"}, or tap the card.</li>
+                <li>
+                  Grade each card as Again ({hint("again") || "no key"}), Hard ({hint("hard") || "no key"}), Good (
+                  {hint("good") || "no key"}) or Easy ({hint("easy") || "no key"}). On a touch screen, swipe the card left for
+                  Again and right for Good.
+                </li>
+                <li>Again records the card as missed and brings it back today. The other grades schedule the next review further out the better you know the card.</li>
+                <li>Undo the last answer with {hint("undo") || "the Undo button"}; undo again to step further back.</li>
+                <li>
+                  Play the word with {hint("playWord") || "the Play Sound button"} or a swipe up, and the example sentence with{" "}
+                  {hint("playSentence") || "the Play Sentence button"}.
+                </li>
+              </ul>
+              <p>
+                With typed answers on, type the {languages.front} word for the {languages.back} prompt and press Enter.
+                {germanDeck && " Umlauts can be typed as ae, oe, ue and ß as ss, and the article and plural are checked on their own."}{" "}
+                Enter again continues with the suggested grade.
+              </p>
+              <p>Multiple choice shows the prompt with four answers from the same deck, picked to look alike. Press the key shown next to an answer or click it, then continue; a right answer counts as Good and a wrong one as Again.</p>
+              {germanDeck && (
+                <p>The der / die / das drill shows nouns without their article. Press the key under der, die or das, or click it; wrong answers are kept so you can drill just those.</p>
+              )}
+              <p>
+                Listening plays the {languages.front} word before showing anything
+                {germanDeck && ", like the Hören part of the Goethe exams"}. Type what you hear, checked like typed answers
+                {germanDeck && " but with capital letters on nouns"}, or pick the {languages.back} meaning; the text appears once
+                you answer. Only cards with an audio file are used, and a replay limit under Listening caps how often a word plays
+                before you answer.
+              </p>
+              <p>Fill the gap blanks the headword in its example sentence, in whatever form it takes there, with the English sentence as a hint. Type the missing word and press Enter, or reveal it. Cards whose sentence has no clear match are skipped and listed below the drill.</p>
+              <p>Session sets up what you study: deck order or a shuffle that stays the same until you reshuffle, a range of cards or only those with audio, a daily limit on new cards, and a goal in cards or minutes. A summary appears when you reach the goal or the end of the cards, and an unfinished session picks up where you left it after a reload.</p>
+              <p>
+                Audio can play on its own when the {languages.front} side appears or when you reveal the answer, at 0.75×, 1× or
+                1.25× speed. Cards without an audio file, and all example sentences, are read by the browser's{" "}
+                {languages.front} voice; pick separate voices for words and sentences under Audio. How often you replay a card is
+                recorded, and Stats lists the cards you replay most.
+              </p>
+              <p>Recent answers lists your last answers. Click one to grade it differently, for example after hitting Again by mistake; the history is kept with your progress, so undo still works after a reload.</p>
+              <p>Use review mode to work through the cards that are due today, so old cards come back right before you would forget them.</p>
+              <p>Every answer is also written to a review log on this device; Stats turns it into an activity heatmap, retention over time, your most missed cards and response times.</p>
+              <p>
+                Card direction decides which side you are asked: {languages.front} to {languages.back}, {languages.back} to{" "}
+                {languages.front}, or a random side per card. Each direction keeps its own schedule and missed list, and when the{" "}
+                {languages.back} side is the prompt the {languages.front} audio plays once you reveal the answer.
+              </p>
+              <p>Browse lists every card with search, filters and sorting. Edits you make there are kept on this device on top of the deck, and cards that share a headword are marked so you can tell them apart.</p>
+              <p>Tick cards in Browse to add or remove tags on many at once. Topics lists every tag with its progress, so you can study or review one topic as its own deck, or save a filtered deck such as the travel words you missed.</p>
+              <p>Use Backup to download your progress and review history as a file, or a CSV of every card's status, and to restore a backup on another browser.</p>
+              <p>The app works offline once it has been opened. Audio is saved as you play it; use Offline to download every clip of the deck before you lose your connection.</p>
+              <p>Use Decks to switch between the available decks. Progress and settings are saved locally for each deck; use Reset to clear the progress of the current deck.</p>
+
+              <p>If you have any questions or feedback, feel free to reach out on social media handles shared in footnote or open the issue on the <a className="text-blue-500" href="https://github.com/imakshayverma/deckster-lab-a1-german" target="_blank">repository</a>!</p>
+            </div>
+            <div className="mt-6 flex items-center justify-end">
+              <button
+                type="button"
+                onClick={() => setInfoOpen(false)}
+                className="rounded-full bg-ink text-linen px-4 py-2 text-sm font-semibold shadow-soft hover:shadow-card transition"
+              >
+                Got it
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+import { useRef, useState, type PointerEvent, type ReactNode } from "react";
+import { TAP_TOLERANCE, swipeFor, type GestureSettings, type SwipeDirection } from "./gestures";
+
+type SwipeCardProps = {
+  settings: GestureSettings;
+  // Directions left out here are ignored, e.g. grading swipes during multiple choice.
+  labels: Partial<Record<SwipeDirection, string>>;
+  onSwipe: (direction: SwipeDirection) => void;
+  onTap: () => void;
+  className: string;
+  children: ReactNode;
+};
+
+const swipeStyles: Record<SwipeDirection, string> = {
+  left: "bg-ember/80 text-white",
+  right: "bg-moss/80 text-white",
+  up: "bg-sky/90 text-ink"
+};
+
+// Controls inside the card (typed answers, choices) keep their own pointer handling.
+const INTERACTIVE = "input, textarea, select, button, a, label";
+
+export default function SwipeCard({ settings, labels, onSwipe, onTap, className, children }: SwipeCardProps) {
+  const start = useRef<{ x: number; y: number; pointerId: number } | null>(null);
+  const [drag, setDrag] = useState({ dx: 0, dy: 0 });
+
+  const active = settings.enabled;
+
+  const handlePointerDown = (event: PointerEvent<HTMLDivElement>) => {
+    if (!active || event.pointerType === "mouse") return;
+    if (event.target instanceof Element && event.target.closest(INTERACTIVE)) return;
+    start.current = { x: event.clientX, y: event.clientY, pointerId: event.pointerId };
+    event.currentTarget.setPointerCapture(event.pointerId);
+  };
+
+  const handlePointerMove = (event: PointerEvent<HTMLDivElement>) => {
+    if (!start.current || start.current.pointerId !== event.pointerId) return;
+    setDrag({ dx: event.clientX - start.current.x, dy: event.clientY - start.current.y });
+  };
+
+  const finish = (event: PointerEvent<HTMLDivElement>, cancelled: boolean) => {
+    if (!start.current || start.current.pointerId !== event.pointerId) return;
+    const dx = event.clientX - start.current.x;
+    const dy = event.clientY - start.current.y;
+    start.current = null;
+    setDrag({ dx: 0, dy: 0 });
+    if (cancelled) return;
+    const direction = swipeFor(dx, dy, settings);
+    if (direction && labels[direction]) {
+      onSwipe(direction);
+    } else if (Math.hypot(dx, dy) < TAP_TOLERANCE) {
+      onTap();
+    }
+  };
+
+  const dragging = drag.dx !== 0 || drag.dy !== 0;
+  const horizontal = Math.abs(drag.dx) >= Math.abs(drag.dy);
+  // Horizontal drags follow the finger and tilt; upward drags only lift a little.
+  const transform = dragging
+    ? horizontal
+      ? `translateX(${drag.dx}px) rotate(${drag.dx / 20}deg)`
+      : `translateY(${Math.min(0, drag.dy) / 3}px)`
+    : undefined;
+  const leaning: SwipeDirection | null = !dragging
+    ? null
+    : horizontal
+      ? drag.dx < 0
+        ? "left"
+        : "right"
+      : drag.dy < 0
+        ? "up"
+        : null;
+  const shown = leaning && labels[leaning] ? leaning : null;
+  const ready = shown !== null && swipeFor(drag.dx, drag.dy, settings) === shown;
+  const progress = horizontal ? Math.abs(drag.dx) / settings.horizontalThreshold : -drag.dy / settings.verticalThreshold;
+
+  return (
+    <div
+      className={`${className} ${active ? "touch-none select-none" : ""} ${dragging ? "" : "transition-transform"}`}
+      style={{ transform }}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={(event) => finish(event, false)}
+      onPointerCancel={(event) => finish(event, true)}
+    >
+      {children}
+      {shown && (
+        <div
+          className={`pointer-events-none absolute inset-x-0 bottom-3 mx-auto w-fit rounded-full px-4 py-1 text-xs font-semibold uppercase tracking-[0.2em] ${swipeStyles[shown]} ${ready ? "ring-2 ring-ink ring-offset-2" : ""}`}
+          style={{ opacity: ready ? 1 : 0.25 + Math.min(progress, 1) * 0.5 }}
+        >
+          {labels[shown]}
+        </div>
+      )}
+    </div>
+  );
+}
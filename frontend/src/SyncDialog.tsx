@@ -0,0 +1,263 @@
+import { useState } from "react";
+import { loadSyncConfig, saveSyncConfig, type SyncConfig, type SyncTarget } from "./storage";
+import {
+  canPickFiles,
+  createFileAdapter,
+  createHttpAdapter,
+  pickSyncFile,
+  uploadedSyncFile,
+  type FileAccess,
+  type StorageAdapter
+} from "./storageAdapter";
+import { syncDeck, type SyncResult } from "./sync";
+import type { Deck } from "./types";
+
+type SyncDialogProps = {
+  deck: Deck;
+  // Where the study view keeps the deck's state.
+  local: StorageAdapter;
+  onSynced: (result: SyncResult) => void;
+  onClose: () => void;
+};
+
+const TARGETS: Array<{ id: SyncTarget; label: string }> = [
+  { id: "file", label: "A file" },
+  { id: "http", label: "A server (HTTP or WebDAV)" }
+];
+
+// Browsers do not let a page reopen a file by itself, so a picked file is remembered only
+// until the page reloads; switching decks keeps it. So is the server password, which is
+// never saved.
+let pickedFile: FileAccess | null = null;
+let enteredPassword = "";
+
+function count(amount: number, one: string, many: string) {
+  return `${amount} ${amount === 1 ? one : many}`;
+}
+
+function describe(result: SyncResult) {
+  if (result.created) {
+    return `There was no copy of this deck to sync with yet. It now holds ${count(result.pushed, "card", "cards")} and ${count(
+      result.reviewsPushed,
+      "logged answer",
+      "logged answers"
+    )}.`;
+  }
+  const parts = [
+    `${count(result.pulled, "card", "cards")} and ${count(result.reviewsPulled, "answer", "answers")} taken from the other side`,
+    `${count(result.pushed, "card", "cards")} and ${count(result.reviewsPushed, "answer", "answers")} sent`
+  ];
+  const conflicts =
+    result.conflicts > 0
+      ? ` ${count(result.conflicts, "card was", "cards were")} studied on both sides since the last sync; the later change was kept.`
+      : "";
+  return `${parts.join(", ")}.${conflicts}`;
+}
+
+export default function SyncDialog({ deck, local, onSynced, onClose }: SyncDialogProps) {
+  const [config, setConfig] = useState<SyncConfig>(loadSyncConfig);
+  const [file, setFile] = useState<FileAccess | null>(pickedFile);
+  const [password, setPassword] = useState(enteredPassword);
+  const [upload, setUpload] = useState<File | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<{ error: boolean; text: string } | null>(null);
+  const pickers = canPickFiles();
+  const lastSynced = config.lastSynced[deck.id];
+
+  const updateConfig = (patch: Partial<SyncConfig>) => {
+    const next = { ...config, ...patch };
+    setConfig(next);
+    saveSyncConfig(next);
+  };
+
+  const chooseFile = async (create: boolean) => {
+    setMessage(null);
+    try {
+      pickedFile = await pickSyncFile(create);
+      setFile(pickedFile);
+    } catch (reason) {
+      if (reason instanceof DOMException && reason.name === "AbortError") return;
+      setMessage({ error: true, text: reason instanceof Error ? reason.message : String(reason) });
+    }
+  };
+
+  const remote = () => {
+    if (config.target === "http") return config.url.trim() ? createHttpAdapter({ ...config, password }) : null;
+    if (pickers) return file ? createFileAdapter(file) : null;
+    return createFileAdapter(uploadedSyncFile(upload));
+  };
+  const target = remote();
+
+  const sync = async () => {
+    if (!target) return;
+    setBusy(true);
+    setMessage(null);
+    try {
+      const result = await syncDeck(deck, local, target, lastSynced ?? 0);
+      onSynced(result);
+      updateConfig({ lastSynced: { ...config.lastSynced, [deck.id]: Date.now() } });
+      const downloaded =
+        config.target === "file" && !pickers ? " The updated sync file was downloaded; keep it in place of the old one." : "";
+      setMessage({ error: false, text: `${describe(result)}${downloaded}` });
+    } catch (reason) {
+      setMessage({ error: true, text: reason instanceof Error ? reason.message : String(reason) });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-ink/40 p-6" onClick={onClose}>
+      <div
+        className="card-surface w-full max-w-2xl max-h-full overflow-y-auto rounded-2xl shadow-card p-6 md:p-8"
+        onClick={(event) => event.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <p className="font-brand text-xs uppercase tracking-[0.3em] text-ink/50">Deckster Lab</p>
+          <button
+            type="button"
+            onClick={onClose}
+            className="rounded-full border border-ink/15 bg-white/70 px-3 py-1 text-xs uppercase tracking-[0.2em] text-ink/70 hover:bg-white transition"
+          >
+            Close
+          </button>
+        </div>
+        <h2 className="mt-4 text-2xl font-display text-ink">Sync · {deck.title}</h2>
+        <p className="mt-2 text-sm text-ink/60">
+          Study offline on several devices and sync each of them with the same file or server now and then. For every
+          card the most recent change wins, and the review history of all devices is kept. Settings stay with each
+          device.
+        </p>
+
+        <div className="mt-6">
+          <p className="text-xs uppercase tracking-[0.2em] text-ink/40">Sync with</p>
+          <div className="mt-3 flex flex-wrap gap-4 text-sm text-ink/70">
+            {TARGETS.map((option) => (
+              <label key={option.id} className="inline-flex items-center gap-2">
+                <input
+                  type="radio"
+                  name="sync-target"
+                  checked={config.target === option.id}
+                  onChange={() => updateConfig({ target: option.id })}
+                />
+                {option.label}
+              </label>
+            ))}
+          </div>
+        </div>
+
+        {config.target === "file" && (
+          <div className="mt-6 border-t border-ink/10 pt-4 text-sm text-ink/70">
+            {pickers ? (
+              <>
+                <p className="text-ink/60">
+                  Keep the sync file in a folder every device can reach, such as a synced cloud drive or a USB stick.
+                </p>
+                <p className="mt-3">
+                  {file ? (
+                    <>
+                      Using <span className="font-semibold text-ink">{file.name}</span>
+                    </>
+                  ) : (
+                    "No file chosen yet."
+                  )}
+                </p>
+                <div className="mt-3 flex flex-wrap gap-2">
+                  <button
+                    type="button"
+                    onClick={() => void chooseFile(false)}
+                    className="rounded-full border border-ink/15 bg-white/70 px-4 py-2 text-sm text-ink/70 hover:bg-white transition"
+                  >
+                    Open sync file…
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => void chooseFile(true)}
+                    className="rounded-full border border-ink/15 bg-white/70 px-4 py-2 text-sm text-ink/70 hover:bg-white transition"
+                  >
+                    New sync file…
+                  </button>
+                </div>
+              </>
+            ) : (
+              <>
+                <p className="text-ink/60">
+                  This browser cannot write files in place. Choose the sync file you downloaded last time, or none to
+                  start a new one; after syncing, the updated file is downloaded.
+                </p>
+                <input
+                  type="file"
+                  accept=".json,application/json"
+                  onChange={(event) => setUpload(event.target.files?.[0] ?? null)}
+                  className="mt-3 block w-full text-sm text-ink/70"
+                />
+              </>
+            )}
+          </div>
+        )}
+
+        {config.target === "http" && (
+          <div className="mt-6 border-t border-ink/10 pt-4 space-y-3 text-sm text-ink/70">
+            <label className="block">
+              Folder URL
+              <input
+                type="url"
+                value={config.url}
+                onChange={(event) => updateConfig({ url: event.target.value })}
+                placeholder="https://dav.example.com/deckster/"
+                className="mt-1 w-full rounded-xl border border-ink/15 bg-white/70 px-3 py-2"
+              />
+            </label>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <label className="block">
+                User name
+                <input
+                  type="text"
+                  value={config.username}
+                  onChange={(event) => updateConfig({ username: event.target.value })}
+                  autoComplete="username"
+                  className="mt-1 w-full rounded-xl border border-ink/15 bg-white/70 px-3 py-2"
+                />
+              </label>
+              <label className="block">
+                Password
+                <input
+                  type="password"
+                  value={password}
+                  onChange={(event) => {
+                    enteredPassword = event.target.value;
+                    setPassword(enteredPassword);
+                  }}
+                  autoComplete="current-password"
+                  className="mt-1 w-full rounded-xl border border-ink/15 bg-white/70 px-3 py-2"
+                />
+              </label>
+            </div>
+            <p className="text-xs text-ink/50">
+              Each deck is stored as {"<deck id>"}.json in this folder. The server has to allow requests from this site
+              (CORS) and expose the ETag header. The user name is saved in this browser; the password is asked for again
+              after a reload.
+            </p>
+          </div>
+        )}
+
+        <div className="mt-6 border-t border-ink/10 pt-4">
+          <div className="flex flex-wrap items-center gap-3">
+            <button
+              type="button"
+              onClick={() => void sync()}
+              disabled={!target || busy}
+              className="rounded-full bg-ink text-linen px-4 py-2 text-sm font-semibold shadow-soft hover:shadow-card transition disabled:opacity-60"
+            >
+              {busy ? "Syncing…" : "Sync now"}
+            </button>
+            <span className="text-xs text-ink/50">
+              {lastSynced ? `Last synced ${new Date(lastSynced).toLocaleString()}` : "Not synced from this browser yet"}
+            </span>
+          </div>
+          {message && <p className={`mt-3 text-sm ${message.error ? "text-ember" : "text-moss"}`}>{message.text}</p>}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,269 @@
+import { useMemo, useState } from "react";
+import type { CardSchedule } from "./scheduler";
+import type { SessionFocus } from "./session";
+import { loadFilters, saveFilters } from "./storage";
+import {
+  FILTER_STATUSES,
+  describeFilter,
+  filterCards,
+  newFilterId,
+  subDeckProgress,
+  type FilterContext,
+  type FilterStatus,
+  type SavedFilter
+} from "./subdecks";
+import { collectTags, hasTag, tagKey } from "./tags";
+import type { Card, Deck } from "./types";
+
+type TopicsDialogProps = {
+  deck: Deck;
+  missedIds: string[];
+  schedules: Record<string, CardSchedule>;
+  focus: SessionFocus | null;
+  // null studies the whole deck again.
+  onStudy: (focus: SessionFocus | null, review: boolean) => void;
+  onClose: () => void;
+};
+
+const secondaryButton =
+  "rounded-full border border-ink/15 bg-white/70 px-3 py-1.5 text-sm text-ink/70 hover:bg-white transition disabled:opacity-60";
+
+type SubDeckRowProps = {
+  title: string;
+  detail?: string;
+  cards: Card[];
+  context: FilterContext;
+  onStudy: () => void;
+  onReview: () => void;
+  onDelete?: () => void;
+};
+
+function SubDeckRow({ title, detail, cards, context, onStudy, onReview, onDelete }: SubDeckRowProps) {
+  const progress = subDeckProgress(cards, context);
+  const learned = progress.total - progress.fresh - progress.missed;
+  return (
+    <div className="flex flex-wrap items-center gap-3 border-t border-ink/5 py-3 first:border-t-0">
+      <div className="min-w-0 flex-1">
+        <p className="truncate text-sm font-semibold text-ink">{title}</p>
+        {detail && <p className="truncate text-xs text-ink/50">{detail}</p>}
+        <p className="text-xs text-ink/60">
+          {progress.total} cards · {progress.fresh} new · {progress.missed} missed · {progress.mature} mature
+        </p>
+        <div className="mt-1 h-1.5 w-full max-w-xs overflow-hidden rounded-full bg-ink/10">
+          <div
+            className="h-full rounded-full bg-moss"
+            style={{ width: `${progress.total > 0 ? (learned / progress.total) * 100 : 0}%` }}
+          />
+        </div>
+      </div>
+      <button type="button" onClick={onStudy} disabled={progress.total === 0} className={secondaryButton}>
+        Study
+      </button>
+      <button type="button" onClick={onReview} disabled={progress.due === 0} className={secondaryButton}>
+        Review {progress.due} due
+      </button>
+      {onDelete && (
+        <button
+          type="button"
+          onClick={onDelete}
+          className="rounded-full border border-ink/15 bg-white/70 px-3 py-1 text-[11px] uppercase tracking-[0.2em] text-ink/60 hover:bg-white transition"
+          aria-label={`Delete ${title}`}
+        >
+          Delete
+        </button>
+      )}
+    </div>
+  );
+}
+
+export default function TopicsDialog({ deck, missedIds, schedules, focus, onStudy, onClose }: TopicsDialogProps) {
+  const [filters, setFilters] = useState<SavedFilter[]>(() => loadFilters(deck.id));
+  const [draftTags, setDraftTags] = useState<string[]>([]);
+  const [draftStatus, setDraftStatus] = useState<FilterStatus>("missed");
+  const [draftName, setDraftName] = useState("");
+
+  const context = useMemo<FilterContext>(
+    () => ({ missedIds: new Set(missedIds), schedules, now: Date.now() }),
+    [missedIds, schedules]
+  );
+  const tags = useMemo(() => collectTags(deck.cards), [deck.cards]);
+  const draft = { tags: draftTags, status: draftStatus };
+  const draftCards = filterCards(deck.cards, draft, context);
+
+  const study = (name: string, cards: Card[], review: boolean) =>
+    onStudy({ name, cardIds: cards.map((card) => card.id) }, review);
+
+  const storeFilters = (next: SavedFilter[]) => {
+    setFilters(next);
+    saveFilters(deck.id, next);
+  };
+
+  const saveDraft = () => {
+    const name = draftName.trim() || describeFilter(draft);
+    storeFilters([...filters, { id: newFilterId(), name, ...draft }]);
+    setDraftName("");
+  };
+
+  const toggleTag = (tag: string) =>
+    setDraftTags((prev) =>
+      prev.some((item) => tagKey(item) === tagKey(tag)) ? prev.filter((item) => tagKey(item) !== tagKey(tag)) : [...prev, tag]
+    );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-ink/40 p-6" onClick={onClose}>
+      <div
+        className="card-surface w-full max-w-2xl max-h-full overflow-y-auto rounded-2xl shadow-card p-6 md:p-8"
+        onClick={(event) => event.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <p className="font-brand text-xs uppercase tracking-[0.3em] text-ink/50">Deckster Lab</p>
+          <button
+            type="button"
+            onClick={onClose}
+            className="rounded-full border border-ink/15 bg-white/70 px-3 py-1 text-xs uppercase tracking-[0.2em] text-ink/70 hover:bg-white transition"
+          >
+            Close
+          </button>
+        </div>
+        <h2 className="mt-4 text-2xl font-display text-ink">Topics · {deck.title}</h2>
+        <p className="mt-2 text-sm text-ink/60">
+          Study one topic at a time, or a filtered deck such as the travel words you missed. Studying one starts a new
+          session with just those cards.
+        </p>
+        {focus && (
+          <div className="mt-4 flex flex-wrap items-center gap-3 rounded-xl bg-clay/40 px-4 py-3 text-sm text-ink/70">
+            <span className="flex-1">
+              This session is limited to <span className="font-semibold text-ink">{focus.name}</span>.
+            </span>
+            <button type="button" onClick={() => onStudy(null, false)} className={secondaryButton}>
+              Study the whole deck
+            </button>
+          </div>
+        )}
+
+        <div className="mt-6">
+          <p className="text-xs uppercase tracking-[0.2em] text-ink/40">Tags</p>
+          {tags.length === 0 ? (
+            <p className="mt-3 text-sm text-ink/60">
+              No card has a tag yet. Tag cards in Browse, or import an Anki deck whose notes have tags.
+            </p>
+          ) : (
+            <div className="mt-2">
+              {tags.map(({ tag }) => {
+                const cards = deck.cards.filter((card) => hasTag(card, tag));
+                return (
+                  <SubDeckRow
+                    key={tag}
+                    title={tag}
+                    cards={cards}
+                    context={context}
+                    onStudy={() => study(`tag:${tag}`, cards, false)}
+                    onReview={() => study(`tag:${tag}`, cards, true)}
+                  />
+                );
+              })}
+            </div>
+          )}
+        </div>
+
+        <div className="mt-6 border-t border-ink/10 pt-4">
+          <p className="text-xs uppercase tracking-[0.2em] text-ink/40">Filtered decks</p>
+          {filters.length === 0 ? (
+            <p className="mt-3 text-sm text-ink/60">None saved yet.</p>
+          ) : (
+            <div className="mt-2">
+              {filters.map((filter) => {
+                const cards = filterCards(deck.cards, filter, context);
+                return (
+                  <SubDeckRow
+                    key={filter.id}
+                    title={filter.name}
+                    detail={filter.name === describeFilter(filter) ? undefined : describeFilter(filter)}
+                    cards={cards}
+                    context={context}
+                    onStudy={() => study(filter.name, cards, false)}
+                    onReview={() => study(filter.name, cards, true)}
+                    onDelete={() => storeFilters(filters.filter((item) => item.id !== filter.id))}
+                  />
+                );
+              })}
+            </div>
+          )}
+
+          <div className="mt-4 space-y-3 rounded-xl border border-ink/10 bg-white/50 p-4">
+            <p className="text-sm font-semibold text-ink">New filtered deck</p>
+            <div className="flex flex-wrap gap-2">
+              {FILTER_STATUSES.map((option) => (
+                <button
+                  key={option.id}
+                  type="button"
+                  onClick={() => setDraftStatus(option.id)}
+                  className={`rounded-full border px-3 py-1 text-sm transition ${
+                    draftStatus === option.id
+                      ? "border-ink bg-ink text-linen"
+                      : "border-ink/15 bg-white/70 text-ink/70 hover:bg-white"
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+            {tags.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {tags.map(({ tag }) => {
+                  const selected = draftTags.some((item) => tagKey(item) === tagKey(tag));
+                  return (
+                    <button
+                      key={tag}
+                      type="button"
+                      onClick={() => toggleTag(tag)}
+                      className={`rounded-full border px-3 py-1 text-xs transition ${
+                        selected ? "border-ink bg-ink text-linen" : "border-ink/15 bg-white/70 text-ink/70 hover:bg-white"
+                      }`}
+                    >
+                      tag:{tag}
+                    </button>
+                  );
+                })}
+              </div>
+            )}
+            <label className="block text-sm text-ink/70">
+              Name
+              <input
+                type="text"
+                value={draftName}
+                onChange={(event) => setDraftName(event.target.value)}
+                placeholder={describeFilter(draft)}
+                className="mt-1 w-full rounded-xl border border-ink/15 bg-white/70 px-3 py-2"
+              />
+            </label>
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="mr-auto text-sm text-ink/60">
+                {draftCards.length} {draftCards.length === 1 ? "card matches" : "cards match"}
+              </span>
+              <button
+                type="button"
+                onClick={() => study(draftName.trim() || describeFilter(draft), draftCards, false)}
+                disabled={draftCards.length === 0}
+                className={secondaryButton}
+              >
+                Study now
+              </button>
+              <button
+                type="button"
+                onClick={saveDraft}
+                className="rounded-full bg-ink text-linen px-4 py-2 text-sm font-semibold shadow-soft hover:shadow-card transition disabled:opacity-60"
+              >
+                Save
+              </button>
+            </div>
+            <p className="text-xs text-ink/50">
+              A saved filtered deck is worked out again each time you open it, so "missed" holds the cards missed by
+              then. Cards with any of the chosen tags are included; with none, the whole deck is.
+            </p>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
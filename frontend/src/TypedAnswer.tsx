@@ -0,0 +1,100 @@
+import { useEffect, useRef, useState } from "react";
+import { gradeLabel, type Grade } from "./scheduler";
+import { gradeTypedAnswer, type DiffPart, type TypedAnswerResult } from "./typedAnswer";
+
+type TypedAnswerProps = {
+  expected: string;
+  language: string;
+  // Replaces the prompt to type the word, e.g. for dictation.
+  placeholder?: string;
+  nounCapitals?: boolean;
+  result: TypedAnswerResult | null;
+  onCheck: (result: TypedAnswerResult) => void;
+  onContinue: (grade: Grade) => void;
+};
+
+const diffStyles: Record<DiffPart["kind"], string> = {
+  same: "text-ink",
+  missing: "bg-moss/25 text-ink underline decoration-moss",
+  extra: "bg-ember/20 text-ember line-through"
+};
+
+export default function TypedAnswer({
+  expected,
+  language,
+  placeholder,
+  nounCapitals,
+  result,
+  onCheck,
+  onContinue
+}: TypedAnswerProps) {
+  const [value, setValue] = useState("");
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    inputRef.current?.focus();
+  }, []);
+
+  const submit = () => {
+    if (result) {
+      onContinue(result.grade);
+      return;
+    }
+    onCheck(gradeTypedAnswer(expected, value, { nounCapitals }));
+  };
+
+  return (
+    <div className="mt-4 w-full max-w-md">
+      <form
+        className="flex gap-2"
+        onSubmit={(event) => {
+          event.preventDefault();
+          submit();
+        }}
+      >
+        <input
+          ref={inputRef}
+          type="text"
+          value={value}
+          readOnly={Boolean(result)}
+          onChange={(event) => setValue(event.target.value)}
+          placeholder={placeholder ?? `Type the ${language} word`}
+          autoComplete="off"
+          autoCapitalize="off"
+          spellCheck={false}
+          lang="de"
+          className="flex-1 rounded-xl border border-ink/15 bg-white/80 px-3 py-2 text-base text-ink"
+        />
+        <button
+          type="submit"
+          className="rounded-xl bg-ink text-linen px-4 py-2 text-sm font-semibold shadow-soft hover:shadow-card transition"
+        >
+          {result ? "Continue" : "Check"}
+        </button>
+      </form>
+      {result && (
+        <div className="mt-3 text-left text-sm">
+          <p className="font-mono text-base">
+            {result.diff.map((part, index) => (
+              <span key={index} className={diffStyles[part.kind]}>
+                {part.text}
+              </span>
+            ))}
+          </p>
+          {result.messages.length === 0 ? (
+            <p className="mt-2 text-moss">Correct!</p>
+          ) : (
+            <ul className="mt-2 space-y-1 text-ink/70">
+              {result.messages.map((message) => (
+                <li key={message}>{message}</li>
+              ))}
+            </ul>
+          )}
+          <p className="mt-2 text-xs text-ink/50">
+            Enter continues as {gradeLabel(result.grade)}, or pick another grade below.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
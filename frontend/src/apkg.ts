@@ -0,0 +1,186 @@
+import { unzipSync } from "fflate";
+import sqlWasmUrl from "sql.js/dist/sql-wasm.wasm?url";
+import type { Database } from "sql.js";
+import { CARD_FIELDS, type CardField, type LegacyCard } from "./types";
+
+// Port of tools/apkg_to_deck.py that runs in the browser: unzip the package, read the
+// `notes` table with SQLite compiled to WASM, and let the user pick the field mapping.
+
+const SOUND_PATTERN = /\[sound:([^\]]+)\]/g;
+
+export type FieldMapping = Record<CardField, number | null>;
+
+export type ApkgNote = {
+  id: string;
+  fields: string[];
+  sounds: string[];
+  tags: string[];
+};
+
+export type ApkgPackage = {
+  title: string;
+  fieldNames: string[];
+  notes: ApkgNote[];
+  media: Map<string, Uint8Array>;
+};
+
+export type ImportedDeck = {
+  cards: LegacyCard[];
+  media: Array<{ name: string; blob: Blob }>;
+};
+
+// Tags become spaces so that "a<br>b" keeps two words; the browser decodes every entity
+// in what is left, `&amp;` and `&quot;` as much as `&nbsp;`.
+export function stripHtml(value: string) {
+  if (!value) return "";
+  const text = value.replace(/<[^>]+>/g, " ");
+  const decoded = new DOMParser().parseFromString(text, "text/html").documentElement.textContent ?? "";
+  return decoded.replace(/\s+/g, " ").trim();
+}
+
+export function extractSound(value: string): [string, string[]] {
+  if (!value) return ["", []];
+  const sounds = Array.from(value.matchAll(SOUND_PATTERN), (match) => match[1]);
+  return [value.replace(SOUND_PATTERN, ""), sounds];
+}
+
+export function slugify(value: string) {
+  const dashed = value
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9\s_-]/g, "")
+    .replace(/[\s_-]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  return dashed || "deck";
+}
+
+// Same layout the Python converter assumes: field 0 is the sort field, 1–4 hold the card.
+export function defaultFieldMapping(fieldCount: number): FieldMapping {
+  const mapping = {} as FieldMapping;
+  CARD_FIELDS.forEach((field, index) => {
+    mapping[field] = index + 1 < fieldCount ? index + 1 : index < fieldCount ? index : null;
+  });
+  return mapping;
+}
+
+function audioMimeType(name: string) {
+  const extension = name.split(".").pop()?.toLowerCase();
+  if (extension === "ogg" || extension === "oga") return "audio/ogg";
+  if (extension === "wav") return "audio/wav";
+  if (extension === "m4a" || extension === "aac") return "audio/mp4";
+  return "audio/mpeg";
+}
+
+function readMediaMap(files: Record<string, Uint8Array>) {
+  const raw = files.media;
+  if (!raw) return {} as Record<string, string>;
+  try {
+    return JSON.parse(new TextDecoder().decode(raw)) as Record<string, string>;
+  } catch {
+    throw new Error("This package uses the newer compressed media format. Export it from Anki with \"Support older Anki versions\" enabled.");
+  }
+}
+
+function readFieldNames(db: Database, notes: Array<{ mid: string }>) {
+  const result = db.exec("SELECT models FROM col");
+  const rawModels = result[0]?.values[0]?.[0];
+  if (typeof rawModels !== "string" || rawModels.length === 0) return [];
+  const models = JSON.parse(rawModels) as Record<string, { flds?: Array<{ name: string; ord: number }> }>;
+  const counts = new Map<string, number>();
+  notes.forEach((note) => counts.set(note.mid, (counts.get(note.mid) ?? 0) + 1));
+  const [mostUsed] = [...counts.entries()].sort((a, b) => b[1] - a[1])[0] ?? [];
+  const fields = mostUsed ? models[mostUsed]?.flds ?? [] : [];
+  return [...fields].sort((a, b) => a.ord - b.ord).map((field) => field.name);
+}
+
+export async function readApkg(file: File): Promise<ApkgPackage> {
+  let files: Record<string, Uint8Array>;
+  try {
+    files = unzipSync(new Uint8Array(await file.arrayBuffer()));
+  } catch {
+    throw new Error(`${file.name} is not a valid .apkg archive.`);
+  }
+  const collectionName = ["collection.anki21", "collection.anki2"].find((name) => name in files);
+  if (!collectionName) {
+    const hint = "collection.anki21b" in files ? " It only contains the newer Anki format; re-export with \"Support older Anki versions\" enabled." : "";
+    throw new Error(`APKG collection not found.${hint}`);
+  }
+  const mediaMap = readMediaMap(files);
+
+  // sql.js is only needed here, so keep it out of the main bundle.
+  const { default: initSqlJs } = await import("sql.js");
+  const SQL = await initSqlJs({ locateFile: () => sqlWasmUrl });
+  const db = new SQL.Database(files[collectionName]);
+  let notes: ApkgNote[];
+  let fieldNames: string[];
+  try {
+    const rows = db.exec("SELECT id, mid, flds, tags FROM notes ORDER BY id")[0]?.values ?? [];
+    const rawNotes = rows.map(([id, mid, flds, tags]) => ({
+      id: String(id),
+      mid: String(mid),
+      flds: String(flds ?? ""),
+      tags: String(tags ?? "")
+    }));
+    fieldNames = readFieldNames(db, rawNotes);
+    notes = rawNotes.map((note) => {
+      const fields: string[] = [];
+      const sounds: string[] = [];
+      for (const field of note.flds ? note.flds.split("\x1f") : []) {
+        const [cleaned, fieldSounds] = extractSound(field);
+        fields.push(stripHtml(cleaned));
+        sounds.push(...fieldSounds);
+      }
+      return { id: note.id, fields, sounds, tags: note.tags.split(/\s+/).filter(Boolean) };
+    });
+  } finally {
+    db.close();
+  }
+
+  const fieldCount = Math.max(fieldNames.length, ...notes.map((note) => note.fields.length), 0);
+  while (fieldNames.length < fieldCount) {
+    fieldNames.push(`Field ${fieldNames.length + 1}`);
+  }
+
+  const media = new Map<string, Uint8Array>();
+  for (const [key, name] of Object.entries(mediaMap)) {
+    if (files[key]) media.set(name, files[key]);
+  }
+
+  return { title: file.name.replace(/\.apkg$/i, "").replace(/_/g, " ").trim(), fieldNames, notes, media };
+}
+
+export function buildImportedDeck(pkg: ApkgPackage, mapping: FieldMapping, includeAudio: boolean): ImportedDeck {
+  const cards: LegacyCard[] = [];
+  const media: ImportedDeck["media"] = [];
+  const storedMedia = new Set<string>();
+
+  for (const note of pkg.notes) {
+    const read = (field: CardField) => {
+      const position = mapping[field];
+      return position === null ? "" : note.fields[position] ?? "";
+    };
+    const card = {
+      id: note.id,
+      note_id: note.id,
+      de_word: read("de_word"),
+      de_sentence: read("de_sentence"),
+      en_word: read("en_word"),
+      en_sentence: read("en_sentence"),
+      audio_url: null as string | null,
+      tags: note.tags
+    };
+    if (!card.de_word && !card.de_sentence && !card.en_word && !card.en_sentence) continue;
+
+    const soundFile = includeAudio ? note.sounds.find((name) => pkg.media.has(name)) : undefined;
+    if (soundFile) {
+      card.audio_url = `media/${soundFile}`;
+      if (!storedMedia.has(soundFile)) {
+        storedMedia.add(soundFile);
+        media.push({ name: soundFile, blob: new Blob([pkg.media.get(soundFile)!], { type: audioMimeType(soundFile) }) });
+      }
+    }
+    cards.push(card);
+  }
+
+  return { cards, media };
+}
@@ -0,0 +1,189 @@
+import { resolveCardAudio } from "./deck";
+import { splitHeadword } from "./german";
+import type { Card, Deck } from "./types";
+
+export type PlaybackRate = 0.75 | 1 | 1.25;
+
+export const PLAYBACK_RATES: PlaybackRate[] = [0.75, 1, 1.25];
+
+// "show" plays whenever the front side comes into view, "reveal" on every flip.
+export type AutoplaySetting = "off" | "show" | "reveal";
+
+export type AudioSettings = {
+  autoplay: AutoplaySetting;
+  rate: PlaybackRate;
+  // voiceURI of the speechSynthesis voices; null picks the browser's default for the deck language.
+  wordVoice: string | null;
+  sentenceVoice: string | null;
+};
+
+export type AudioTarget = "word" | "sentence";
+
+export type AudioSource = "file" | "speech";
+
+export type PlayResult = {
+  source: AudioSource;
+  // Set when the clip failed and the browser voice stood in for it.
+  fallbackReason?: string;
+};
+
+export type AudioPlayer = {
+  play: (deck: Deck, card: Card, target: AudioTarget, settings: AudioSettings) => Promise<PlayResult>;
+  preload: (deck: Deck, card: Card) => void;
+  stop: () => void;
+};
+
+const PRELOAD_LIMIT = 4;
+
+export function defaultAudioSettings(): AudioSettings {
+  return { autoplay: "reveal", rate: 1, wordVoice: null, sentenceVoice: null };
+}
+
+export function sanitizeAudioSettings(value: unknown): AudioSettings {
+  const defaults = defaultAudioSettings();
+  if (!value || typeof value !== "object") return defaults;
+  const parsed = value as Partial<AudioSettings>;
+  return {
+    autoplay: parsed.autoplay === "off" || parsed.autoplay === "show" ? parsed.autoplay : defaults.autoplay,
+    rate: PLAYBACK_RATES.includes(parsed.rate as PlaybackRate) ? (parsed.rate as PlaybackRate) : defaults.rate,
+    wordVoice: typeof parsed.wordVoice === "string" ? parsed.wordVoice : null,
+    sentenceVoice: typeof parsed.sentenceVoice === "string" ? parsed.sentenceVoice : null
+  };
+}
+
+export function isSpeechSupported() {
+  return typeof window !== "undefined" && "speechSynthesis" in window;
+}
+
+// Voices for the deck's front language, matched on the language alone so a de-AT voice
+// can read a de-DE deck.
+export function voicesFor(language: string): SpeechSynthesisVoice[] {
+  if (!isSpeechSupported()) return [];
+  const primary = language.toLowerCase().split("-")[0];
+  return window.speechSynthesis.getVoices().filter((voice) => voice.lang.toLowerCase().split(/[-_]/)[0] === primary);
+}
+
+// Voices load asynchronously in most browsers; the list is empty until this fires.
+export function onVoicesChanged(callback: () => void) {
+  if (!isSpeechSupported()) return () => undefined;
+  window.speechSynthesis.addEventListener("voiceschanged", callback);
+  return () => window.speechSynthesis.removeEventListener("voiceschanged", callback);
+}
+
+export function hasSpeech(card: Card, target: AudioTarget) {
+  return isSpeechSupported() && Boolean(speechText(card, target));
+}
+
+// German words are spoken without their plural notation: "die Bitte, -n" reads as
+// "die Bitte". Only German cards carry grammar.
+function speechText(card: Card, target: AudioTarget) {
+  if (target === "sentence") return card.de_sentence.trim();
+  if (!card.grammar) return card.de_word.trim();
+  const headword = splitHeadword(card.de_word);
+  return [headword.article, headword.stem].filter(Boolean).join(" ").trim() || card.de_word.trim();
+}
+
+function describeError(reason: unknown) {
+  if (reason instanceof DOMException && reason.name === "NotAllowedError") {
+    return "The browser blocked playback until you interact with the page. Press play to hear it.";
+  }
+  return reason instanceof Error ? reason.message : String(reason);
+}
+
+function speak(text: string, language: string, voiceUri: string | null, rate: PlaybackRate) {
+  return new Promise<void>((resolve, reject) => {
+    if (!isSpeechSupported()) {
+      reject(new Error("This browser has no speech synthesis."));
+      return;
+    }
+    const voices = voicesFor(language);
+    const utterance = new SpeechSynthesisUtterance(text);
+    utterance.lang = language;
+    utterance.rate = rate;
+    const voice = voices.find((item) => item.voiceURI === voiceUri) ?? voices[0];
+    if (voice) utterance.voice = voice;
+    utterance.onend = () => resolve();
+    utterance.onerror = (event) => {
+      // Cancelling to play something else is not a failure.
+      if (event.error === "interrupted" || event.error === "canceled") resolve();
+      else reject(new Error(`Speech failed: ${event.error}`));
+    };
+    window.speechSynthesis.cancel();
+    window.speechSynthesis.speak(utterance);
+  });
+}
+
+export function createAudioPlayer(): AudioPlayer {
+  // Clips keyed by card audio path, kept loaded so the next card starts without a delay.
+  const clips = new Map<string, Promise<HTMLAudioElement>>();
+  let current: HTMLAudioElement | null = null;
+
+  const loadClip = (deck: Deck, url: string) => {
+    const key = `${deck.id}:${url}`;
+    let clip = clips.get(key);
+    if (!clip) {
+      clip = resolveCardAudio(deck, url).then((src) => {
+        const audio = new Audio();
+        audio.preload = "auto";
+        audio.src = src;
+        return audio;
+      });
+      clip.catch(() => clips.delete(key));
+      clips.set(key, clip);
+      while (clips.size > PRELOAD_LIMIT) {
+        const oldest = clips.keys().next().value;
+        if (oldest === undefined) break;
+        clips.delete(oldest);
+      }
+    }
+    return clip;
+  };
+
+  const stop = () => {
+    if (current) {
+      current.pause();
+      current.currentTime = 0;
+      current = null;
+    }
+    if (isSpeechSupported()) window.speechSynthesis.cancel();
+  };
+
+  const playFile = async (deck: Deck, url: string, rate: PlaybackRate) => {
+    const audio = await loadClip(deck, url);
+    audio.currentTime = 0;
+    audio.playbackRate = rate;
+    current = audio;
+    await audio.play();
+  };
+
+  return {
+    async play(deck, card, target, settings) {
+      stop();
+      const voice = target === "word" ? settings.wordVoice : settings.sentenceVoice;
+      if (target === "word" && card.audio_url) {
+        try {
+          await playFile(deck, card.audio_url, settings.rate);
+          return { source: "file" };
+        } catch (reason) {
+          // A blocked autoplay would block the voice as well; anything else falls back to it.
+          if ((reason instanceof DOMException && reason.name === "NotAllowedError") || !hasSpeech(card, target)) {
+            throw new Error(describeError(reason));
+          }
+          await speak(speechText(card, target), deck.schema.languages.front, voice, settings.rate);
+          return { source: "speech", fallbackReason: `The audio file could not be played (${describeError(reason)}).` };
+        }
+      }
+      if (!hasSpeech(card, target)) {
+        throw new Error(
+          isSpeechSupported() ? "There is nothing to read out on this card." : "This card has no audio and the browser cannot read it out."
+        );
+      }
+      await speak(speechText(card, target), deck.schema.languages.front, voice, settings.rate);
+      return { source: "speech" };
+    },
+    preload(deck, card) {
+      if (card.audio_url) void loadClip(deck, card.audio_url).catch(() => undefined);
+    },
+    stop
+  };
+}
@@ -0,0 +1,127 @@
+import { describe, expect, it } from "vitest";
+import { createBackup, parseBackup, planImport } from "./backup";
+import type { ReviewLogEntry } from "./reviewLog";
+import { LEGACY_SCHEMA } from "./schema";
+import type { CardSchedule } from "./scheduler";
+import { defaultSettings, emptyProgress, type ProgressState, type SettingsState } from "./storage";
+import type { Card, Deck } from "./types";
+
+const NOW = new Date(2026, 3, 15, 12).getTime();
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function card(id: string): Card {
+  return {
+    id,
+    note_id: `note-${id}`,
+    fields: {},
+    de_word: `Wort ${id}`,
+    de_sentence: "",
+    en_word: `word ${id}`,
+    en_sentence: "",
+    audio_url: null,
+    tags: []
+  };
+}
+
+const deck: Deck = {
+  id: "test",
+  title: "Test",
+  schema: LEGACY_SCHEMA,
+  cards: [card("a"), card("b"), card("c")],
+  issues: []
+};
+
+function schedule(interval: number, lastReviewed = NOW): CardSchedule {
+  return { interval, ease: 2.5, due: lastReviewed + interval * DAY_MS, lapses: 0, reps: 1, lastReviewed };
+}
+
+function progress(patch: Partial<ProgressState> = {}): ProgressState {
+  return { ...emptyProgress(), ...patch };
+}
+
+function review(cardId: string, timestamp: number): ReviewLogEntry {
+  return {
+    deckId: deck.id,
+    cardId,
+    timestamp,
+    grade: "good",
+    mode: "flashcards",
+    responseMs: 1000,
+    flipped: true,
+    audioPlayed: false,
+    previousInterval: null,
+    direction: "de-en"
+  };
+}
+
+function roundTrip(state: { progress: ProgressState; settings: SettingsState; reviews: ReviewLogEntry[] }) {
+  return parseBackup(JSON.stringify(createBackup(deck, state)));
+}
+
+describe("backup", () => {
+  describe("importing a backup of the current state", () => {
+    const defaults = defaultSettings();
+    const current = {
+      progress: progress({ schedules: { a: schedule(3) }, missedIds: ["b"], changedAt: { a: NOW, b: NOW } }),
+      settings: { ...defaults, audio: { ...defaults.audio, rate: 1.25 as const }, session: { ...defaults.session, goalAmount: 30 } },
+      reviews: [review("a", NOW)]
+    };
+
+    it("changes nothing when it replaces", () => {
+      const plan = planImport(roundTrip(current), deck, current, "replace");
+      expect(plan.changes).toMatchObject({
+        scheduledAdded: 0,
+        scheduledUpdated: 0,
+        scheduledRemoved: 0,
+        missedAdded: 0,
+        missedRemoved: 0,
+        reviewsAdded: 0,
+        reviewsRemoved: 0,
+        settingsChanged: []
+      });
+    });
+
+    it("changes nothing when it merges", () => {
+      const plan = planImport(roundTrip(current), deck, current, "merge");
+      expect(plan.progress.schedules).toEqual(current.progress.schedules);
+      expect(plan.progress.missedIds).toEqual(current.progress.missedIds);
+      expect(plan.reviews).toEqual([]);
+      expect(plan.changes.settingsChanged).toEqual([]);
+    });
+  });
+
+  describe("merging drill misses", () => {
+    const settings = defaultSettings();
+
+    it("keeps the side that changed a card last", () => {
+      const current = {
+        progress: progress({ genderMissedIds: ["a"], clozeMissedIds: ["b"], changedAt: { a: NOW - DAY_MS, b: NOW } }),
+        settings,
+        reviews: []
+      };
+      // Cleared "a" after this device missed it, and missed "b" before this device cleared it.
+      const imported = {
+        progress: progress({ genderMissedIds: ["b"], clozeMissedIds: [], changedAt: { a: NOW, b: NOW - DAY_MS } }),
+        settings,
+        reviews: []
+      };
+      const plan = planImport(roundTrip(imported), deck, current, "merge");
+      expect(plan.progress.genderMissedIds).toEqual([]);
+      expect(plan.progress.clozeMissedIds).toEqual(["b"]);
+    });
+
+    it("keeps cards missed on either side when neither knows when they changed", () => {
+      const current = { progress: progress({ genderMissedIds: ["a"] }), settings, reviews: [] };
+      const imported = { progress: progress({ genderMissedIds: ["b"] }), settings, reviews: [] };
+      const plan = planImport(roundTrip(imported), deck, current, "merge");
+      expect(plan.progress.genderMissedIds).toEqual(["a", "b"]);
+    });
+  });
+
+  it("lists the settings a replacing import changes", () => {
+    const current = { progress: progress(), settings: defaultSettings(), reviews: [] };
+    const imported = { ...current.settings, audio: { ...current.settings.audio, rate: 0.75 as const } };
+    const plan = planImport(roundTrip({ ...current, settings: imported }), deck, current, "replace");
+    expect(plan.changes.settingsChanged).toEqual(["audio"]);
+  });
+});
@@ -0,0 +1,420 @@
+import type { ReviewLogEntry } from "./reviewLog";
+import { GRADES, isDue, type CardSchedule } from "./scheduler";
+import { createIdResolver, referencedCardIds } from "./reconcile";
+import {
+  PROGRESS_VERSION,
+  SETTINGS_VERSION,
+  upgradeProgress,
+  upgradeSettings,
+  type ProgressState,
+  type SettingsState
+} from "./storage";
+import type { Deck } from "./types";
+
+// Portable backups of one deck's state. Cards are referenced by `id` with their
+// `note_id` alongside, so a backup still applies after the deck was regenerated.
+
+export const BACKUP_FORMAT = "deckster-backup";
+// Since v4 a backup records the storage versions of its progress and settings, which are
+// upgraded with the same migrations as stored data. Up to v3 the backup version was that
+// of progress, and settings were in the v1 shape in v1 backups and the v2 shape after.
+export const BACKUP_VERSION = 4;
+
+export type BackupFile = {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  progressVersion: number;
+  settingsVersion: number;
+  exportedAt: string;
+  deck: { id: string; title: string };
+  cards: Array<{ id: string; note_id: string }>;
+  progress: ProgressState;
+  settings: SettingsState;
+  reviews: ReviewLogEntry[];
+};
+
+export type ImportMode = "merge" | "replace";
+
+export type ImportChanges = {
+  matchedById: number;
+  matchedByNoteId: number;
+  unmatched: string[];
+  scheduledAdded: number;
+  scheduledUpdated: number;
+  scheduledRemoved: number;
+  missedAdded: number;
+  missedRemoved: number;
+  reviewsAdded: number;
+  reviewsRemoved: number;
+  settingsChanged: Array<keyof SettingsState>;
+};
+
+export type ImportPlan = {
+  mode: ImportMode;
+  progress: ProgressState;
+  settings: SettingsState;
+  reviews: ReviewLogEntry[];
+  changes: ImportChanges;
+};
+
+type CurrentState = {
+  progress: ProgressState;
+  settings: SettingsState;
+  reviews: ReviewLogEntry[];
+};
+
+export function createBackup(deck: Deck, state: CurrentState): BackupFile {
+  const referenced = new Set([...referencedCardIds(state.progress), ...state.reviews.map((entry) => entry.cardId)]);
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    progressVersion: PROGRESS_VERSION,
+    settingsVersion: SETTINGS_VERSION,
+    exportedAt: new Date().toISOString(),
+    deck: { id: deck.id, title: deck.title },
+    cards: deck.cards.filter((card) => referenced.has(card.id)).map((card) => ({ id: card.id, note_id: card.note_id })),
+    progress: state.progress,
+    settings: state.settings,
+    reviews: state.reviews.map(({ id: _id, ...entry }) => entry)
+  };
+}
+
+function isReviewEntry(value: unknown): value is ReviewLogEntry {
+  if (!value || typeof value !== "object") return false;
+  const entry = value as Partial<ReviewLogEntry>;
+  return (
+    typeof entry.cardId === "string" &&
+    Number.isFinite(entry.timestamp) &&
+    typeof entry.grade === "string" &&
+    GRADES.includes(entry.grade)
+  );
+}
+
+// Logged answers as written by createBackup, without their database ids.
+export function parseReviews(value: unknown, deckId: string): ReviewLogEntry[] {
+  return (Array.isArray(value) ? value.filter(isReviewEntry) : []).map((entry) => ({
+    deckId,
+    cardId: entry.cardId,
+    timestamp: Number(entry.timestamp),
+    grade: entry.grade,
+    mode: entry.mode ?? "flashcards",
+    responseMs: Number.isFinite(entry.responseMs) ? Number(entry.responseMs) : 0,
+    flipped: Boolean(entry.flipped),
+    audioPlayed: Boolean(entry.audioPlayed),
+    ...(Number.isFinite(entry.audioPlays) ? { audioPlays: Number(entry.audioPlays) } : {}),
+    previousInterval: Number.isFinite(entry.previousInterval) ? Number(entry.previousInterval) : null,
+    ...(entry.direction === "de-en" || entry.direction === "en-de" ? { direction: entry.direction } : {})
+  }));
+}
+
+export function parseBackup(text: string): BackupFile {
+  let raw: Partial<BackupFile>;
+  try {
+    raw = JSON.parse(text) as Partial<BackupFile>;
+  } catch {
+    throw new Error("The file is not valid JSON.");
+  }
+  if (!raw || raw.format !== BACKUP_FORMAT) {
+    throw new Error("This is not a Deckster Lab backup file.");
+  }
+  if (!Number.isInteger(raw.version) || Number(raw.version) < 1) {
+    throw new Error("The backup has no valid version number.");
+  }
+  if (Number(raw.version) > BACKUP_VERSION) {
+    throw new Error(`The backup was written by a newer version (v${raw.version}) of the app.`);
+  }
+  if (!raw.deck || typeof raw.deck.id !== "string") {
+    throw new Error("The backup does not say which deck it belongs to.");
+  }
+  const version = Number(raw.version);
+  const progressVersion = version >= 4 ? Number(raw.progressVersion) : version;
+  const settingsVersion = version >= 4 ? Number(raw.settingsVersion) : Math.min(version, 2);
+  if (![progressVersion, settingsVersion].every((value) => Number.isInteger(value) && value >= 1)) {
+    throw new Error("The backup does not say which version its progress and settings are in.");
+  }
+  if (progressVersion > PROGRESS_VERSION || settingsVersion > SETTINGS_VERSION) {
+    throw new Error("The backup was written by a newer version of the app. Update this one first.");
+  }
+  const cards = Array.isArray(raw.cards)
+    ? raw.cards.filter(
+        (card): card is { id: string; note_id: string } =>
+          Boolean(card) && typeof card.id === "string" && typeof card.note_id === "string"
+      )
+    : [];
+  const reviews = parseReviews(raw.reviews, raw.deck.id);
+  return {
+    format: BACKUP_FORMAT,
+    version,
+    progressVersion,
+    settingsVersion,
+    exportedAt: typeof raw.exportedAt === "string" ? raw.exportedAt : "",
+    deck: { id: raw.deck.id, title: typeof raw.deck.title === "string" ? raw.deck.title : raw.deck.id },
+    cards,
+    progress: upgradeProgress(raw.progress ?? null, progressVersion),
+    settings: upgradeSettings(raw.settings ?? null, settingsVersion),
+    reviews
+  };
+}
+
+// Logged answers are identified by card, time, mode and direction across devices.
+export function reviewKey(entry: ReviewLogEntry) {
+  return `${entry.cardId}|${entry.timestamp}|${entry.mode}|${entry.direction ?? "de-en"}`;
+}
+
+type Track = {
+  missedIds: string[];
+  schedules: Record<string, CardSchedule>;
+};
+
+// Per card, whichever side reviewed it last wins, including its missed flag.
+function mergeTrack(current: Track, imported: Track): Track {
+  const schedules = { ...current.schedules };
+  for (const [id, schedule] of Object.entries(imported.schedules)) {
+    if (!schedules[id] || schedule.lastReviewed > schedules[id].lastReviewed) {
+      schedules[id] = schedule;
+    }
+  }
+  const currentMissed = new Set(current.missedIds);
+  const importedMissed = new Set(imported.missedIds);
+  const missedIds = [...new Set([...current.missedIds, ...imported.missedIds])].filter((id) => {
+    const importedWins = (imported.schedules[id]?.lastReviewed ?? -1) > (current.schedules[id]?.lastReviewed ?? -1);
+    if (imported.schedules[id] || current.schedules[id]) {
+      return importedWins ? importedMissed.has(id) : currentMissed.has(id);
+    }
+    return true;
+  });
+  return { missedIds, schedules };
+}
+
+// The gender and cloze drills keep no schedules, so the change times progress records per
+// card decide instead. Cards without one on either side stay missed if either side missed them.
+function mergeMissed(
+  currentIds: string[],
+  importedIds: string[],
+  currentChangedAt: Record<string, number>,
+  importedChangedAt: Record<string, number>
+) {
+  const currentMissed = new Set(currentIds);
+  const importedMissed = new Set(importedIds);
+  return [...new Set([...currentIds, ...importedIds])].filter((id) => {
+    const currentTime = currentChangedAt[id] ?? -1;
+    const importedTime = importedChangedAt[id] ?? -1;
+    if (currentTime === importedTime) return currentMissed.has(id) || importedMissed.has(id);
+    return importedTime > currentTime ? importedMissed.has(id) : currentMissed.has(id);
+  });
+}
+
+function countTrackChanges(before: Track, after: Track) {
+  const scheduledIds = new Set([...Object.keys(before.schedules), ...Object.keys(after.schedules)]);
+  let scheduledAdded = 0;
+  let scheduledUpdated = 0;
+  let scheduledRemoved = 0;
+  scheduledIds.forEach((id) => {
+    const previous = before.schedules[id];
+    const next = after.schedules[id];
+    if (!previous && next) scheduledAdded += 1;
+    else if (previous && !next) scheduledRemoved += 1;
+    else if (previous && next && JSON.stringify(previous) !== JSON.stringify(next)) scheduledUpdated += 1;
+  });
+  const beforeMissed = new Set(before.missedIds);
+  const afterMissed = new Set(after.missedIds);
+  return {
+    scheduledAdded,
+    scheduledUpdated,
+    scheduledRemoved,
+    missedAdded: after.missedIds.filter((id) => !beforeMissed.has(id)).length,
+    missedRemoved: before.missedIds.filter((id) => !afterMissed.has(id)).length
+  };
+}
+
+export function planImport(backup: BackupFile, deck: Deck, current: CurrentState, mode: ImportMode): ImportPlan {
+  // Cards are matched by id first, then by note id.
+  const { resolve, stats } = createIdResolver(deck.cards, new Map(backup.cards.map((card) => [card.id, card.note_id])));
+  const remapIds = (ids: string[]) =>
+    [...new Set(ids.map(resolve).filter((id): id is string => Boolean(id)))];
+  const remapKeys = <T>(values: Record<string, T>) => {
+    const remapped: Record<string, T> = {};
+    for (const [id, value] of Object.entries(values)) {
+      const target = resolve(id);
+      if (target) remapped[target] = value;
+    }
+    return remapped;
+  };
+  const remapTrack = (missedIds: string[], schedules: Record<string, CardSchedule>): Track => ({
+    missedIds: remapIds(missedIds),
+    schedules: remapKeys(schedules)
+  });
+
+  const forward = remapTrack(backup.progress.missedIds, backup.progress.schedules);
+  const reverse = remapTrack(backup.progress.reverseMissedIds, backup.progress.reverseSchedules);
+  const importedGenderMissed = remapIds(backup.progress.genderMissedIds);
+  const importedClozeMissed = remapIds(backup.progress.clozeMissedIds);
+  const importedChangedAt = remapKeys(backup.progress.changedAt);
+  const importedReviews = backup.reviews.flatMap((entry) => {
+    const target = resolve(entry.cardId);
+    return target ? [{ ...entry, deckId: deck.id, cardId: target }] : [];
+  });
+
+  let progress: ProgressState;
+  let settings: SettingsState;
+  let reviews: ReviewLogEntry[];
+
+  if (mode === "replace") {
+    progress = {
+      ...backup.progress,
+      missedIds: forward.missedIds,
+      schedules: forward.schedules,
+      reverseMissedIds: reverse.missedIds,
+      reverseSchedules: reverse.schedules,
+      genderMissedIds: importedGenderMissed,
+      clozeMissedIds: importedClozeMissed,
+      session: { ...backup.progress.session, missedIds: remapIds(backup.progress.session.missedIds) },
+      noteIds: remapKeys(backup.progress.noteIds),
+      changedAt: importedChangedAt,
+      // Undo would restore states from before the import.
+      history: []
+    };
+    settings = backup.settings;
+    reviews = importedReviews;
+  } else {
+    const mergedForward = mergeTrack(
+      { missedIds: current.progress.missedIds, schedules: current.progress.schedules },
+      forward
+    );
+    const mergedReverse = mergeTrack(
+      { missedIds: current.progress.reverseMissedIds, schedules: current.progress.reverseSchedules },
+      reverse
+    );
+    progress = {
+      ...current.progress,
+      missedIds: mergedForward.missedIds,
+      schedules: mergedForward.schedules,
+      reverseMissedIds: mergedReverse.missedIds,
+      reverseSchedules: mergedReverse.schedules,
+      genderMissedIds: mergeMissed(
+        current.progress.genderMissedIds,
+        importedGenderMissed,
+        current.progress.changedAt,
+        importedChangedAt
+      ),
+      clozeMissedIds: mergeMissed(
+        current.progress.clozeMissedIds,
+        importedClozeMissed,
+        current.progress.changedAt,
+        importedChangedAt
+      ),
+      history: []
+    };
+    settings = current.settings;
+    const known = new Set(current.reviews.map(reviewKey));
+    reviews = importedReviews.filter((entry) => !known.has(reviewKey(entry)));
+  }
+
+  const before = current.progress;
+  const forwardChanges = countTrackChanges(before, progress);
+  const reverseChanges = countTrackChanges(
+    { missedIds: before.reverseMissedIds, schedules: before.reverseSchedules },
+    { missedIds: progress.reverseMissedIds, schedules: progress.reverseSchedules }
+  );
+  const knownReviews = new Set(current.reviews.map(reviewKey));
+  const keptReviews = new Set(reviews.map(reviewKey));
+  // Several settings are objects, and parsed ones never share them with the current settings.
+  const settingsChanged = (Object.keys(settings) as Array<keyof SettingsState>).filter(
+    (key) => JSON.stringify(settings[key]) !== JSON.stringify(current.settings[key])
+  );
+
+  return {
+    mode,
+    progress,
+    settings,
+    reviews,
+    changes: {
+      ...stats(),
+      scheduledAdded: forwardChanges.scheduledAdded + reverseChanges.scheduledAdded,
+      scheduledUpdated: forwardChanges.scheduledUpdated + reverseChanges.scheduledUpdated,
+      scheduledRemoved: forwardChanges.scheduledRemoved + reverseChanges.scheduledRemoved,
+      missedAdded: forwardChanges.missedAdded + reverseChanges.missedAdded,
+      missedRemoved: forwardChanges.missedRemoved + reverseChanges.missedRemoved,
+      reviewsAdded: reviews.filter((entry) => !knownReviews.has(reviewKey(entry))).length,
+      reviewsRemoved: mode === "replace" ? current.reviews.filter((entry) => !keptReviews.has(reviewKey(entry))).length : 0,
+      settingsChanged
+    }
+  };
+}
+
+function csvCell(value: string | number | null) {
+  const text = value === null ? "" : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function cardStatus(schedule: CardSchedule | undefined, missed: boolean) {
+  if (missed) return "missed";
+  if (!schedule) return "new";
+  return schedule.interval >= 21 ? "mature" : "learning";
+}
+
+// One row per card with its study status, meant for spreadsheets rather than re-import.
+export function buildProgressCsv(deck: Deck, progress: ProgressState, reviews: ReviewLogEntry[], now: number) {
+  const missed = new Set(progress.missedIds);
+  const reverseMissed = new Set(progress.reverseMissedIds);
+  const reviewCounts = new Map<string, { reviews: number; misses: number }>();
+  reviews.forEach((entry) => {
+    const counts = reviewCounts.get(entry.cardId) ?? { reviews: 0, misses: 0 };
+    counts.reviews += 1;
+    if (entry.grade === "again") counts.misses += 1;
+    reviewCounts.set(entry.cardId, counts);
+  });
+  const header = [
+    "id",
+    "note_id",
+    "de_word",
+    "en_word",
+    "status",
+    "missed",
+    "due",
+    "due_date",
+    "interval_days",
+    "ease",
+    "lapses",
+    "last_reviewed",
+    "reviews",
+    "misses",
+    "en_de_status",
+    "en_de_due_date"
+  ];
+  const rows = deck.cards.map((card) => {
+    const schedule = progress.schedules[card.id];
+    const counts = reviewCounts.get(card.id);
+    const reverseSchedule = progress.reverseSchedules[card.id];
+    return [
+      card.id,
+      card.note_id,
+      card.de_word,
+      card.en_word,
+      cardStatus(schedule, missed.has(card.id)),
+      missed.has(card.id) ? "yes" : "no",
+      isDue(schedule, now) ? "yes" : "no",
+      schedule ? new Date(schedule.due).toISOString().slice(0, 10) : null,
+      schedule ? schedule.interval : null,
+      schedule ? Number(schedule.ease.toFixed(2)) : null,
+      schedule ? schedule.lapses : null,
+      schedule?.lastReviewed ? new Date(schedule.lastReviewed).toISOString() : null,
+      counts?.reviews ?? 0,
+      counts?.misses ?? 0,
+      cardStatus(reverseSchedule, reverseMissed.has(card.id)),
+      reverseSchedule ? new Date(reverseSchedule.due).toISOString().slice(0, 10) : null
+    ];
+  });
+  return [header, ...rows].map((row) => row.map(csvCell).join(",")).join("\r\n");
+}
+
+export function downloadFile(fileName: string, contents: string, type: string) {
+  const url = URL.createObjectURL(new Blob([contents], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  window.setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -0,0 +1,98 @@
+import { normalizeGerman } from "./german";
+import type { CardSchedule } from "./scheduler";
+import { hasTag } from "./tags";
+import type { Card } from "./types";
+
+export type StatusFilter = "all" | "new" | "missed" | "known";
+
+export type CardSort = "deck" | "german" | "english" | "due" | "lapses";
+
+export type BrowserQuery = {
+  search: string;
+  status: StatusFilter;
+  audioOnly: boolean;
+  duplicatesOnly: boolean;
+  editedOnly: boolean;
+  // null shows cards with any tags or none, "" only cards without tags.
+  tag: string | null;
+  sort: CardSort;
+};
+
+export type BrowserContext = {
+  missedIds: Set<string>;
+  schedules: Record<string, CardSchedule>;
+  editedIds: Set<string>;
+  duplicates: Map<string, string>;
+};
+
+export function defaultBrowserQuery(): BrowserQuery {
+  return { search: "", status: "all", audioOnly: false, duplicatesOnly: false, editedOnly: false, tag: null, sort: "deck" };
+}
+
+// Cards share a headword when article(s) and lemma match, so "der Anschluss" and
+// "der Anschluss, -¨e" group together while "sie" and "Sie" stay apart.
+export function headwordKey(card: Card) {
+  const lemma = card.grammar?.lemma ?? card.de_word;
+  const articles = card.grammar?.articles.join("/") ?? "";
+  return `${articles} ${lemma}`.normalize("NFC").replace(/\s+/g, " ").trim();
+}
+
+// Maps every card whose headword occurs more than once to its group key.
+export function findDuplicateHeadwords(cards: Card[]) {
+  const groups = new Map<string, string[]>();
+  cards.forEach((card) => {
+    const key = headwordKey(card);
+    groups.set(key, [...(groups.get(key) ?? []), card.id]);
+  });
+  const duplicates = new Map<string, string>();
+  groups.forEach((ids, key) => {
+    if (ids.length > 1) ids.forEach((id) => duplicates.set(id, key));
+  });
+  return duplicates;
+}
+
+export function cardStatus(card: Card, context: BrowserContext): Exclude<StatusFilter, "all"> {
+  if (context.missedIds.has(card.id)) return "missed";
+  return context.schedules[card.id] ? "known" : "new";
+}
+
+function searchText(card: Card) {
+  return normalizeGerman([card.de_word, card.de_sentence, card.en_word, card.en_sentence, ...card.tags].join(" "));
+}
+
+export function queryCards(cards: Card[], query: BrowserQuery, context: BrowserContext) {
+  const terms = normalizeGerman(query.search).split(" ").filter(Boolean);
+  const matches = cards.filter((card) => {
+    if (query.status !== "all" && cardStatus(card, context) !== query.status) return false;
+    if (query.audioOnly && !card.audio_url) return false;
+    if (query.duplicatesOnly && !context.duplicates.has(card.id)) return false;
+    if (query.editedOnly && !context.editedIds.has(card.id)) return false;
+    if (query.tag === "" && card.tags.length > 0) return false;
+    if (query.tag && !hasTag(card, query.tag)) return false;
+    if (terms.length === 0) return true;
+    const text = searchText(card);
+    return terms.every((term) => text.includes(term));
+  });
+
+  const deckOrder = new Map(cards.map((card, index) => [card.id, index]));
+  const byDeck = (a: Card, b: Card) => deckOrder.get(a.id)! - deckOrder.get(b.id)!;
+  const collator = new Intl.Collator("de", { sensitivity: "base" });
+  const compare: Record<CardSort, (a: Card, b: Card) => number> = {
+    deck: byDeck,
+    german: (a, b) => collator.compare(a.grammar?.lemma ?? a.de_word, b.grammar?.lemma ?? b.de_word),
+    english: (a, b) => collator.compare(a.en_word, b.en_word),
+    due: (a, b) =>
+      (context.schedules[a.id]?.due ?? Infinity) - (context.schedules[b.id]?.due ?? Infinity),
+    lapses: (a, b) => (context.schedules[b.id]?.lapses ?? 0) - (context.schedules[a.id]?.lapses ?? 0)
+  };
+  const sorted = [...matches].sort((a, b) => compare[query.sort](a, b) || byDeck(a, b));
+
+  // Keeps each duplicate group together, at the position of its first card.
+  if (!query.duplicatesOnly) return sorted;
+  const groups = new Map<string, Card[]>();
+  sorted.forEach((card) => {
+    const key = context.duplicates.get(card.id)!;
+    groups.set(key, [...(groups.get(key) ?? []), card]);
+  });
+  return [...groups.values()].flat();
+}
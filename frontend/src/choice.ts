@@ -0,0 +1,104 @@
+import { hashString } from "./direction";
+import type { CardDirection } from "./storage";
+import type { Card } from "./types";
+
+export type ChoiceOption = {
+  card: Card;
+  label: string;
+};
+
+export type ChoiceQuestion = {
+  options: ChoiceOption[];
+  answerIndex: number;
+};
+
+export type ChoiceResult = {
+  chosenIndex: number;
+  correct: boolean;
+};
+
+export const CHOICE_COUNT = 4;
+
+// How far ahead of the scores the random jitter can push a candidate, so the
+// distractors vary between questions without dropping to unrelated cards.
+const JITTER = 2;
+
+function comparable(value: string) {
+  return value.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+function optionLabel(card: Card, direction: CardDirection) {
+  return direction === "de-en" ? card.en_word : card.de_word;
+}
+
+function similarity(card: Card, candidate: Card, direction: CardDirection, noteDistance: number) {
+  let score = 0;
+  const article = card.grammar?.article;
+  if (article && candidate.grammar?.article === article) score += 3;
+  if (card.grammar && candidate.grammar?.wordClass === card.grammar.wordClass) score += 2;
+  const lengthGap = Math.abs(optionLabel(card, direction).length - optionLabel(candidate, direction).length);
+  if (lengthGap <= 2) score += 2;
+  else if (lengthGap <= 5) score += 1;
+  // Notes were added topic by topic, so nearby note ids tend to share a theme.
+  if (noteDistance <= 5) score += 2;
+  else if (noteDistance <= 20) score += 1;
+  return score;
+}
+
+function noteOrder(cards: Card[]) {
+  const sorted = [...cards].sort((a, b) => {
+    const left = Number(a.note_id);
+    const right = Number(b.note_id);
+    if (Number.isFinite(left) && Number.isFinite(right)) return left - right;
+    return a.note_id.localeCompare(b.note_id);
+  });
+  return new Map(sorted.map((card, position) => [card.id, position]));
+}
+
+// Options are labelled with the side the learner has to produce: English for a
+// German prompt, German for an English one. A card that means the same thing as the
+// answer (another "connection", another "bitte") is never a distractor, and no two
+// options read the same.
+export function buildChoiceQuestion(
+  card: Card,
+  cards: Card[],
+  direction: CardDirection,
+  seed: number
+): ChoiceQuestion {
+  const answerLabel = optionLabel(card, direction);
+  const order = noteOrder(cards);
+  const position = order.get(card.id) ?? 0;
+  const random = (key: string) => hashString(`${seed}:${card.id}:${key}`) / 0xffffffff;
+
+  const ranked = cards
+    .filter(
+      (candidate) =>
+        candidate.id !== card.id &&
+        optionLabel(candidate, direction).trim() &&
+        comparable(candidate.en_word) !== comparable(card.en_word) &&
+        comparable(candidate.de_word) !== comparable(card.de_word)
+    )
+    .map((candidate) => ({
+      candidate,
+      score:
+        similarity(card, candidate, direction, Math.abs((order.get(candidate.id) ?? 0) - position)) +
+        random(candidate.id) * JITTER
+    }))
+    .sort((a, b) => b.score - a.score);
+
+  const options: ChoiceOption[] = [{ card, label: answerLabel }];
+  const labels = new Set([comparable(answerLabel)]);
+  for (const { candidate } of ranked) {
+    if (options.length === CHOICE_COUNT) break;
+    const label = optionLabel(candidate, direction);
+    if (labels.has(comparable(label))) continue;
+    labels.add(comparable(label));
+    options.push({ card: candidate, label });
+  }
+
+  const shuffled = options
+    .map((option) => ({ option, key: random(`order:${option.card.id}`) }))
+    .sort((a, b) => a.key - b.key)
+    .map(({ option }) => option);
+  return { options: shuffled, answerIndex: shuffled.findIndex((option) => option.card.id === card.id) };
+}
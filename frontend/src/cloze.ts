@@ -0,0 +1,337 @@
+import { applyUmlaut, levenshtein, normalizeGerman } from "./german";
+import type { Card } from "./types";
+
+export type ClozeSegment = {
+  text: string;
+  blank: boolean;
+};
+
+export type Cloze = {
+  segments: ClozeSegment[];
+  // The blanked words in sentence order, e.g. "war an" for "an sein".
+  answer: string;
+};
+
+export type ClozeSkip = {
+  card: Card;
+  reason: string;
+};
+
+export type ClozeSet = {
+  items: Array<{ card: Card; cloze: Cloze }>;
+  skipped: ClozeSkip[];
+};
+
+export type ClozeVerdict = "correct" | "close" | "wrong";
+
+type Token = {
+  text: string;
+  start: number;
+  end: number;
+};
+
+const SEPARABLE_PREFIXES = [
+  "zurück",
+  "zusammen",
+  "vorbei",
+  "weiter",
+  "statt",
+  "nach",
+  "fern",
+  "fest",
+  "teil",
+  "weg",
+  "mit",
+  "los",
+  "ein",
+  "aus",
+  "auf",
+  "vor",
+  "bei",
+  "her",
+  "hin",
+  "ab",
+  "an",
+  "um",
+  "zu"
+];
+
+const INSEPARABLE_PREFIXES = ["be", "emp", "ent", "er", "ge", "miss", "ver", "zer"];
+
+const ADJECTIVE_ENDINGS = ["", "e", "em", "en", "er", "es"];
+
+// Prepositions fused with the article: "ins Kino", "zum Bahnhof".
+const CONTRACTIONS: Record<string, string[]> = {
+  an: ["am", "ans"],
+  bei: ["beim"],
+  in: ["im", "ins"],
+  von: ["vom"],
+  zu: ["zum", "zur"]
+};
+
+// Forms regular conjugation cannot produce, for the strong and irregular verbs of the
+// A1 list. Prefixed verbs (anfangen, verstehen, …) are derived from their base verb.
+const IRREGULAR_FORMS: Record<string, string> = {
+  sein: "bin bist ist sind seid sei war warst waren wart gewesen",
+  haben: "habe hab hast hat habt hatte hattest hatten hattet gehabt",
+  werden: "wirst wird wurde wurdest wurden geworden",
+  können: "kann kannst konnte konntest konnten gekonnt",
+  müssen: "muss musst musste musstest mussten gemusst",
+  dürfen: "darf darfst durfte durftest durften gedurft",
+  sollen: "soll sollst sollte solltest sollten",
+  wollen: "will willst wollte wolltest wollten gewollt",
+  mögen: "mag magst mochte mochten gemocht möchte möchtest möchten möchtet",
+  wissen: "weiß weißt wusste wussten gewusst",
+  tun: "tue tust tut tat taten getan",
+  gehen: "ging gingen gegangen",
+  kommen: "kam kamen gekommen",
+  sehen: "sieh sieht siehst sah sahen gesehen",
+  geben: "gib gibt gibst gab gaben gegeben",
+  nehmen: "nimm nimmt nimmst nahm nahmen genommen",
+  essen: "iss isst aß aßen gegessen",
+  fahren: "fährt fährst fuhr fuhren gefahren",
+  lesen: "lies liest las lasen gelesen",
+  schlafen: "schläft schläfst schlief schliefen geschlafen",
+  tragen: "trägt trägst trug trugen getragen",
+  treffen: "triff trifft triffst traf trafen getroffen",
+  sprechen: "sprich spricht sprichst sprach sprachen gesprochen",
+  helfen: "hilf hilft hilfst half halfen geholfen",
+  fallen: "fällt fällst fiel fielen gefallen",
+  halten: "hält hältst hielt hielten gehalten",
+  lassen: "lässt ließ ließen gelassen",
+  laden: "lädt lädst lud luden geladen",
+  fangen: "fängt fängst fing fingen gefangen",
+  laufen: "läuft läufst lief liefen gelaufen",
+  waschen: "wäscht wäschst wusch wuschen gewaschen",
+  vergessen: "vergiss vergisst vergaß vergaßen vergessen",
+  empfehlen: "empfiehlt empfiehlst empfahl empfahlen empfohlen",
+  finden: "fand fanden gefunden",
+  bleiben: "blieb blieben geblieben",
+  schreiben: "schrieb schrieben geschrieben",
+  steigen: "stieg stiegen gestiegen",
+  trinken: "trank tranken getrunken",
+  singen: "sang sangen gesungen",
+  schwimmen: "schwamm schwammen geschwommen",
+  beginnen: "begann begannen begonnen",
+  bringen: "brachte brachten gebracht",
+  denken: "dachte dachten gedacht",
+  kennen: "kannte kannten gekannt",
+  stehen: "stand standen gestanden",
+  liegen: "lag lagen gelegen",
+  sitzen: "saß saßen gesessen",
+  heißen: "hieß hießen geheißen",
+  rufen: "rief riefen gerufen",
+  ziehen: "zog zogen gezogen",
+  fliegen: "flog flogen geflogen",
+  schließen: "schloss schlossen geschlossen",
+  verlieren: "verlor verloren",
+  gewinnen: "gewann gewannen gewonnen"
+};
+
+function tokenize(sentence: string): Token[] {
+  return [...sentence.matchAll(/\p{L}+(?:-\p{L}+)*/gu)].map((match) => ({
+    text: match[0],
+    start: match.index ?? 0,
+    end: (match.index ?? 0) + match[0].length
+  }));
+}
+
+function lower(value: string) {
+  return value.normalize("NFC").toLowerCase();
+}
+
+function withEndings(stems: string[], endings: string[]) {
+  return stems.flatMap((stem) => endings.map((ending) => `${stem}${ending}`));
+}
+
+// Present, past and participle forms of a verb without separable prefix.
+function baseVerbForms(infinitive: string): string[] {
+  const irregular = IRREGULAR_FORMS[infinitive];
+  const stem = infinitive.replace(/(e?n)$/, "");
+  const stems = [stem];
+  // Stems ending in -t/-d take a linking e: arbeitet, redest.
+  const linking = /[td]$/.test(stem) ? "e" : "";
+  const forms = [
+    infinitive,
+    stem,
+    ...withEndings(stems, ["e", "en", "end", "et"]),
+    ...withEndings(stems, [`${linking}st`, `${linking}t`, `${linking}te`, `${linking}test`, `${linking}ten`, `${linking}tet`]),
+    `ge${stem}${linking}t`,
+    ...(irregular ? irregular.split(" ") : [])
+  ];
+  if (/(el|er)n$/.test(infinitive)) {
+    forms.push(`${stem.slice(0, -2)}${stem.slice(-1)}e`);
+  }
+  return forms;
+}
+
+function verbForms(infinitive: string): string[] {
+  if (IRREGULAR_FORMS[infinitive]) return baseVerbForms(infinitive);
+  const inseparable = INSEPARABLE_PREFIXES.find(
+    (prefix) => infinitive.startsWith(prefix) && IRREGULAR_FORMS[infinitive.slice(prefix.length)]
+  );
+  if (inseparable) {
+    // verstehen → verstand, verstanden: no ge- in the participle.
+    return baseVerbForms(infinitive.slice(inseparable.length)).map(
+      (form) => `${inseparable}${form.replace(/^ge(?=..)/, "")}`
+    );
+  }
+  const forms = baseVerbForms(infinitive);
+  if (INSEPARABLE_PREFIXES.some((prefix) => infinitive.startsWith(prefix))) {
+    forms.push(infinitive.replace(/(e?n)$/, "t"));
+  }
+  return forms;
+}
+
+function separablePrefix(infinitive: string) {
+  return SEPARABLE_PREFIXES.find(
+    (prefix) => infinitive.startsWith(prefix) && infinitive.length - prefix.length >= 3
+  );
+}
+
+function looksLikeInfinitive(word: string) {
+  return /^[a-zäöüß]+(en|ern|eln)$/.test(word) || word === "sein" || word === "tun";
+}
+
+function adjectiveForms(word: string) {
+  const stem = word.replace(/-$/, "");
+  const umlauted = applyUmlaut(stem);
+  return [
+    ...(CONTRACTIONS[stem] ?? []),
+    ...withEndings([stem], word.endsWith("-") ? [...ADJECTIVE_ENDINGS, "s"] : ADJECTIVE_ENDINGS),
+    ...withEndings([`${stem}er`, `${umlauted}er`], ADJECTIVE_ENDINGS),
+    ...withEndings([`${stem}st`, `${umlauted}st`, `${stem}est`], ADJECTIVE_ENDINGS)
+  ];
+}
+
+type WordPattern = {
+  // Forms that match a single token.
+  forms: Set<string>;
+  // A separable verb split in the sentence: conjugated base plus its particle later on.
+  split?: { base: Set<string>; particle: string };
+};
+
+function wordPattern(word: string, card: Card, isLast: boolean): WordPattern {
+  const value = lower(word);
+  const grammar = card.grammar;
+  if (grammar?.wordClass === "noun" && isLast) {
+    const plurals = grammar.plural ? [lower(grammar.plural)] : [];
+    // Dative plural and genitive; the weak -n/-en only on longer nouns, so "Ei" does not match "ein".
+    const endings = value.length >= 4 ? ["", "s", "es", "n", "en"] : ["", "s", "es"];
+    // Nouns from adjectives and job titles: ein Bekannter, die Chefin, die Kollegin.
+    const adjectival = value.endsWith("e") ? withEndings([value], ["m", "n", "r", "s"]) : [];
+    const feminine = withEndings([value, value.replace(/e$/, ""), applyUmlaut(value)], ["in", "innen"]);
+    return {
+      forms: new Set([
+        ...withEndings([value], endings),
+        ...withEndings(plurals, ["", "n"]),
+        ...adjectival,
+        ...feminine
+      ])
+    };
+  }
+  if (isLast && looksLikeInfinitive(value) && grammar?.wordClass !== "noun") {
+    const prefix = separablePrefix(value);
+    if (prefix && !IRREGULAR_FORMS[value]) {
+      const base = value.slice(prefix.length);
+      const baseForms = verbForms(base);
+      const joined = [
+        ...baseForms.map((form) => `${prefix}${form}`),
+        `${prefix}zu${base}`,
+        `${prefix}${baseVerbForms(base).find((form) => form.startsWith("ge")) ?? ""}`
+      ];
+      return { forms: new Set(joined), split: { base: new Set(baseForms), particle: prefix } };
+    }
+    return { forms: new Set(verbForms(value)) };
+  }
+  return { forms: new Set(adjectiveForms(value)) };
+}
+
+// The words of the headword that have to appear in the sentence: articles, the
+// reflexive pronoun and bracketed notes are not blanked.
+function headwordWords(card: Card) {
+  const lemma = (card.grammar?.lemma ?? card.de_word)
+    .replace(/\([^)]*\)/g, " ")
+    .replace(/[;,].*$/, "")
+    .split("/")[0];
+  return lemma
+    .split(/\s+/)
+    .map((word) => word.replace(/[^\p{L}-]/gu, ""))
+    .filter((word) => word && word !== "-" && word.toLowerCase() !== "sich");
+}
+
+export function findCloze(card: Card): Cloze | ClozeSkip {
+  const sentence = card.de_sentence;
+  if (!sentence) return { card, reason: "No example sentence" };
+  const words = headwordWords(card);
+  if (words.length === 0) return { card, reason: "No headword to look for" };
+  const tokens = tokenize(sentence);
+  const blanked = new Set<number>();
+
+  for (const [wordIndex, word] of words.entries()) {
+    const pattern = wordPattern(word, card, wordIndex === words.length - 1);
+    const found = tokens
+      .map((token, index) => (pattern.forms.has(lower(token.text)) ? index : -1))
+      .filter((index) => index >= 0 && !blanked.has(index));
+    if (found.length > 0) {
+      found.forEach((index) => blanked.add(index));
+      continue;
+    }
+    if (pattern.split) {
+      const { base, particle } = pattern.split;
+      const verbIndex = tokens.findIndex((token) => base.has(lower(token.text)));
+      const particleIndex = tokens.findIndex((token, index) => index > verbIndex && lower(token.text) === particle);
+      if (verbIndex >= 0 && particleIndex > verbIndex) {
+        blanked.add(verbIndex);
+        blanked.add(particleIndex);
+        continue;
+      }
+    }
+    const stem = lower(word).replace(/-$/, "");
+    const compound = stem.length >= 4 && tokens.find((token) => lower(token.text).includes(stem));
+    return {
+      card,
+      reason: compound
+        ? `"${word}" only appears inside "${compound.text}"`
+        : `No form of "${word}" in the sentence`
+    };
+  }
+
+  const segments: ClozeSegment[] = [];
+  let cursor = 0;
+  [...blanked]
+    .sort((a, b) => a - b)
+    .forEach((index) => {
+      const token = tokens[index];
+      if (token.start > cursor) segments.push({ text: sentence.slice(cursor, token.start), blank: false });
+      segments.push({ text: token.text, blank: true });
+      cursor = token.end;
+    });
+  if (cursor < sentence.length) segments.push({ text: sentence.slice(cursor), blank: false });
+  const answer = segments
+    .filter((segment) => segment.blank)
+    .map((segment) => segment.text)
+    .join(" ");
+  return { segments, answer };
+}
+
+export function buildClozeSet(cards: Card[]): ClozeSet {
+  const set: ClozeSet = { items: [], skipped: [] };
+  cards.forEach((card) => {
+    const result = findCloze(card);
+    if ("segments" in result) {
+      set.items.push({ card, cloze: result });
+    } else {
+      set.skipped.push(result);
+    }
+  });
+  return set;
+}
+
+export function checkCloze(cloze: Cloze, typed: string): ClozeVerdict {
+  const expected = normalizeGerman(cloze.answer);
+  const actual = normalizeGerman(typed);
+  if (!actual) return "wrong";
+  if (actual === expected) return "correct";
+  return levenshtein(actual, expected) <= Math.max(1, Math.floor(expected.length / 6)) ? "close" : "wrong";
+}
@@ -0,0 +1,159 @@
+const DB_NAME = "deckster";
+const DB_VERSION = 2;
+
+export const DECKS_STORE = "decks";
+export const MEDIA_STORE = "media";
+export const REVIEWS_STORE = "reviews";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function promisify<T>(request: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Stores are created lazily on upgrade, so bumping DB_VERSION and listing a new store
+// here is all a feature needs to get its own table.
+export function openDatabase() {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === "undefined") {
+        reject(new Error("IndexedDB is not available in this browser."));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(DECKS_STORE)) {
+          db.createObjectStore(DECKS_STORE);
+        }
+        if (!db.objectStoreNames.contains(MEDIA_STORE)) {
+          db.createObjectStore(MEDIA_STORE);
+        }
+        if (!db.objectStoreNames.contains(REVIEWS_STORE)) {
+          const reviews = db.createObjectStore(REVIEWS_STORE, { keyPath: "id", autoIncrement: true });
+          reviews.createIndex("deckId", "deckId");
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+export async function getValue<T>(store: string, key: IDBValidKey): Promise<T | undefined> {
+  const db = await openDatabase();
+  return promisify<T | undefined>(db.transaction(store).objectStore(store).get(key));
+}
+
+export async function getAllValues<T>(store: string): Promise<T[]> {
+  const db = await openDatabase();
+  return promisify<T[]>(db.transaction(store).objectStore(store).getAll());
+}
+
+export async function getAllFromIndex<T>(store: string, index: string, query: IDBValidKey | IDBKeyRange): Promise<T[]> {
+  const db = await openDatabase();
+  return promisify<T[]>(db.transaction(store).objectStore(store).index(index).getAll(query));
+}
+
+export async function addValue(store: string, value: unknown) {
+  const db = await openDatabase();
+  return promisify(db.transaction(store, "readwrite").objectStore(store).add(value));
+}
+
+export async function putValue(store: string, value: unknown) {
+  const db = await openDatabase();
+  return promisify(db.transaction(store, "readwrite").objectStore(store).put(value));
+}
+
+export async function addValues(store: string, values: unknown[]) {
+  const db = await openDatabase();
+  const transaction = db.transaction(store, "readwrite");
+  const objectStore = transaction.objectStore(store);
+  values.forEach((value) => objectStore.add(value));
+  await new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+// For stores whose values carry their own key, such as the review log.
+export async function putAllValues(store: string, values: unknown[]) {
+  const db = await openDatabase();
+  const transaction = db.transaction(store, "readwrite");
+  const objectStore = transaction.objectStore(store);
+  values.forEach((value) => objectStore.put(value));
+  await new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+export async function putValues(store: string, entries: Array<[IDBValidKey, unknown]>) {
+  const db = await openDatabase();
+  const transaction = db.transaction(store, "readwrite");
+  const objectStore = transaction.objectStore(store);
+  entries.forEach(([key, value]) => objectStore.put(value, key));
+  await new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+export async function deleteRange(store: string, range: IDBKeyRange | IDBValidKey) {
+  const db = await openDatabase();
+  const transaction = db.transaction(store, "readwrite");
+  transaction.objectStore(store).delete(range);
+  await new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+export async function deleteFromIndex(store: string, index: string, query: IDBValidKey | IDBKeyRange) {
+  const db = await openDatabase();
+  const transaction = db.transaction(store, "readwrite");
+  const request = transaction.objectStore(store).index(index).openKeyCursor(query);
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor) return;
+    transaction.objectStore(store).delete(cursor.primaryKey);
+    cursor.continue();
+  };
+  await new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+// Deletes what an index matches and adds `values` in its place, all in one transaction, so
+// a failed add leaves the old values where they were.
+export async function replaceInIndex(
+  store: string,
+  index: string,
+  query: IDBValidKey | IDBKeyRange,
+  values: unknown[]
+) {
+  const db = await openDatabase();
+  const transaction = db.transaction(store, "readwrite");
+  const objectStore = transaction.objectStore(store);
+  const request = objectStore.index(index).getAllKeys(query);
+  request.onsuccess = () => {
+    request.result.forEach((key) => objectStore.delete(key));
+    values.forEach((value) => objectStore.add(value));
+  };
+  await new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
@@ -0,0 +1,110 @@
+import { parseGermanWord } from "./german";
+import { loadLocalDeck, resolveLocalMedia } from "./localDecks";
+import { isGerman, readDeckCards } from "./schema";
+import type { CardOverrides } from "./storage";
+import type { Deck, DeckManifest, DeckManifestEntry, DeckSource } from "./types";
+
+const MANIFEST_URL = "decks/index.json";
+
+type RawDeck = {
+  id?: string;
+  title?: string;
+  description?: string;
+  source?: Partial<DeckSource>;
+  schema?: unknown;
+  cards?: unknown;
+};
+
+type RawManifest = {
+  decks?: Array<Partial<DeckManifestEntry>>;
+};
+
+function normalizeSource(source: Partial<DeckSource> | undefined): DeckSource | undefined {
+  const label = source?.label?.trim();
+  const url = source?.url?.trim();
+  return label && url ? { label, url } : undefined;
+}
+
+// The manifest entry owns the deck id so that stored progress stays attached to the
+// registry slot even if the deck file itself is regenerated with a different id.
+export function normalizeDeck(raw: RawDeck, entry: DeckManifestEntry): Deck {
+  const { schema, cards, issues } = readDeckCards(raw.schema, raw.cards);
+  return {
+    id: entry.id,
+    title: raw.title?.trim() || entry.title,
+    description: raw.description?.trim() || entry.description,
+    source: normalizeSource(raw.source) ?? entry.source,
+    local: entry.local,
+    schema,
+    cards,
+    issues
+  };
+}
+
+// Edited cards get their grammar parsed again, so gender and plural drills follow the edit.
+export function applyCardOverrides(deck: Deck, overrides: CardOverrides): Deck {
+  if (Object.keys(overrides).length === 0) return deck;
+  return {
+    ...deck,
+    cards: deck.cards.map((card) => {
+      const override = overrides[card.id];
+      if (!override) return card;
+      const edited = { ...card, ...override };
+      return isGerman(deck.schema.languages.front) ? { ...edited, grammar: parseGermanWord(edited.de_word) } : edited;
+    })
+  };
+}
+
+function normalizeManifest(raw: RawManifest): DeckManifest {
+  const seen = new Set<string>();
+  const decks: DeckManifestEntry[] = [];
+  for (const entry of raw.decks ?? []) {
+    const id = entry.id?.trim();
+    const url = entry.url?.trim();
+    if (!id || !url || seen.has(id)) continue;
+    seen.add(id);
+    decks.push({
+      id,
+      url,
+      title: entry.title?.trim() || id,
+      description: entry.description?.trim() || undefined,
+      cardCount: Number.isFinite(entry.cardCount) ? Number(entry.cardCount) : undefined,
+      source: normalizeSource(entry.source)
+    });
+  }
+  return { decks };
+}
+
+// Resolves paths against the directory the app is served from, so the build keeps
+// working under the relative `base` used for GitHub Pages.
+export function resolveAssetUrl(url: string) {
+  if (/^https?:\/\//i.test(url)) return url;
+  const cleaned = url.replace(/^\/+/, "");
+  if (typeof window === "undefined") return `/${cleaned}`;
+  const path = window.location.pathname;
+  const basePath = path.endsWith("/") ? path : path.replace(/[^/]+$/, "");
+  return `${window.location.origin}${basePath}${cleaned}`;
+}
+
+async function fetchJson(url: string): Promise<unknown> {
+  const response = await fetch(resolveAssetUrl(url));
+  if (!response.ok) {
+    throw new Error(`Failed to load ${url} (${response.status})`);
+  }
+  return response.json();
+}
+
+export async function fetchManifest(): Promise<DeckManifest> {
+  return normalizeManifest((await fetchJson(MANIFEST_URL)) as RawManifest);
+}
+
+export async function fetchDeck(entry: DeckManifestEntry): Promise<Deck> {
+  if (entry.local) {
+    return normalizeDeck((await loadLocalDeck(entry.id)) as RawDeck, entry);
+  }
+  return normalizeDeck((await fetchJson(entry.url)) as RawDeck, entry);
+}
+
+export function resolveCardAudio(deck: Deck, url: string) {
+  return deck.local ? resolveLocalMedia(deck.id, url) : Promise.resolve(resolveAssetUrl(url));
+}
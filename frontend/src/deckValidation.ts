@@ -0,0 +1,70 @@
+import { readDeckCards } from "./schema";
+
+// Checks a deck file before it ships. It runs in Node at build time
+// (scripts/validate-decks.mjs), so it must not touch the DOM or the deck loader.
+
+export type ValidationFinding = {
+  level: "error" | "warning";
+  message: string;
+};
+
+// How many card ids a grouped finding lists before it only counts.
+const EXAMPLES = 5;
+
+function listIds(ids: string[]) {
+  const shown = ids.slice(0, EXAMPLES).join(", ");
+  return ids.length > EXAMPLES ? `${shown} and ${ids.length - EXAMPLES} more` : shown;
+}
+
+// `mediaExists` answers for deck-relative audio paths such as "/media/clip.mp3"; remote
+// URLs are not checked.
+export function validateDeck(raw: unknown, mediaExists: (path: string) => boolean): ValidationFinding[] {
+  if (!raw || typeof raw !== "object") {
+    return [{ level: "error", message: "The deck file is not a JSON object." }];
+  }
+  const file = raw as { schema?: unknown; cards?: unknown };
+  let read: ReturnType<typeof readDeckCards>;
+  try {
+    read = readDeckCards(file.schema, file.cards);
+  } catch (reason) {
+    return [{ level: "error", message: reason instanceof Error ? reason.message : String(reason) }];
+  }
+  const { schema, cards, issues } = read;
+  const findings: ValidationFinding[] = issues.map((issue) => ({
+    level: "error",
+    message: `Card ${issue.position + 1}${issue.cardId ? ` (${issue.cardId})` : ""}: ${issue.problems.join(" ")}`
+  }));
+
+  // Progress falls back to note ids when card ids change, so those have to be unique too.
+  const byNoteId = new Map<string, string[]>();
+  cards.forEach((card) => byNoteId.set(card.note_id, [...(byNoteId.get(card.note_id) ?? []), card.id]));
+  byNoteId.forEach((ids, noteId) => {
+    if (ids.length > 1) {
+      findings.push({ level: "warning", message: `Cards ${listIds(ids)} share the note id ${noteId}.` });
+    }
+  });
+
+  // Required fields are checked per card above; optional ones are only worth a summary.
+  schema.fields
+    .filter((field) => !field.required)
+    .forEach((field) => {
+      const empty = cards.filter((card) => !card.fields[field.id]).map((card) => card.id);
+      if (empty.length > 0) {
+        findings.push({
+          level: "warning",
+          message: `${empty.length} ${empty.length === 1 ? "card has" : "cards have"} no ${field.label}: ${listIds(empty)}.`
+        });
+      }
+    });
+
+  const missing = cards.filter((card) => card.audio_url && !/^https?:\/\//i.test(card.audio_url) && !mediaExists(card.audio_url));
+  if (missing.length > 0) {
+    findings.push({
+      level: "error",
+      message: `${missing.length} audio ${missing.length === 1 ? "file is" : "files are"} missing: ${listIds(
+        missing.map((card) => `${card.audio_url} (${card.id})`)
+      )}.`
+    });
+  }
+  return findings;
+}
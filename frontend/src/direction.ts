@@ -0,0 +1,52 @@
+import type { CardSchedule } from "./scheduler";
+import { languageNames } from "./schema";
+import type { CardDirection, DirectionSetting } from "./storage";
+import type { DeckSchema } from "./types";
+
+// "de-en" always means front to back; the labels name the deck's own languages.
+export function directionOptions(schema: DeckSchema): Array<{ id: DirectionSetting; label: string }> {
+  const names = languageNames(schema);
+  return [
+    { id: "de-en", label: `${names.front} → ${names.back}` },
+    { id: "en-de", label: `${names.back} → ${names.front}` },
+    { id: "mixed", label: "Mixed, random per card" }
+  ];
+}
+
+export function hashString(value: string) {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i += 1) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+}
+
+// Mixed mode flips a coin per card from its id and the day, so a card keeps its
+// direction through reloads and review passes but may switch sides tomorrow.
+export function pickDirection(setting: DirectionSetting, cardId: string, seed: number): CardDirection {
+  if (setting !== "mixed") return setting;
+  return hashString(`${seed}:${cardId}`) % 2 === 0 ? "de-en" : "en-de";
+}
+
+export type DirectionProgress = {
+  missedIds: string[];
+  schedules: Record<string, CardSchedule>;
+};
+
+// Views that show one status per card, like the card browser and topics, follow the
+// direction setting. In mixed mode a card counts as missed when either direction is, and
+// takes whichever schedule comes due first, so trouble in one direction is not hidden.
+export function progressForDirection(
+  setting: DirectionSetting,
+  forward: DirectionProgress,
+  reverse: DirectionProgress
+): DirectionProgress {
+  if (setting === "de-en") return forward;
+  if (setting === "en-de") return reverse;
+  const schedules = { ...forward.schedules };
+  for (const [id, schedule] of Object.entries(reverse.schedules)) {
+    if (!schedules[id] || schedule.due < schedules[id].due) schedules[id] = schedule;
+  }
+  return { missedIds: [...new Set([...forward.missedIds, ...reverse.missedIds])], schedules };
+}
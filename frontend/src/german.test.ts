@@ -0,0 +1,19 @@
+import { describe, expect, it } from "vitest";
+import { normalizeGerman } from "./german";
+
+describe("normalizeGerman", () => {
+  it("folds umlauts, ß and capitals onto one spelling", () => {
+    for (const spelling of ["Größe", "groesse", "GRÖSSE", "GROESSE"]) {
+      expect(normalizeGerman(spelling)).toBe("groesse");
+    }
+    expect(normalizeGerman("Anschluß")).toBe(normalizeGerman("Anschluss"));
+  });
+
+  it("does not fold a dropped umlaut", () => {
+    expect(normalizeGerman("GROSSE")).toBe("grosse");
+  });
+
+  it("drops accents, punctuation and extra spaces", () => {
+    expect(normalizeGerman("  das Café,  bitte! ")).toBe("das cafe bitte");
+  });
+});
@@ -0,0 +1,190 @@
+import type { Article, Gender, WordClass, WordGrammar } from "./types";
+
+// German-aware text helpers shared by the answer checkers and the grammar drills.
+
+const ARTICLES = ["der", "die", "das"];
+
+export const ARTICLE_GENDERS: Record<Article, Gender> = {
+  der: "masculine",
+  die: "feminine",
+  das: "neuter"
+};
+
+const UMLAUTS: Record<string, string> = { a: "ä", o: "ö", u: "ü", A: "Ä", O: "Ö", U: "Ü" };
+
+// Common A1 words that end like an infinitive but are not verbs.
+const NON_VERBS_IN_EN = new Set([
+  "bisschen",
+  "daneben",
+  "willkommen",
+  "zufrieden",
+  "geboren",
+  "gestorben",
+  "verboten",
+  "geschlossen",
+  "morgen",
+  "übermorgen",
+  "gestern",
+  "vorgestern",
+  "oben",
+  "unten",
+  "hinten",
+  "neben",
+  "zwischen",
+  "sieben",
+  "offen",
+  "trocken",
+  "selten",
+  "eben",
+  "gegen",
+  "wegen",
+  "innen",
+  "außen",
+  "draußen",
+  "drinnen",
+  "zusammen"
+]);
+
+const ADJECTIVE_ENDINGS = /(ig|lich|isch|bar|los|sam|haft|voll|frei|reich)$/;
+
+export type Headword = {
+  article: string | null;
+  stem: string;
+  plural: string | null;
+};
+
+// Folds the spellings learners type on a keyboard without umlauts onto one form:
+// "Größe", "groesse" and "GRÖSSE" all become "groesse". A dropped umlaut is not folded,
+// so "GROSSE" stays "grosse".
+export function normalizeGerman(value: string) {
+  return value
+    .normalize("NFC")
+    .toLowerCase()
+    .replace(/ä/g, "ae")
+    .replace(/ö/g, "oe")
+    .replace(/ü/g, "ue")
+    .replace(/ß/g, "ss")
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^\p{L}\p{N}\s-]/gu, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+// Splits dictionary notation such as "die Ansage, -n" into article, stem and plural.
+export function splitHeadword(value: string): Headword {
+  const [head, ...rest] = value.split(",");
+  const plural = rest.join(",").trim() || null;
+  const words = head.trim().split(/\s+/).filter(Boolean);
+  const first = words[0]?.toLowerCase() ?? "";
+  if (words.length > 1 && ARTICLES.includes(first)) {
+    return { article: first, stem: words.slice(1).join(" "), plural };
+  }
+  return { article: null, stem: words.join(" "), plural };
+}
+
+export function levenshtein(a: string, b: string) {
+  if (a === b) return 0;
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i += 1) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j += 1) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// Applies the umlaut of plural notation such as "-ä, e" to the last a/o/u (or "au")
+// of the singular: Gast → Gäst(e), Mutter → Mütter, Raum → Räum(e).
+export function applyUmlaut(stem: string) {
+  const match = /(a)(u)(?!.*[aouAOU])|([aouAOU])(?!.*[aouAOU])/.exec(stem);
+  if (!match) return stem;
+  const vowel = match[1] ?? match[3];
+  return `${stem.slice(0, match.index)}${UMLAUTS[vowel]}${stem.slice(match.index + 1)}`;
+}
+
+// Expands the plural notation used by the Goethe list ("-n", "-e", "–", "-ä, er", "¨-e")
+// into the full plural form. Returns null for notation it does not understand.
+export function expandPlural(lemma: string, notation: string) {
+  let rest = notation.trim();
+  if (rest === "-" || rest === "–") return lemma;
+  let umlaut = false;
+  if (rest.startsWith("¨")) {
+    umlaut = true;
+    rest = rest.slice(1);
+  }
+  rest = rest.replace(/^[-–]\s*/, "");
+  const marked = /^([äöüÄÖÜ])\s*,?\s*(.*)$/.exec(rest);
+  if (marked) {
+    umlaut = true;
+    rest = marked[2];
+  }
+  const suffix = rest.replace(/^[-–]\s*/, "").trim();
+  if (!/^[a-zäöüß]*$/.test(suffix)) return null;
+  const base = umlaut ? applyUmlaut(lemma) : lemma;
+  if (suffix === "e" && base.endsWith("e")) return base;
+  return `${base}${suffix}`;
+}
+
+function guessWordClass(lemma: string, hasArticle: boolean, reflexive: boolean): WordClass {
+  if (hasArticle) return "noun";
+  if (reflexive) return "verb";
+  const words = lemma.split(/\s+/).filter(Boolean);
+  const last = words[words.length - 1]?.toLowerCase() ?? "";
+  const looksLikeInfinitive = /(en|ern|eln)$/.test(last) || last === "sein" || last === "tun";
+  if (words.length <= 2 && /^[a-zäöüß]/.test(lemma) && looksLikeInfinitive && !NON_VERBS_IN_EN.has(last)) {
+    return "verb";
+  }
+  if (words.length > 1) return "phrase";
+  if (/^[A-ZÄÖÜ]/.test(lemma)) return "noun";
+  if (ADJECTIVE_ENDINGS.test(last)) return "adjective";
+  return "other";
+}
+
+// Turns a free-text `de_word` such as "die Ansage, -n", "der/die Bekannte, -n",
+// "(sich) treffen" or "die Eltern (pl.)" into structured grammar fields.
+export function parseGermanWord(value: string): WordGrammar {
+  let text = value.trim();
+  const pluralOnly = /\(pl\.\)/.test(text);
+  text = text.replace(/\s*\(pl\.\)\s*/g, " ").trim();
+  const reflexive = /^\(sich\)\s+/.test(text);
+  text = text.replace(/^\(sich\)\s+/, "");
+
+  const commaIndex = text.indexOf(",");
+  const head = (commaIndex >= 0 ? text.slice(0, commaIndex) : text).trim();
+  const notation = commaIndex >= 0 ? text.slice(commaIndex + 1).trim().replace(/\/.*$/, "").trim() : "";
+
+  const articleMatch = /^(der|die|das)(?:\/(der|die|das))?\s+(.+)$/i.exec(head);
+  const articles = articleMatch
+    ? ([articleMatch[1], articleMatch[2]].filter(Boolean).map((item) => item.toLowerCase()) as Article[])
+    : [];
+  let lemma = articleMatch ? articleMatch[3] : head;
+  // "der Frühling/das Frühjahr" and "der Samstag/Sonnabend" list alternatives; keep the first.
+  if (articleMatch) {
+    lemma = lemma.split("/")[0].trim();
+  }
+
+  const article = articles.length === 1 ? articles[0] : null;
+  const wordClass = guessWordClass(lemma, articles.length > 0, reflexive);
+  let plural: string | null = null;
+  if (pluralOnly) {
+    plural = lemma;
+  } else if (notation && wordClass === "noun") {
+    plural = expandPlural(lemma, notation);
+  }
+
+  return {
+    article,
+    articles,
+    gender: article ? ARTICLE_GENDERS[article] : null,
+    lemma,
+    plural,
+    pluralNotation: notation || null,
+    pluralOnly,
+    reflexive,
+    wordClass
+  };
+}
@@ -0,0 +1,44 @@
+export type SwipeDirection = "left" | "right" | "up";
+
+export type GestureSettings = {
+  enabled: boolean;
+  // How far, in CSS pixels, a finger has to travel before a swipe counts.
+  horizontalThreshold: number;
+  verticalThreshold: number;
+};
+
+export const THRESHOLD_RANGE = { min: 40, max: 240 };
+
+// Movement below this is still a tap.
+export const TAP_TOLERANCE = 10;
+
+export function defaultGestureSettings(): GestureSettings {
+  return { enabled: true, horizontalThreshold: 90, verticalThreshold: 90 };
+}
+
+function threshold(value: unknown, fallback: number) {
+  if (!Number.isFinite(value)) return fallback;
+  return Math.min(THRESHOLD_RANGE.max, Math.max(THRESHOLD_RANGE.min, Math.round(Number(value))));
+}
+
+export function sanitizeGestureSettings(value: unknown): GestureSettings {
+  const defaults = defaultGestureSettings();
+  if (!value || typeof value !== "object") return defaults;
+  const parsed = value as Partial<GestureSettings>;
+  return {
+    enabled: parsed.enabled !== false,
+    horizontalThreshold: threshold(parsed.horizontalThreshold, defaults.horizontalThreshold),
+    verticalThreshold: threshold(parsed.verticalThreshold, defaults.verticalThreshold)
+  };
+}
+
+// The swipe a drag would trigger if released now, or null while it is still short of
+// the thresholds. The dominant axis wins, and only upward vertical swipes count.
+export function swipeFor(dx: number, dy: number, settings: GestureSettings): SwipeDirection | null {
+  if (Math.abs(dx) >= Math.abs(dy)) {
+    if (dx <= -settings.horizontalThreshold) return "left";
+    if (dx >= settings.horizontalThreshold) return "right";
+    return null;
+  }
+  return dy <= -settings.verticalThreshold ? "up" : null;
+}
@@ -0,0 +1,72 @@
+import { GRADES, sanitizeSchedules, type CardSchedule, type Grade } from "./scheduler";
+import { sanitizeNewCardCount, sanitizeSessionProgress, type NewCardCount, type SessionProgress } from "./session";
+import type { CardDirection } from "./storage";
+
+// The most recent answers, newest last. Each one carries what it changed so it can be
+// undone, or graded again, exactly.
+
+export type AnswerRecord = {
+  cardId: string;
+  direction: CardDirection;
+  grade: Grade;
+  timestamp: number;
+  before: {
+    index: number;
+    reviewMode: boolean;
+    reviewIndex: number;
+    // The card's schedule and missed flag in the direction it was answered in.
+    schedule: CardSchedule | null;
+    missed: boolean;
+    session: SessionProgress;
+    newCardsToday: NewCardCount;
+  };
+};
+
+export const HISTORY_LIMIT = 50;
+
+export function pushAnswer(history: AnswerRecord[], record: AnswerRecord) {
+  return [...history, record].slice(-HISTORY_LIMIT);
+}
+
+// Only the latest answer of a card can be graded again: an earlier one was built on by
+// the answers after it.
+export function canRegrade(history: AnswerRecord[], position: number) {
+  const record = history[position];
+  return Boolean(record) && !history.slice(position + 1).some((later) => later.cardId === record.cardId);
+}
+
+export function sanitizeHistory(value: unknown): AnswerRecord[] {
+  if (!Array.isArray(value)) return [];
+  const records: AnswerRecord[] = [];
+  value.forEach((item) => {
+    if (!item || typeof item !== "object") return;
+    const record = item as Partial<AnswerRecord>;
+    const before = record.before;
+    if (
+      typeof record.cardId !== "string" ||
+      !GRADES.includes(record.grade as Grade) ||
+      !Number.isFinite(record.timestamp) ||
+      !before ||
+      typeof before !== "object"
+    ) {
+      return;
+    }
+    const schedule = before.schedule ? sanitizeSchedules({ [record.cardId]: before.schedule })[record.cardId] : null;
+    records.push({
+      cardId: record.cardId,
+      direction: record.direction === "en-de" ? "en-de" : "de-en",
+      grade: record.grade as Grade,
+      timestamp: Number(record.timestamp),
+      before: {
+        index: Number.isFinite(before.index) ? Number(before.index) : 0,
+        reviewMode: Boolean(before.reviewMode),
+        reviewIndex: Number.isFinite(before.reviewIndex) ? Number(before.reviewIndex) : 0,
+        schedule: schedule ?? null,
+        missed: Boolean(before.missed),
+        session: sanitizeSessionProgress(before.session),
+        newCardsToday: sanitizeNewCardCount(before.newCardsToday)
+      }
+    });
+  });
+  return records.slice(-HISTORY_LIMIT);
+}
@@ -0,0 +1,143 @@
+export function isTypingTarget(target: EventTarget | null) {
+  if (!(target instanceof HTMLElement)) return false;
+  const tag = target.tagName.toLowerCase();
+  return ["input", "textarea", "select"].includes(tag) || target.isContentEditable;
+}
+
+export type KeyAction =
+  | "flip"
+  | "again"
+  | "hard"
+  | "good"
+  | "easy"
+  | "playWord"
+  | "playSentence"
+  | "undo"
+  | "option1"
+  | "option2"
+  | "option3"
+  | "option4"
+  | "continue";
+
+// Grading keys only apply while a card is graded by hand, option keys only while choices
+// are on screen, so the two may share keys. "any" actions work in both.
+export type KeyScope = "any" | "grading" | "choice";
+
+export type KeyBindings = Record<KeyAction, string[]>;
+
+export const KEY_ACTIONS: Array<{ id: KeyAction; label: string; scope: KeyScope }> = [
+  { id: "flip", label: "Show answer", scope: "grading" },
+  { id: "again", label: "Again (unknown)", scope: "grading" },
+  { id: "hard", label: "Hard", scope: "grading" },
+  { id: "good", label: "Good (known)", scope: "grading" },
+  { id: "easy", label: "Easy", scope: "grading" },
+  { id: "playWord", label: "Play word", scope: "any" },
+  { id: "playSentence", label: "Play sentence", scope: "any" },
+  { id: "undo", label: "Undo last answer", scope: "any" },
+  { id: "option1", label: "Choice or article 1", scope: "choice" },
+  { id: "option2", label: "Choice or article 2", scope: "choice" },
+  { id: "option3", label: "Choice or article 3", scope: "choice" },
+  { id: "option4", label: "Choice 4", scope: "choice" },
+  { id: "continue", label: "Continue after a choice", scope: "choice" }
+];
+
+export const OPTION_ACTIONS: KeyAction[] = ["option1", "option2", "option3", "option4"];
+
+export function defaultKeyBindings(): KeyBindings {
+  return {
+    flip: ["ArrowDown"],
+    again: ["1", "ArrowLeft"],
+    hard: ["2"],
+    good: ["3", "ArrowRight"],
+    easy: ["4"],
+    playWord: ["ArrowUp"],
+    playSentence: ["Shift+ArrowUp"],
+    undo: ["Mod+Z", "Backspace"],
+    option1: ["1"],
+    option2: ["2"],
+    option3: ["3"],
+    option4: ["4"],
+    continue: ["Enter", "Space", "ArrowRight"]
+  };
+}
+
+export function sanitizeKeyBindings(value: unknown): KeyBindings {
+  const bindings = defaultKeyBindings();
+  if (!value || typeof value !== "object") return bindings;
+  const parsed = value as Partial<Record<KeyAction, unknown>>;
+  KEY_ACTIONS.forEach(({ id }) => {
+    const keys = parsed[id];
+    if (Array.isArray(keys)) {
+      bindings[id] = [...new Set(keys.filter((key): key is string => typeof key === "string" && key.length > 0))];
+    }
+  });
+  return bindings;
+}
+
+const MODIFIER_KEYS = ["Shift", "Control", "Alt", "Meta", "AltGraph", "CapsLock"];
+
+// A key press as a binding string such as "Mod+Z", "Shift+ArrowUp" or "1". Mod is Ctrl,
+// or Cmd on a Mac. Shift is only spelled out for keys it does not already change.
+export function comboFromEvent(event: KeyboardEvent): string | null {
+  if (MODIFIER_KEYS.includes(event.key)) return null;
+  const printable = event.key.length === 1;
+  const key = event.key === " " ? "Space" : printable ? event.key.toUpperCase() : event.key;
+  const parts: string[] = [];
+  if (event.ctrlKey || event.metaKey) parts.push("Mod");
+  if (event.altKey) parts.push("Alt");
+  if (event.shiftKey && !printable) parts.push("Shift");
+  return [...parts, key].join("+");
+}
+
+export function actionsForEvent(bindings: KeyBindings, event: KeyboardEvent): KeyAction[] {
+  const combo = comboFromEvent(event);
+  if (!combo) return [];
+  return KEY_ACTIONS.filter(({ id }) => bindings[id].includes(combo)).map(({ id }) => id);
+}
+
+const KEY_NAMES: Record<string, string> = {
+  ArrowUp: "Arrow up",
+  ArrowDown: "Arrow down",
+  ArrowLeft: "Arrow left",
+  ArrowRight: "Arrow right",
+  Mod: "Ctrl"
+};
+
+export function formatCombo(combo: string) {
+  return combo
+    .split("+")
+    .map((part) => KEY_NAMES[part] ?? part)
+    .join(" + ");
+}
+
+// The hint shown on a button, e.g. "1 / Arrow left"; empty when the action has no key.
+export function keyHint(bindings: KeyBindings, action: KeyAction) {
+  return bindings[action].map(formatCombo).join(" / ");
+}
+
+function scopesOverlap(a: KeyScope, b: KeyScope) {
+  return a === "any" || b === "any" || a === b;
+}
+
+export function findConflict(bindings: KeyBindings, action: KeyAction, combo: string): KeyAction | null {
+  const scope = KEY_ACTIONS.find((item) => item.id === action)?.scope ?? "any";
+  const other = KEY_ACTIONS.find(
+    (item) => item.id !== action && scopesOverlap(scope, item.scope) && bindings[item.id].includes(combo)
+  );
+  return other?.id ?? null;
+}
+
+// Every key that triggers more than one action in the same place, with the actions it triggers.
+export function listConflicts(bindings: KeyBindings) {
+  const conflicts = new Map<string, KeyAction[]>();
+  KEY_ACTIONS.forEach(({ id }) => {
+    bindings[id].forEach((combo) => {
+      const other = findConflict(bindings, id, combo);
+      if (!other) return;
+      const actions = conflicts.get(combo) ?? [];
+      if (!actions.includes(id)) actions.push(id);
+      conflicts.set(combo, actions);
+    });
+  });
+  return conflicts;
+}
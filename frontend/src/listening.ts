@@ -0,0 +1,45 @@
+import type { Card } from "./types";
+
+// The listening mode plays a card's audio before anything is shown. The learner either
+// writes down the word (dictation) or picks its meaning, and only then sees the text.
+
+export type ListeningAnswer = "dictation" | "meaning";
+
+export type ListeningSettings = {
+  answer: ListeningAnswer;
+  // How often the word may be played again before answering; null means no limit.
+  replayLimit: number | null;
+};
+
+// 0 and 1 match the Hören parts of the Goethe exams, which play a recording once or twice.
+export const REPLAY_LIMITS: Array<number | null> = [null, 0, 1, 2, 3];
+
+export function defaultListeningSettings(): ListeningSettings {
+  return { answer: "dictation", replayLimit: null };
+}
+
+export function sanitizeListeningSettings(value: unknown): ListeningSettings {
+  if (!value || typeof value !== "object") return defaultListeningSettings();
+  const parsed = value as Partial<ListeningSettings>;
+  return {
+    answer: parsed.answer === "meaning" ? "meaning" : "dictation",
+    replayLimit: REPLAY_LIMITS.includes(parsed.replayLimit ?? null) ? (parsed.replayLimit ?? null) : null
+  };
+}
+
+// The browser voice would give nothing away either, but only recorded audio sounds
+// like the exam.
+export function hasListeningAudio(card: Card) {
+  return Boolean(card.audio_url);
+}
+
+// Plays left for the current card, counting the first one; null when unlimited.
+export function playsLeft(settings: ListeningSettings, played: number) {
+  return settings.replayLimit === null ? null : Math.max(0, settings.replayLimit + 1 - played);
+}
+
+export function replayLimitLabel(limit: number | null) {
+  if (limit === null) return "No limit";
+  if (limit === 0) return "Play once";
+  return `${limit} ${limit === 1 ? "replay" : "replays"}`;
+}
@@ -0,0 +1,71 @@
+import { DECKS_STORE, MEDIA_STORE, deleteRange, getAllValues, getValue, putValues } from "./db";
+import type { ImportedDeck } from "./apkg";
+import type { DeckManifestEntry } from "./types";
+
+// Decks imported in the browser live in IndexedDB next to their audio. Media keys are
+// "<deck id>/<file name>" so a whole deck's media can be dropped with one key range.
+
+type StoredDeck = {
+  entry: DeckManifestEntry;
+  deck: {
+    id: string;
+    title: string;
+    cards: ImportedDeck["cards"];
+  };
+};
+
+const objectUrls = new Map<string, string>();
+
+function mediaKey(deckId: string, name: string) {
+  return `${deckId}/${name}`;
+}
+
+export async function listLocalDecks(): Promise<DeckManifestEntry[]> {
+  const stored = await getAllValues<StoredDeck>(DECKS_STORE);
+  return stored.map((item) => item.entry);
+}
+
+export async function saveLocalDeck(id: string, title: string, imported: ImportedDeck): Promise<DeckManifestEntry> {
+  const entry: DeckManifestEntry = {
+    id,
+    title,
+    description: "Imported from an Anki package on this device.",
+    url: `local:${id}`,
+    cardCount: imported.cards.length,
+    local: true
+  };
+  await putValues(
+    MEDIA_STORE,
+    imported.media.map((item) => [mediaKey(id, item.name), item.blob])
+  );
+  const stored: StoredDeck = { entry, deck: { id, title, cards: imported.cards } };
+  await putValues(DECKS_STORE, [[id, stored]]);
+  return entry;
+}
+
+export async function loadLocalDeck(id: string) {
+  const stored = await getValue<StoredDeck>(DECKS_STORE, id);
+  if (!stored) {
+    throw new Error("This deck is no longer stored on this device.");
+  }
+  return stored.deck;
+}
+
+export async function deleteLocalDeck(id: string) {
+  await deleteRange(DECKS_STORE, id);
+  await deleteRange(MEDIA_STORE, IDBKeyRange.bound(`${id}/`, `${id}/\uffff`));
+}
+
+export async function resolveLocalMedia(deckId: string, url: string) {
+  const name = url.replace(/^\/?media\//, "");
+  const key = mediaKey(deckId, name);
+  const cached = objectUrls.get(key);
+  if (cached) return cached;
+  const blob = await getValue<Blob>(MEDIA_STORE, key);
+  if (!blob) {
+    throw new Error(`Audio file ${name} is missing from this device.`);
+  }
+  const objectUrl = URL.createObjectURL(blob);
+  objectUrls.set(key, objectUrl);
+  return objectUrl;
+}
@@ -1,6 +1,7 @@
 import React from "react";
 import ReactDOM from "react-dom/client";
 import App from "./App";
+import { registerServiceWorker } from "./offline";
 import "./index.css";
 
 ReactDOM.createRoot(document.getElementById("root")!).render(
@@ -8,3 +9,7 @@ ReactDOM.createRoot(document.getElementById("root")!).render(
     <App />
   </React.StrictMode>
 );
+
+if (import.meta.env.PROD) {
+  registerServiceWorker();
+}
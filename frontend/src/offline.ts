@@ -0,0 +1,110 @@
+import { resolveAssetUrl } from "./deck";
+import type { Deck } from "./types";
+
+// Shared with service-worker.js, which answers media requests from this cache and adds
+// every clip that is played while online.
+const AUDIO_CACHE = "deckster-audio-v1";
+const DOWNLOAD_CONCURRENCY = 4;
+
+export type StorageEstimate = {
+  usage: number;
+  quota: number;
+};
+
+export type DownloadProgress = {
+  done: number;
+  total: number;
+  failed: number;
+};
+
+export function isOfflineSupported() {
+  return typeof window !== "undefined" && "caches" in window && "serviceWorker" in navigator;
+}
+
+export function registerServiceWorker() {
+  if (!isOfflineSupported()) return;
+  // A failed registration shows in the Offline dialog, which then reports offline
+  // support as not set up.
+  window.addEventListener("load", () => {
+    navigator.serviceWorker.register("./sw.js").catch(() => undefined);
+  });
+}
+
+export async function isServiceWorkerActive() {
+  if (!isOfflineSupported()) return false;
+  const registration = await navigator.serviceWorker.getRegistration();
+  return Boolean(registration?.active);
+}
+
+// Imported decks keep their audio in IndexedDB already, so only served decks need this.
+export function deckAudioUrls(deck: Deck) {
+  if (deck.local) return [];
+  const urls = deck.cards
+    .map((card) => card.audio_url)
+    .filter((url): url is string => Boolean(url))
+    .map(resolveAssetUrl);
+  return [...new Set(urls)];
+}
+
+export async function countCachedAudio(urls: string[]) {
+  if (!isOfflineSupported() || urls.length === 0) return 0;
+  const cache = await caches.open(AUDIO_CACHE);
+  const cached = new Set((await cache.keys()).map((request) => request.url));
+  return urls.filter((url) => cached.has(url)).length;
+}
+
+export async function downloadAudio(
+  urls: string[],
+  onProgress: (progress: DownloadProgress) => void,
+  signal: AbortSignal
+) {
+  const cache = await caches.open(AUDIO_CACHE);
+  const cached = new Set((await cache.keys()).map((request) => request.url));
+  const pending = urls.filter((url) => !cached.has(url));
+  const progress: DownloadProgress = { done: 0, total: pending.length, failed: 0 };
+  onProgress({ ...progress });
+
+  const worker = async () => {
+    while (pending.length > 0 && !signal.aborted) {
+      const url = pending.shift()!;
+      try {
+        const response = await fetch(url, { signal });
+        if (!response.ok) throw new Error(`${response.status}`);
+        await cache.put(url, response);
+      } catch {
+        if (signal.aborted) return;
+        progress.failed += 1;
+      }
+      progress.done += 1;
+      onProgress({ ...progress });
+    }
+  };
+  await Promise.all(Array.from({ length: DOWNLOAD_CONCURRENCY }, worker));
+  return progress;
+}
+
+export async function removeAudio(urls: string[]) {
+  if (!isOfflineSupported()) return;
+  const cache = await caches.open(AUDIO_CACHE);
+  await Promise.all(urls.map((url) => cache.delete(url)));
+}
+
+export async function estimateStorage(): Promise<StorageEstimate | null> {
+  if (typeof navigator === "undefined" || !navigator.storage?.estimate) return null;
+  const { usage, quota } = await navigator.storage.estimate();
+  return usage === undefined || quota === undefined ? null : { usage, quota };
+}
+
+// Asks the browser not to evict the downloads under storage pressure. Browsers may
+// grant this silently, prompt, or refuse; the download works either way.
+export async function requestPersistentStorage() {
+  if (typeof navigator === "undefined" || !navigator.storage?.persist) return false;
+  return navigator.storage.persist().catch(() => false);
+}
+
+export function formatBytes(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+}
@@ -0,0 +1,74 @@
+// Everything the app keeps in localStorage is wrapped as { version, data }. A store's
+// version is one more than its number of migrations, and each migration upgrades the
+// data of one version to the next. Data written before the wrapper existed sits under
+// the old "-v1" keys and counts as version 1; it moves to the new key on first read.
+// Stores added after the wrapper have no legacy key.
+
+type Migration = (data: Record<string, unknown>) => Record<string, unknown>;
+
+export type Store = {
+  key: string;
+  legacyKey?: string;
+  migrations: Migration[];
+};
+
+type Envelope = { version: number; data: unknown };
+
+export function storeVersion(store: Store) {
+  return store.migrations.length + 1;
+}
+
+function scopedKey(key: string, scope?: string) {
+  return scope === undefined ? key : `${key}:${scope}`;
+}
+
+function readRaw(key: string): unknown {
+  try {
+    const raw = window.localStorage.getItem(key);
+    return raw === null ? null : JSON.parse(raw);
+  } catch {
+    return null;
+  }
+}
+
+function isEnvelope(value: unknown): value is Envelope {
+  if (!value || typeof value !== "object") return false;
+  return Number.isInteger((value as Envelope).version) && "data" in value;
+}
+
+// Data from a newer version of the app is passed on as it is: the parsers keep what they
+// understand and fall back to defaults for the rest.
+export function upgrade(store: Store, data: unknown, version: number): unknown {
+  if (!data || typeof data !== "object") return null;
+  let upgraded = data as Record<string, unknown>;
+  for (let from = Math.max(version, 1); from < storeVersion(store); from += 1) {
+    upgraded = store.migrations[from - 1](upgraded);
+  }
+  return upgraded;
+}
+
+export function writeStore(store: Store, data: unknown, scope?: string) {
+  if (typeof window === "undefined") return;
+  const envelope: Envelope = { version: storeVersion(store), data };
+  window.localStorage.setItem(scopedKey(store.key, scope), JSON.stringify(envelope));
+}
+
+export function readStore(store: Store, scope?: string): unknown {
+  if (typeof window === "undefined") return null;
+  const stored = readRaw(scopedKey(store.key, scope));
+  if (isEnvelope(stored)) return upgrade(store, stored.data, stored.version);
+  if (!store.legacyKey) return null;
+  const legacyKey = scopedKey(store.legacyKey, scope);
+  const legacy = readRaw(legacyKey);
+  if (legacy === null) return null;
+  const data = upgrade(store, legacy, 1);
+  writeStore(store, data, scope);
+  window.localStorage.removeItem(legacyKey);
+  return data;
+}
+
+export function removeStore(store: Store, scope?: string) {
+  if (typeof window === "undefined") return;
+  window.localStorage.removeItem(scopedKey(store.key, scope));
+  if (store.legacyKey) window.localStorage.removeItem(scopedKey(store.legacyKey, scope));
+}
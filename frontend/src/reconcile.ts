@@ -0,0 +1,101 @@
+import type { ProgressState } from "./storage";
+import type { Card } from "./types";
+
+// Progress refers to cards by id. When a deck is regenerated and ids change, the note id
+// usually survives, so stored ids are matched against the deck by id first and by note
+// id second. Only cards matched neither way are dropped.
+
+export function createIdResolver(cards: Card[], noteIdOf: Map<string, string>) {
+  const deckIds = new Set(cards.map((card) => card.id));
+  const byNoteId = new Map(cards.map((card) => [card.note_id, card.id]));
+  const resolved = new Map<string, string | null>();
+  let matchedById = 0;
+  let matchedByNoteId = 0;
+  const unmatched: string[] = [];
+
+  const resolve = (id: string) => {
+    if (resolved.has(id)) return resolved.get(id) ?? null;
+    let target: string | null = null;
+    if (deckIds.has(id)) {
+      target = id;
+      matchedById += 1;
+    } else {
+      const noteId = noteIdOf.get(id);
+      target = (noteId && byNoteId.get(noteId)) || null;
+      if (target) {
+        matchedByNoteId += 1;
+      } else {
+        unmatched.push(id);
+      }
+    }
+    resolved.set(id, target);
+    return target;
+  };
+
+  return { resolve, stats: () => ({ matchedById, matchedByNoteId, unmatched }) };
+}
+
+export function referencedCardIds(progress: ProgressState) {
+  return new Set([
+    ...progress.missedIds,
+    ...progress.genderMissedIds,
+    ...progress.clozeMissedIds,
+    ...progress.reverseMissedIds,
+    ...progress.session.missedIds,
+    ...progress.history.map((record) => record.cardId),
+    ...Object.keys(progress.schedules),
+    ...Object.keys(progress.reverseSchedules),
+    ...Object.keys(progress.changedAt)
+  ]);
+}
+
+// Note ids of the cards progress refers to, taken from the deck, or kept from before
+// for cards the deck no longer has.
+export function noteIdsFor(progress: ProgressState, cardById: Map<string, Card>) {
+  const noteIds: Record<string, string> = {};
+  referencedCardIds(progress).forEach((id) => {
+    const noteId = cardById.get(id)?.note_id ?? progress.noteIds[id];
+    if (noteId) noteIds[id] = noteId;
+  });
+  return noteIds;
+}
+
+// `remapped` maps old card ids to the new ones, for data kept outside the progress such
+// as the review log.
+export function reconcileProgress(progress: ProgressState, cards: Card[]) {
+  const { resolve, stats } = createIdResolver(cards, new Map(Object.entries(progress.noteIds)));
+  const remapIds = (ids: string[]) => [...new Set(ids.map(resolve).filter((id): id is string => Boolean(id)))];
+  const remapKeys = <T>(values: Record<string, T>) => {
+    const remapped: Record<string, T> = {};
+    for (const [id, value] of Object.entries(values)) {
+      const target = resolve(id);
+      if (target) remapped[target] = value;
+    }
+    return remapped;
+  };
+
+  const reconciled: ProgressState = {
+    ...progress,
+    missedIds: remapIds(progress.missedIds),
+    genderMissedIds: remapIds(progress.genderMissedIds),
+    clozeMissedIds: remapIds(progress.clozeMissedIds),
+    reverseMissedIds: remapIds(progress.reverseMissedIds),
+    schedules: remapKeys(progress.schedules),
+    reverseSchedules: remapKeys(progress.reverseSchedules),
+    changedAt: remapKeys(progress.changedAt),
+    session: { ...progress.session, missedIds: remapIds(progress.session.missedIds) },
+    history: progress.history.flatMap((record) => {
+      const target = resolve(record.cardId);
+      return target ? [{ ...record, cardId: target }] : [];
+    })
+  };
+  const cardById = new Map(cards.map((card) => [card.id, card]));
+  reconciled.noteIds = noteIdsFor(reconciled, cardById);
+
+  const remapped = new Map<string, string>();
+  referencedCardIds(progress).forEach((id) => {
+    const target = resolve(id);
+    if (target && target !== id) remapped.set(id, target);
+  });
+  return { progress: reconciled, remapped, ...stats() };
+}
@@ -0,0 +1,91 @@
+import {
+  REVIEWS_STORE,
+  addValue,
+  addValues,
+  deleteFromIndex,
+  deleteRange,
+  getAllFromIndex,
+  putAllValues,
+  putValue,
+  replaceInIndex
+} from "./db";
+import type { Grade } from "./scheduler";
+import type { CardDirection, StudyMode } from "./storage";
+
+// Every answer is appended to an IndexedDB log. Progress in localStorage only holds the
+// current state; the log is what the statistics view is computed from.
+
+export type ReviewLogEntry = {
+  id?: number;
+  deckId: string;
+  cardId: string;
+  timestamp: number;
+  grade: Grade;
+  mode: StudyMode;
+  responseMs: number;
+  flipped: boolean;
+  audioPlayed: boolean;
+  // How often the audio was played before answering; missing on older entries.
+  audioPlays?: number;
+  // Interval in days before this answer, or null when the card was new.
+  previousInterval: number | null;
+  // Missing on entries recorded before directions existed, which were all German to English.
+  direction?: CardDirection;
+};
+
+export function appendReview(entry: ReviewLogEntry) {
+  return addValue(REVIEWS_STORE, entry);
+}
+
+export async function loadReviews(deckId: string) {
+  const entries = await getAllFromIndex<ReviewLogEntry>(REVIEWS_STORE, "deckId", deckId);
+  return entries.sort((a, b) => a.timestamp - b.timestamp);
+}
+
+async function findReview(deckId: string, cardId: string, timestamp: number) {
+  const entries = await getAllFromIndex<ReviewLogEntry>(REVIEWS_STORE, "deckId", deckId);
+  return entries.find((entry) => entry.cardId === cardId && entry.timestamp === timestamp);
+}
+
+// Undo and re-grading find the logged answer by card and time, which identify it uniquely.
+export async function removeReview(deckId: string, cardId: string, timestamp: number) {
+  const entry = await findReview(deckId, cardId, timestamp);
+  if (entry?.id !== undefined) await deleteRange(REVIEWS_STORE, entry.id);
+}
+
+export async function regradeReview(deckId: string, cardId: string, timestamp: number, grade: Grade) {
+  const entry = await findReview(deckId, cardId, timestamp);
+  if (entry) await putValue(REVIEWS_STORE, { ...entry, grade });
+}
+
+// Points logged answers at the new ids of cards whose ids changed with the deck, in one
+// transaction so that a reconcile is never left half done.
+export async function remapReviews(deckId: string, remapped: Map<string, string>) {
+  const entries = await loadReviews(deckId);
+  const moved = entries.flatMap((entry) => {
+    const target = remapped.get(entry.cardId);
+    return target ? [{ ...entry, cardId: target }] : [];
+  });
+  if (moved.length > 0) await putAllValues(REVIEWS_STORE, moved);
+}
+
+export function clearReviews(deckId: string) {
+  return deleteFromIndex(REVIEWS_STORE, "deckId", deckId);
+}
+
+export function addReviews(entries: ReviewLogEntry[]) {
+  return addValues(
+    REVIEWS_STORE,
+    entries.map(({ id: _id, ...entry }) => entry)
+  );
+}
+
+// A replacing import must not leave the deck without a log when adding the new one fails.
+export function replaceReviews(deckId: string, entries: ReviewLogEntry[]) {
+  return replaceInIndex(
+    REVIEWS_STORE,
+    "deckId",
+    deckId,
+    entries.map(({ id: _id, ...entry }) => entry)
+  );
+}
@@ -0,0 +1,112 @@
+export type Grade = "again" | "hard" | "good" | "easy";
+
+export type CardSchedule = {
+  interval: number;
+  ease: number;
+  due: number;
+  lapses: number;
+  reps: number;
+  lastReviewed: number;
+};
+
+export const GRADES: Grade[] = ["again", "hard", "good", "easy"];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_EASE = 2.5;
+const MIN_EASE = 1.3;
+
+export function startOfDay(time: number) {
+  const date = new Date(time);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+}
+
+export function endOfDay(time: number) {
+  return startOfDay(time) + DAY_MS - 1;
+}
+
+function addDays(time: number, days: number) {
+  const date = new Date(startOfDay(time));
+  date.setDate(date.getDate() + days);
+  return date.getTime();
+}
+
+// SM-2 with Anki-style grades: "again" resets the card into today's queue, the other
+// grades grow the interval by the card's ease factor.
+export function scheduleCard(prev: CardSchedule | undefined, grade: Grade, now: number): CardSchedule {
+  const reps = prev?.reps ?? 0;
+  const lapses = prev?.lapses ?? 0;
+  const interval = prev?.interval ?? 0;
+  const ease = prev?.ease ?? DEFAULT_EASE;
+
+  if (grade === "again") {
+    return {
+      interval: 0,
+      ease: Math.max(MIN_EASE, ease - 0.2),
+      due: startOfDay(now),
+      lapses: prev ? lapses + 1 : lapses,
+      reps: 0,
+      lastReviewed: now
+    };
+  }
+
+  let nextInterval: number;
+  let nextEase = ease;
+  if (grade === "hard") {
+    nextInterval = reps === 0 ? 1 : Math.max(interval + 1, Math.round(interval * 1.2));
+    nextEase = Math.max(MIN_EASE, ease - 0.15);
+  } else if (grade === "good") {
+    nextInterval = reps === 0 ? 1 : reps === 1 ? 3 : Math.max(interval + 1, Math.round(interval * ease));
+  } else {
+    nextInterval = reps === 0 ? 4 : Math.max(interval + 1, Math.round(interval * ease * 1.3));
+    nextEase = ease + 0.15;
+  }
+
+  return {
+    interval: nextInterval,
+    ease: nextEase,
+    due: addDays(now, nextInterval),
+    lapses,
+    reps: reps + 1,
+    lastReviewed: now
+  };
+}
+
+export function isDue(schedule: CardSchedule | undefined, now: number) {
+  return Boolean(schedule && schedule.due <= endOfDay(now));
+}
+
+export function buildDueQueue(schedules: Record<string, CardSchedule>, cardIds: string[], now: number) {
+  return cardIds
+    .filter((id) => isDue(schedules[id], now))
+    .sort((a, b) => schedules[a].due - schedules[b].due);
+}
+
+export function gradeLabel(grade: Grade) {
+  return grade.charAt(0).toUpperCase() + grade.slice(1);
+}
+
+export function formatInterval(days: number) {
+  if (days <= 0) return "today";
+  if (days === 1) return "1 day";
+  if (days < 30) return `${days} days`;
+  const months = Math.round(days / 30);
+  return months === 1 ? "1 month" : `${months} months`;
+}
+
+export function sanitizeSchedules(value: unknown): Record<string, CardSchedule> {
+  if (!value || typeof value !== "object") return {};
+  const result: Record<string, CardSchedule> = {};
+  for (const [id, entry] of Object.entries(value as Record<string, Partial<CardSchedule>>)) {
+    if (!entry || !Number.isFinite(entry.due)) continue;
+    result[id] = {
+      interval: Number.isFinite(entry.interval) ? Number(entry.interval) : 0,
+      ease: Number.isFinite(entry.ease) ? Math.max(MIN_EASE, Number(entry.ease)) : DEFAULT_EASE,
+      due: Number(entry.due),
+      lapses: Number.isFinite(entry.lapses) ? Number(entry.lapses) : 0,
+      reps: Number.isFinite(entry.reps) ? Number(entry.reps) : 0,
+      lastReviewed: Number.isFinite(entry.lastReviewed) ? Number(entry.lastReviewed) : 0
+    };
+  }
+  return result;
+}
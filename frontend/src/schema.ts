@@ -0,0 +1,241 @@
+import { parseGermanWord } from "./german";
+import { normalizeTags } from "./tags";
+import type { Card, CardField, DeckField, DeckIssue, DeckSchema, SideTemplate } from "./types";
+
+// Deck files from before schemas: four German and English fields, German on the front.
+export const LEGACY_SCHEMA: DeckSchema = {
+  fields: [
+    { id: "de_word", label: "German word", required: true },
+    { id: "de_sentence", label: "German sentence", required: false },
+    { id: "en_word", label: "English word", required: true },
+    { id: "en_sentence", label: "English sentence", required: false }
+  ],
+  front: { word: "{{de_word}}", sentence: "{{de_sentence}}" },
+  back: { word: "{{en_word}}", sentence: "{{en_sentence}}" },
+  languages: { front: "de-DE", back: "en-US" }
+};
+
+// Cards with a schema keep their values under `fields`; older deck files have the four
+// German and English fields at the top level of each card. Tags sit on the card in both.
+type RawCard = {
+  id?: unknown;
+  note_id?: unknown;
+  fields?: unknown;
+  audio_url?: unknown;
+  tags?: unknown;
+  [field: string]: unknown;
+};
+
+const FIELD_ID = /^[A-Za-z0-9_-]+$/;
+const TEMPLATE_PATTERN = /\{\{\s*([A-Za-z0-9_-]+)\s*\}\}/g;
+
+export function templateFields(template: string) {
+  return [...template.matchAll(TEMPLATE_PATTERN)].map((match) => match[1]);
+}
+
+// Missing fields render as nothing, and the spaces around them collapse.
+export function renderTemplate(template: string, fields: Record<string, string>) {
+  return template
+    .replace(TEMPLATE_PATTERN, (_, name: string) => fields[name] ?? "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+export function isGerman(language: string) {
+  return language.toLowerCase().split("-")[0] === "de";
+}
+
+// "de-DE" reads as "German": the region rarely matters on a flashcard.
+export function languageName(language: string) {
+  const primary = language.split("-")[0];
+  try {
+    return new Intl.DisplayNames(["en"], { type: "language" }).of(primary) ?? language;
+  } catch {
+    return language;
+  }
+}
+
+export function languageNames(schema: DeckSchema) {
+  return { front: languageName(schema.languages.front), back: languageName(schema.languages.back) };
+}
+
+// Labels for the rendered sides, e.g. "Spanish word" for de_word in a Spanish deck.
+export function sideLabels(schema: DeckSchema): Record<CardField, string> {
+  const names = languageNames(schema);
+  return {
+    de_word: `${names.front} word`,
+    de_sentence: `${names.front} sentence`,
+    en_word: `${names.back} word`,
+    en_sentence: `${names.back} sentence`
+  };
+}
+
+function validLanguage(value: unknown): value is string {
+  if (typeof value !== "string" || !value.trim()) return false;
+  try {
+    return Intl.getCanonicalLocales(value).length === 1;
+  } catch {
+    return false;
+  }
+}
+
+function parseSide(value: unknown, side: string, fieldIds: Set<string>, problems: string[]): SideTemplate {
+  const raw = (value && typeof value === "object" ? value : {}) as Partial<Record<keyof SideTemplate, unknown>>;
+  if (typeof raw.word !== "string" || !raw.word.trim()) {
+    problems.push(`The ${side} template has no word.`);
+  }
+  if (raw.sentence !== undefined && typeof raw.sentence !== "string") {
+    problems.push(`The ${side} sentence template is not text.`);
+  }
+  const template = {
+    word: typeof raw.word === "string" ? raw.word : "",
+    sentence: typeof raw.sentence === "string" ? raw.sentence : ""
+  };
+  [template.word, template.sentence].flatMap(templateFields).forEach((name) => {
+    if (!fieldIds.has(name)) problems.push(`The ${side} template uses {{${name}}}, which is not a declared field.`);
+  });
+  return template;
+}
+
+// A schema is all or nothing: without valid fields and templates no card can be read, so
+// problems here fail the whole deck rather than every card in it.
+export function parseSchema(value: unknown): { schema: DeckSchema | null; problems: string[] } {
+  const problems: string[] = [];
+  if (!value || typeof value !== "object") {
+    return { schema: null, problems: ["The schema is not an object."] };
+  }
+  const raw = value as Record<string, unknown>;
+  const fields: DeckField[] = [];
+  if (!Array.isArray(raw.fields) || raw.fields.length === 0) {
+    problems.push("The schema declares no fields.");
+  } else {
+    raw.fields.forEach((item, position) => {
+      const field = (item && typeof item === "object" ? item : {}) as Record<string, unknown>;
+      const id = typeof field.id === "string" ? field.id.trim() : "";
+      if (!FIELD_ID.test(id)) {
+        problems.push(`Field ${position + 1} needs an id made of letters, digits, _ or -.`);
+      } else if (fields.some((other) => other.id === id)) {
+        problems.push(`The field ${id} is declared twice.`);
+      } else {
+        const label = typeof field.label === "string" && field.label.trim() ? field.label.trim() : id;
+        fields.push({ id, label, required: field.required === true });
+      }
+    });
+  }
+  const fieldIds = new Set(fields.map((field) => field.id));
+  const front = parseSide(raw.front, "front", fieldIds, problems);
+  const back = parseSide(raw.back, "back", fieldIds, problems);
+  const languages = (raw.languages && typeof raw.languages === "object" ? raw.languages : {}) as Record<string, unknown>;
+  if (!validLanguage(languages.front)) problems.push("The schema needs a language code for the front, such as \"es-ES\".");
+  if (languages.back !== undefined && !validLanguage(languages.back)) problems.push("The back language code is not valid.");
+  if (problems.length > 0) return { schema: null, problems };
+  return {
+    schema: {
+      fields,
+      front,
+      back,
+      languages: {
+        front: String(languages.front).trim(),
+        back: typeof languages.back === "string" ? languages.back.trim() : "en"
+      }
+    },
+    problems
+  };
+}
+
+// Checks one card's field values against the schema. Values are never coerced: a number
+// where text belongs is a problem to fix in the deck, not an empty string.
+export function readFields(value: unknown, schema: DeckSchema) {
+  const problems: string[] = [];
+  const fields: Record<string, string> = {};
+  const raw = (value && typeof value === "object" ? value : {}) as Record<string, unknown>;
+  schema.fields.forEach((field) => {
+    const item = raw[field.id];
+    if (item === undefined || item === null) {
+      fields[field.id] = "";
+    } else if (typeof item !== "string") {
+      problems.push(`${field.label} is not text.`);
+      return;
+    } else {
+      fields[field.id] = item.trim();
+    }
+    if (field.required && !fields[field.id]) problems.push(`${field.label} is empty.`);
+  });
+  return { fields, problems };
+}
+
+function readId(value: unknown) {
+  return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+function readCard(value: unknown, schema: DeckSchema, legacy: boolean): { id: string | null; card: Card | null; problems: string[] } {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return { id: null, card: null, problems: ["It is not an object."] };
+  }
+  const raw = value as RawCard;
+  const problems: string[] = [];
+  const noteId = readId(raw.note_id);
+  const id = readId(raw.id) ?? noteId;
+  if (!id) problems.push("It has neither an id nor a note_id.");
+  if (!legacy && (!raw.fields || typeof raw.fields !== "object")) problems.push("It has no fields object.");
+  const read = readFields(legacy ? raw : raw.fields, schema);
+  problems.push(...read.problems);
+  if (raw.audio_url !== undefined && raw.audio_url !== null && typeof raw.audio_url !== "string") {
+    problems.push("Its audio_url is not text.");
+  }
+  const tagsValid =
+    raw.tags === undefined ||
+    raw.tags === null ||
+    (Array.isArray(raw.tags) && raw.tags.every((tag) => typeof tag === "string"));
+  if (!tagsValid) problems.push("Its tags are not a list of text.");
+  const deWord = renderTemplate(schema.front.word, read.fields);
+  const enWord = renderTemplate(schema.back.word, read.fields);
+  if (read.problems.length === 0 && !deWord) problems.push("Its front word renders empty.");
+  if (read.problems.length === 0 && !enWord) problems.push("Its back word renders empty.");
+  if (!id || problems.length > 0) return { id, card: null, problems };
+  return {
+    id,
+    problems,
+    card: {
+      id,
+      note_id: noteId ?? id,
+      fields: read.fields,
+      de_word: deWord,
+      de_sentence: renderTemplate(schema.front.sentence, read.fields),
+      en_word: enWord,
+      en_sentence: renderTemplate(schema.back.sentence, read.fields),
+      audio_url: typeof raw.audio_url === "string" && raw.audio_url.trim() ? raw.audio_url.trim() : null,
+      tags: Array.isArray(raw.tags) ? normalizeTags(raw.tags as string[]) : [],
+      grammar: isGerman(schema.languages.front) ? parseGermanWord(deWord) : undefined
+    }
+  };
+}
+
+// Reads the cards of a deck file against its schema, or the legacy schema for files
+// without one. Cards that do not fit are left out and listed in `issues`; a broken
+// schema fails the whole deck.
+export function readDeckCards(schemaValue: unknown, cardsValue: unknown) {
+  const legacy = schemaValue === undefined;
+  const parsed = legacy ? { schema: LEGACY_SCHEMA, problems: [] } : parseSchema(schemaValue);
+  if (!parsed.schema) {
+    throw new Error(`The deck has an invalid schema. ${parsed.problems.join(" ")}`);
+  }
+  const schema = parsed.schema;
+  if (cardsValue !== undefined && !Array.isArray(cardsValue)) {
+    throw new Error("The deck has no list of cards.");
+  }
+  const cards: Card[] = [];
+  const issues: DeckIssue[] = [];
+  const seen = new Set<string>();
+  ((cardsValue ?? []) as unknown[]).forEach((value, position) => {
+    const { id, card, problems } = readCard(value, schema, legacy);
+    if (card && seen.has(card.id)) problems.push("Its id is already used by an earlier card.");
+    if (!card || problems.length > 0) {
+      issues.push({ position, cardId: id, problems });
+      return;
+    }
+    seen.add(card.id);
+    cards.push(card);
+  });
+  return { schema, cards, issues };
+}
@@ -0,0 +1,15 @@
+import { describe, expect, it } from "vitest";
+import { formatStudyTime } from "./session";
+
+describe("formatStudyTime", () => {
+  it("rounds to whole seconds", () => {
+    expect(formatStudyTime(0)).toBe("0 s");
+    expect(formatStudyTime(42_400)).toBe("42 s");
+    expect(formatStudyTime(83_000)).toBe("1 min 23 s");
+  });
+
+  it("carries seconds that round up to a minute", () => {
+    expect(formatStudyTime(59_600)).toBe("1 min 0 s");
+    expect(formatStudyTime(119_600)).toBe("2 min 0 s");
+  });
+});
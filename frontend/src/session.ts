@@ -0,0 +1,202 @@
+import { startOfDay } from "./scheduler";
+import type { Card } from "./types";
+
+export type SessionOrder = "sequential" | "shuffled";
+
+export type SessionGoal = "none" | "cards" | "minutes";
+
+// A sub-deck or filtered deck the session is limited to. Its cards are taken when the
+// session starts, so a missed card answered correctly stays in a "missed" session.
+export type SessionFocus = {
+  name: string;
+  cardIds: string[];
+};
+
+export type SessionConfig = {
+  order: SessionOrder;
+  seed: number;
+  // 1-based positions in the deck, inclusive. null leaves that end of the range open.
+  rangeStart: number | null;
+  rangeEnd: number | null;
+  audioOnly: boolean;
+  // null means no limit.
+  newPerDay: number | null;
+  goal: SessionGoal;
+  goalAmount: number;
+  focus: SessionFocus | null;
+};
+
+export type SessionProgress = {
+  startedAt: number;
+  answered: number;
+  correct: number;
+  newCards: number;
+  studyMs: number;
+  missedIds: string[];
+  // Set when the learner carries on past a reached goal, so the summary is not shown again.
+  keptGoing: boolean;
+};
+
+export type NewCardCount = {
+  day: number;
+  count: number;
+};
+
+export type SessionEnd = "goal" | "end" | "limit" | "empty";
+
+// A card left on screen while the learner is away counts for at most this long.
+const MAX_ANSWER_MS = 60_000;
+
+export function newSeed() {
+  return Math.floor(Math.random() * 0xffffffff);
+}
+
+export function defaultSessionConfig(): SessionConfig {
+  return {
+    order: "sequential",
+    seed: newSeed(),
+    rangeStart: null,
+    rangeEnd: null,
+    audioOnly: false,
+    newPerDay: null,
+    goal: "none",
+    goalAmount: 20,
+    focus: null
+  };
+}
+
+export function emptySessionProgress(now = Date.now()): SessionProgress {
+  return { startedAt: now, answered: 0, correct: 0, newCards: 0, studyMs: 0, missedIds: [], keptGoing: false };
+}
+
+function positiveInteger(value: unknown) {
+  return Number.isFinite(value) && Number(value) >= 1 ? Math.floor(Number(value)) : null;
+}
+
+function count(value: unknown) {
+  return Number.isFinite(value) && Number(value) >= 0 ? Number(value) : 0;
+}
+
+function sanitizeFocus(value: unknown): SessionFocus | null {
+  if (!value || typeof value !== "object") return null;
+  const parsed = value as Partial<SessionFocus>;
+  if (typeof parsed.name !== "string" || !Array.isArray(parsed.cardIds)) return null;
+  return { name: parsed.name, cardIds: parsed.cardIds.filter((id): id is string => typeof id === "string") };
+}
+
+export function sanitizeSessionConfig(value: unknown): SessionConfig {
+  const defaults = defaultSessionConfig();
+  if (!value || typeof value !== "object") return defaults;
+  const parsed = value as Partial<SessionConfig>;
+  return {
+    order: parsed.order === "shuffled" ? "shuffled" : "sequential",
+    seed: Number.isFinite(parsed.seed) ? Number(parsed.seed) >>> 0 : defaults.seed,
+    rangeStart: positiveInteger(parsed.rangeStart),
+    rangeEnd: positiveInteger(parsed.rangeEnd),
+    audioOnly: Boolean(parsed.audioOnly),
+    newPerDay: Number.isFinite(parsed.newPerDay) && Number(parsed.newPerDay) >= 0 ? Math.floor(Number(parsed.newPerDay)) : null,
+    goal: parsed.goal === "cards" || parsed.goal === "minutes" ? parsed.goal : "none",
+    goalAmount: positiveInteger(parsed.goalAmount) ?? defaults.goalAmount,
+    focus: sanitizeFocus(parsed.focus)
+  };
+}
+
+export function sanitizeSessionProgress(value: unknown): SessionProgress {
+  if (!value || typeof value !== "object") return emptySessionProgress();
+  const parsed = value as Partial<SessionProgress>;
+  return {
+    startedAt: Number.isFinite(parsed.startedAt) ? Number(parsed.startedAt) : Date.now(),
+    answered: count(parsed.answered),
+    correct: count(parsed.correct),
+    newCards: count(parsed.newCards),
+    studyMs: count(parsed.studyMs),
+    missedIds: Array.isArray(parsed.missedIds)
+      ? parsed.missedIds.filter((id): id is string => typeof id === "string" && id.length > 0)
+      : [],
+    keptGoing: Boolean(parsed.keptGoing)
+  };
+}
+
+export function sanitizeNewCardCount(value: unknown): NewCardCount {
+  if (!value || typeof value !== "object") return { day: 0, count: 0 };
+  const parsed = value as Partial<NewCardCount>;
+  return { day: count(parsed.day), count: count(parsed.count) };
+}
+
+// mulberry32: small, fast and good enough to shuffle a deck the same way every time.
+function seededRandom(seed: number) {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function shuffleWithSeed<T>(items: T[], seed: number): T[] {
+  const random = seededRandom(seed);
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i -= 1) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+export function buildSessionOrder(cards: Card[], config: SessionConfig): Card[] {
+  const start = Math.max(1, config.rangeStart ?? 1);
+  const end = Math.min(cards.length, config.rangeEnd ?? cards.length);
+  const focus = config.focus ? new Set(config.focus.cardIds) : null;
+  const selected = cards
+    .slice(start - 1, end)
+    .filter((card) => (!config.audioOnly || Boolean(card.audio_url)) && (!focus || focus.has(card.id)));
+  return config.order === "shuffled" ? shuffleWithSeed(selected, config.seed) : selected;
+}
+
+export function newCardsToday(counter: NewCardCount, now: number) {
+  return counter.day === startOfDay(now) ? counter.count : 0;
+}
+
+export function countNewCard(counter: NewCardCount, now: number): NewCardCount {
+  return { day: startOfDay(now), count: newCardsToday(counter, now) + 1 };
+}
+
+export function recordSessionAnswer(
+  progress: SessionProgress,
+  cardId: string,
+  correct: boolean,
+  wasNew: boolean,
+  responseMs: number
+): SessionProgress {
+  return {
+    ...progress,
+    answered: progress.answered + 1,
+    correct: progress.correct + (correct ? 1 : 0),
+    newCards: progress.newCards + (wasNew ? 1 : 0),
+    studyMs: progress.studyMs + Math.min(Math.max(responseMs, 0), MAX_ANSWER_MS),
+    missedIds: correct || progress.missedIds.includes(cardId) ? progress.missedIds : [...progress.missedIds, cardId]
+  };
+}
+
+export function isGoalReached(config: SessionConfig, progress: SessionProgress) {
+  if (config.goal === "cards") return progress.answered >= config.goalAmount;
+  if (config.goal === "minutes") return progress.studyMs >= config.goalAmount * 60_000;
+  return false;
+}
+
+export function describeGoal(config: SessionConfig, progress: SessionProgress) {
+  if (config.goal === "cards") return `${Math.min(progress.answered, config.goalAmount)} / ${config.goalAmount} cards`;
+  if (config.goal === "minutes") {
+    return `${Math.min(Math.floor(progress.studyMs / 60_000), config.goalAmount)} / ${config.goalAmount} min`;
+  }
+  return null;
+}
+
+export function formatStudyTime(ms: number) {
+  const total = Math.round(ms / 1000);
+  const minutes = Math.floor(total / 60);
+  const seconds = total % 60;
+  return minutes > 0 ? `${minutes} min ${seconds} s` : `${seconds} s`;
+}
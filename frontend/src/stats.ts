@@ -0,0 +1,134 @@
+import type { ReviewLogEntry } from "./reviewLog";
+import { startOfDay } from "./scheduler";
+
+export type HeatmapDay = {
+  day: number;
+  count: number;
+};
+
+export type RetentionPoint = {
+  weekStart: number;
+  reviews: number;
+  retention: number | null;
+};
+
+export type MissedCardStat = {
+  cardId: string;
+  misses: number;
+  reviews: number;
+};
+
+function isRecall(entry: ReviewLogEntry) {
+  return entry.mode !== "gender" && entry.mode !== "cloze";
+}
+
+function addDays(day: number, days: number) {
+  const date = new Date(day);
+  date.setDate(date.getDate() + days);
+  return date.getTime();
+}
+
+// One cell per day for the last `weeks` weeks, aligned so that every column starts on a Monday.
+export function buildHeatmap(entries: ReviewLogEntry[], now: number, weeks = 26): HeatmapDay[] {
+  const counts = new Map<number, number>();
+  entries.forEach((entry) => {
+    const day = startOfDay(entry.timestamp);
+    counts.set(day, (counts.get(day) ?? 0) + 1);
+  });
+  const today = startOfDay(now);
+  const mondayOffset = (new Date(today).getDay() + 6) % 7;
+  const first = addDays(today, -(weeks - 1) * 7 - mondayOffset);
+  const days: HeatmapDay[] = [];
+  for (let day = first; day <= today; day = addDays(day, 1)) {
+    days.push({ day, count: counts.get(day) ?? 0 });
+  }
+  return days;
+}
+
+// Share of reviews of already-learned cards that were not answered "again", per week.
+export function retentionByWeek(entries: ReviewLogEntry[], now: number, weeks = 12): RetentionPoint[] {
+  const today = startOfDay(now);
+  const mondayOffset = (new Date(today).getDay() + 6) % 7;
+  const currentWeek = addDays(today, -mondayOffset);
+  const points: RetentionPoint[] = [];
+  for (let week = weeks - 1; week >= 0; week -= 1) {
+    const weekStart = addDays(currentWeek, -week * 7);
+    const weekEnd = addDays(weekStart, 7);
+    const reviews = entries.filter(
+      (entry) =>
+        isRecall(entry) && entry.previousInterval !== null && entry.timestamp >= weekStart && entry.timestamp < weekEnd
+    );
+    const retained = reviews.filter((entry) => entry.grade !== "again").length;
+    points.push({ weekStart, reviews: reviews.length, retention: reviews.length ? retained / reviews.length : null });
+  }
+  return points;
+}
+
+export function overallRetention(entries: ReviewLogEntry[], since: number) {
+  const reviews = entries.filter(
+    (entry) => isRecall(entry) && entry.previousInterval !== null && entry.timestamp >= since
+  );
+  if (reviews.length === 0) return null;
+  return reviews.filter((entry) => entry.grade !== "again").length / reviews.length;
+}
+
+export function mostMissed(entries: ReviewLogEntry[], limit = 10): MissedCardStat[] {
+  const byCard = new Map<string, MissedCardStat>();
+  entries.filter(isRecall).forEach((entry) => {
+    const stat = byCard.get(entry.cardId) ?? { cardId: entry.cardId, misses: 0, reviews: 0 };
+    stat.reviews += 1;
+    if (entry.grade === "again") stat.misses += 1;
+    byCard.set(entry.cardId, stat);
+  });
+  return [...byCard.values()]
+    .filter((stat) => stat.misses > 0)
+    .sort((a, b) => b.misses - a.misses || b.reviews - a.reviews)
+    .slice(0, limit);
+}
+
+export type ReplayedCardStat = {
+  cardId: string;
+  plays: number;
+  reviews: number;
+};
+
+// Cards whose audio had to be played again and again are the ones the ear has not caught yet.
+export function mostReplayed(entries: ReviewLogEntry[], limit = 5): ReplayedCardStat[] {
+  const byCard = new Map<string, ReplayedCardStat>();
+  entries.forEach((entry) => {
+    if (!entry.audioPlays) return;
+    const stat = byCard.get(entry.cardId) ?? { cardId: entry.cardId, plays: 0, reviews: 0 };
+    stat.plays += entry.audioPlays;
+    stat.reviews += 1;
+    byCard.set(entry.cardId, stat);
+  });
+  return [...byCard.values()]
+    .filter((stat) => stat.plays > stat.reviews)
+    .sort((a, b) => b.plays / b.reviews - a.plays / a.reviews || b.plays - a.plays)
+    .slice(0, limit);
+}
+
+// Answers that took longer than a couple of minutes are the learner walking away, not thinking.
+const MAX_RESPONSE_MS = 2 * 60 * 1000;
+
+export function averageResponseMs(entries: ReviewLogEntry[]) {
+  const timed = entries.filter((entry) => entry.responseMs > 0 && entry.responseMs <= MAX_RESPONSE_MS);
+  if (timed.length === 0) return null;
+  return timed.reduce((sum, entry) => sum + entry.responseMs, 0) / timed.length;
+}
+
+export function reviewsSince(entries: ReviewLogEntry[], since: number) {
+  return entries.filter((entry) => entry.timestamp >= since).length;
+}
+
+export function studyStreak(entries: ReviewLogEntry[], now: number) {
+  const days = new Set(entries.map((entry) => startOfDay(entry.timestamp)));
+  let day = startOfDay(now);
+  if (!days.has(day)) day = addDays(day, -1);
+  let streak = 0;
+  while (days.has(day)) {
+    streak += 1;
+    day = addDays(day, -1);
+  }
+  return streak;
+}
@@ -0,0 +1,330 @@
+import { CARD_FIELDS, type CardField } from "./types";
+import { readStore, removeStore, storeVersion, upgrade, writeStore, type Store } from "./persistence";
+import { sanitizeHistory, type AnswerRecord } from "./history";
+import { defaultAudioSettings, sanitizeAudioSettings, type AudioSettings } from "./audio";
+import { defaultGestureSettings, sanitizeGestureSettings, type GestureSettings } from "./gestures";
+import { defaultKeyBindings, sanitizeKeyBindings, type KeyBindings } from "./keyboard";
+import { normalizeTags } from "./tags";
+import { defaultListeningSettings, sanitizeListeningSettings, type ListeningSettings } from "./listening";
+import { sanitizeSchedules, type CardSchedule } from "./scheduler";
+import { sanitizeSavedFilters, type SavedFilter } from "./subdecks";
+import {
+  defaultSessionConfig,
+  emptySessionProgress,
+  sanitizeNewCardCount,
+  sanitizeSessionConfig,
+  sanitizeSessionProgress,
+  type NewCardCount,
+  type SessionConfig,
+  type SessionProgress
+} from "./session";
+
+// When each card last changed, seeded from its schedules for progress kept before v3.
+function seedChangedAt(data: Record<string, unknown>) {
+  const changedAt: Record<string, number> = {};
+  [data.schedules, data.reverseSchedules].forEach((schedules) => {
+    const valid = sanitizeSchedules(schedules);
+    for (const [id, schedule] of Object.entries(valid)) {
+      if (schedule.lastReviewed > (changedAt[id] ?? 0)) changedAt[id] = schedule.lastReviewed;
+    }
+  });
+  return changedAt;
+}
+
+// v2 records the note id of every card progress refers to, so it can follow cards whose
+// ids change when the deck is regenerated. v3 records when each card last changed.
+const PROGRESS_STORE: Store = {
+  key: "deckster-progress",
+  legacyKey: "deckster-progress-v1",
+  migrations: [(data) => ({ ...data, noteIds: {} }), (data) => ({ ...data, changedAt: seedChangedAt(data) })]
+};
+
+// v2 folds the old typedAnswers switch into studyMode.
+const SETTINGS_STORE: Store = {
+  key: "deckster-settings",
+  legacyKey: "deckster-settings-v1",
+  migrations: [
+    ({ typedAnswers, ...data }) => ({
+      ...data,
+      studyMode: data.studyMode ?? (typedAnswers === true ? "typed" : "flashcards")
+    })
+  ]
+};
+
+const LIBRARY_STORE: Store = { key: "deckster-library", legacyKey: "deckster-library-v1", migrations: [] };
+
+const OVERRIDES_STORE: Store = { key: "deckster-overrides", legacyKey: "deckster-overrides-v1", migrations: [] };
+
+const SYNC_STORE: Store = { key: "deckster-sync", migrations: [] };
+
+const FILTERS_STORE: Store = { key: "deckster-filters", migrations: [] };
+
+// Versions of the progress and settings shapes, recorded wherever they leave the browser.
+export const PROGRESS_VERSION = storeVersion(PROGRESS_STORE);
+export const SETTINGS_VERSION = storeVersion(SETTINGS_STORE);
+
+export type ProgressState = {
+  index: number;
+  missedIds: string[];
+  reviewMode: boolean;
+  reviewIndex: number;
+  schedules: Record<string, CardSchedule>;
+  genderIndex: number;
+  genderMissedIds: string[];
+  clozeIndex: number;
+  clozeMissedIds: string[];
+  // The English-to-German direction is tracked on its own; the fields above are German-to-English.
+  reverseMissedIds: string[];
+  reverseSchedules: Record<string, CardSchedule>;
+  // With a session, index is the position in the session's card order rather than the deck.
+  session: SessionProgress;
+  newCardsToday: NewCardCount;
+  history: AnswerRecord[];
+  // Card id to note id for every card referred to above.
+  noteIds: Record<string, string>;
+  // When each card's schedules or missed flags last changed. Sync keeps the later change.
+  changedAt: Record<string, number>;
+};
+
+export type StudyMode = "flashcards" | "typed" | "choice" | "gender" | "cloze" | "listening";
+
+export type CardDirection = "de-en" | "en-de";
+
+export type DirectionSetting = CardDirection | "mixed";
+
+export type SettingsState = {
+  showGermanSentence: boolean;
+  showEnglishSentence: boolean;
+  studyMode: StudyMode;
+  direction: DirectionSetting;
+  session: SessionConfig;
+  audio: AudioSettings;
+  keys: KeyBindings;
+  gestures: GestureSettings;
+  listening: ListeningSettings;
+};
+
+const STUDY_MODES: StudyMode[] = ["flashcards", "typed", "choice", "gender", "cloze", "listening"];
+const DIRECTIONS: DirectionSetting[] = ["de-en", "en-de", "mixed"];
+
+export type LibraryState = {
+  activeDeckId: string | null;
+};
+
+export type SyncTarget = "file" | "http";
+
+// The server password is left out: anything in localStorage can be read by any script on
+// the site and outlives the session, so it is entered again after a reload.
+export type SyncConfig = {
+  target: SyncTarget;
+  // Base URL of an HTTP or WebDAV folder; each deck is one JSON document in it.
+  url: string;
+  username: string;
+  // When each deck was last synced from this browser.
+  lastSynced: Record<string, number>;
+};
+
+// Local edits of a card's text and tags, applied on top of the deck file.
+export type CardOverride = Partial<Record<CardField, string>> & { tags?: string[] };
+
+export type CardOverrides = Record<string, CardOverride>;
+
+export function emptyProgress(): ProgressState {
+  return {
+    index: 0,
+    missedIds: [],
+    reviewMode: false,
+    reviewIndex: 0,
+    schedules: {},
+    genderIndex: 0,
+    genderMissedIds: [],
+    clozeIndex: 0,
+    clozeMissedIds: [],
+    reverseMissedIds: [],
+    reverseSchedules: {},
+    session: emptySessionProgress(),
+    newCardsToday: { day: 0, count: 0 },
+    history: [],
+    noteIds: {},
+    changedAt: {}
+  };
+}
+
+export function defaultSettings(): SettingsState {
+  return {
+    showGermanSentence: true,
+    showEnglishSentence: true,
+    studyMode: "flashcards",
+    direction: "de-en",
+    session: defaultSessionConfig(),
+    audio: defaultAudioSettings(),
+    keys: defaultKeyBindings(),
+    gestures: defaultGestureSettings(),
+    listening: defaultListeningSettings()
+  };
+}
+
+// Before the deck library existed, progress and settings were stored under global
+// keys. Hand them to the first deck that is opened without state of its own, as v1
+// data that the stores then upgrade.
+export function migrateLegacyState(deckId: string) {
+  if (typeof window === "undefined") return;
+  for (const { key, legacyKey } of [PROGRESS_STORE, SETTINGS_STORE]) {
+    const value = legacyKey ? window.localStorage.getItem(legacyKey) : null;
+    if (!legacyKey || value === null) continue;
+    const to = `${legacyKey}:${deckId}`;
+    if (window.localStorage.getItem(to) === null && window.localStorage.getItem(`${key}:${deckId}`) === null) {
+      window.localStorage.setItem(to, value);
+    }
+    window.localStorage.removeItem(legacyKey);
+  }
+}
+
+function sanitizeIds(value: unknown) {
+  return Array.isArray(value) ? value.filter((id): id is string => typeof id === "string" && id.length > 0) : [];
+}
+
+function sanitizeTimes(value: unknown) {
+  const times: Record<string, number> = {};
+  if (!value || typeof value !== "object") return times;
+  for (const [key, time] of Object.entries(value)) {
+    if (Number.isFinite(time) && time > 0) times[key] = Number(time);
+  }
+  return times;
+}
+
+function sanitizeNoteIds(value: unknown) {
+  const noteIds: Record<string, string> = {};
+  if (!value || typeof value !== "object") return noteIds;
+  for (const [cardId, noteId] of Object.entries(value)) {
+    if (typeof noteId === "string" && noteId) noteIds[cardId] = noteId;
+  }
+  return noteIds;
+}
+
+export function parseProgress(parsed: Partial<ProgressState> | null): ProgressState {
+  if (!parsed || typeof parsed !== "object") return emptyProgress();
+  return {
+    index: Number.isFinite(parsed.index) ? Number(parsed.index) : 0,
+    missedIds: sanitizeIds(parsed.missedIds),
+    reviewMode: Boolean(parsed.reviewMode),
+    reviewIndex: Number.isFinite(parsed.reviewIndex) ? Number(parsed.reviewIndex) : 0,
+    schedules: sanitizeSchedules(parsed.schedules),
+    genderIndex: Number.isFinite(parsed.genderIndex) ? Number(parsed.genderIndex) : 0,
+    genderMissedIds: sanitizeIds(parsed.genderMissedIds),
+    clozeIndex: Number.isFinite(parsed.clozeIndex) ? Number(parsed.clozeIndex) : 0,
+    clozeMissedIds: sanitizeIds(parsed.clozeMissedIds),
+    reverseMissedIds: sanitizeIds(parsed.reverseMissedIds),
+    reverseSchedules: sanitizeSchedules(parsed.reverseSchedules),
+    session: sanitizeSessionProgress(parsed.session),
+    newCardsToday: sanitizeNewCardCount(parsed.newCardsToday),
+    history: sanitizeHistory(parsed.history),
+    noteIds: sanitizeNoteIds(parsed.noteIds),
+    changedAt: sanitizeTimes(parsed.changedAt)
+  };
+}
+
+// Backups and sync documents carry progress and settings in the shape of the version that
+// wrote them.
+export function upgradeProgress(data: unknown, version: number) {
+  return parseProgress(upgrade(PROGRESS_STORE, data, version) as Partial<ProgressState> | null);
+}
+
+export function upgradeSettings(data: unknown, version: number) {
+  return parseSettings(upgrade(SETTINGS_STORE, data, version) as Partial<SettingsState> | null);
+}
+
+export function loadProgress(deckId: string): ProgressState {
+  return parseProgress(readStore(PROGRESS_STORE, deckId) as Partial<ProgressState> | null);
+}
+
+export function saveProgress(deckId: string, progress: ProgressState) {
+  writeStore(PROGRESS_STORE, progress, deckId);
+}
+
+export function clearProgress(deckId: string) {
+  removeStore(PROGRESS_STORE, deckId);
+}
+
+export function parseSettings(parsed: Partial<SettingsState> | null): SettingsState {
+  if (!parsed || typeof parsed !== "object") return defaultSettings();
+  return {
+    showGermanSentence: parsed.showGermanSentence !== false,
+    showEnglishSentence: parsed.showEnglishSentence !== false,
+    studyMode: parsed.studyMode && STUDY_MODES.includes(parsed.studyMode) ? parsed.studyMode : "flashcards",
+    direction: parsed.direction && DIRECTIONS.includes(parsed.direction) ? parsed.direction : "de-en",
+    session: sanitizeSessionConfig(parsed.session),
+    audio: sanitizeAudioSettings(parsed.audio),
+    keys: sanitizeKeyBindings(parsed.keys),
+    gestures: sanitizeGestureSettings(parsed.gestures),
+    listening: sanitizeListeningSettings(parsed.listening)
+  };
+}
+
+export function loadSettings(deckId: string): SettingsState {
+  return parseSettings(readStore(SETTINGS_STORE, deckId) as Partial<SettingsState> | null);
+}
+
+export function saveSettings(deckId: string, settings: SettingsState) {
+  writeStore(SETTINGS_STORE, settings, deckId);
+}
+
+export function loadLibrary(): LibraryState {
+  const parsed = readStore(LIBRARY_STORE) as Partial<LibraryState> | null;
+  return { activeDeckId: typeof parsed?.activeDeckId === "string" ? parsed.activeDeckId : null };
+}
+
+export function saveLibrary(library: LibraryState) {
+  writeStore(LIBRARY_STORE, library);
+}
+
+export function loadOverrides(deckId: string): CardOverrides {
+  const parsed = readStore(OVERRIDES_STORE, deckId) as CardOverrides | null;
+  const overrides: CardOverrides = {};
+  if (!parsed || typeof parsed !== "object") return overrides;
+  for (const [cardId, fields] of Object.entries(parsed)) {
+    if (!fields || typeof fields !== "object") continue;
+    const cleaned: CardOverride = {};
+    CARD_FIELDS.forEach((field) => {
+      if (typeof fields[field] === "string") cleaned[field] = fields[field];
+    });
+    if (Array.isArray(fields.tags)) cleaned.tags = normalizeTags(fields.tags.filter((tag) => typeof tag === "string"));
+    if (Object.keys(cleaned).length > 0) overrides[cardId] = cleaned;
+  }
+  return overrides;
+}
+
+export function saveOverrides(deckId: string, overrides: CardOverrides) {
+  writeStore(OVERRIDES_STORE, overrides, deckId);
+}
+
+export function clearOverrides(deckId: string) {
+  removeStore(OVERRIDES_STORE, deckId);
+}
+
+export function loadFilters(deckId: string): SavedFilter[] {
+  return sanitizeSavedFilters(readStore(FILTERS_STORE, deckId));
+}
+
+export function saveFilters(deckId: string, filters: SavedFilter[]) {
+  writeStore(FILTERS_STORE, filters, deckId);
+}
+
+export function clearFilters(deckId: string) {
+  removeStore(FILTERS_STORE, deckId);
+}
+
+export function loadSyncConfig(): SyncConfig {
+  const parsed = readStore(SYNC_STORE) as Partial<SyncConfig> | null;
+  const text = (value: unknown) => (typeof value === "string" ? value : "");
+  return {
+    target: parsed?.target === "http" ? "http" : "file",
+    url: text(parsed?.url),
+    username: text(parsed?.username),
+    lastSynced: sanitizeTimes(parsed?.lastSynced)
+  };
+}
+
+export function saveSyncConfig(config: SyncConfig) {
+  writeStore(SYNC_STORE, config);
+}
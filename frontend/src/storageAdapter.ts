@@ -0,0 +1,224 @@
+import { downloadFile, reviewKey } from "./backup";
+import { addReviews, loadReviews, type ReviewLogEntry } from "./reviewLog";
+import { loadProgress, loadSettings, saveProgress, saveSettings } from "./storage";
+import { createSyncDocument, parseSyncDocument, type DeckState } from "./sync";
+import type { Deck } from "./types";
+
+// Where a deck's progress, settings and review log are kept. The study view reads its
+// working copy from one on start and writes it back as the learner studies; the app uses
+// the browser's own storage for that, and the other adapters are places to sync it with.
+
+// The study view saves without the review log, which it writes answer by answer on its
+// own; the stored log is then kept as it is.
+export type SavedDeckState = Omit<DeckState, "reviews"> & { reviews?: ReviewLogEntry[] };
+
+export type StorageAdapter = {
+  // Names the place in messages, e.g. "server".
+  label: string;
+  // Resolves to null when nothing is stored for the deck yet.
+  load: (deck: Deck) => Promise<DeckState | null>;
+  // Resolves to false, without saving, when the stored copy changed since it was loaded.
+  save: (deck: Deck, state: SavedDeckState) => Promise<boolean>;
+};
+
+export const browserStorage: StorageAdapter = {
+  label: "browser",
+  // Studying works without IndexedDB, only the statistics are missing then.
+  load: async (deck) => ({
+    progress: loadProgress(deck.id),
+    settings: loadSettings(deck.id),
+    reviews: await loadReviews(deck.id).catch(() => [])
+  }),
+  save: async (deck, state) => {
+    saveProgress(deck.id, state.progress);
+    saveSettings(deck.id, state.settings);
+    if (!state.reviews) return true;
+    // The review log only ever grows by sync.
+    const known = new Set((await loadReviews(deck.id)).map(reviewKey));
+    await addReviews(state.reviews.filter((entry) => !known.has(reviewKey(entry))));
+    return true;
+  }
+};
+
+// A sync file holds every deck synced through it, keyed by deck id.
+const SYNC_FILE_FORMAT = "deckster-sync-file";
+
+type SyncFile = {
+  format: typeof SYNC_FILE_FORMAT;
+  decks: Record<string, unknown>;
+};
+
+export type FileAccess = {
+  name: string;
+  // Resolves to null for a file that is new or empty.
+  read: () => Promise<string | null>;
+  write: (text: string) => Promise<void>;
+};
+
+type FilePickerOptions = {
+  suggestedName?: string;
+  types?: Array<{ description: string; accept: Record<string, string[]> }>;
+};
+
+// The File System Access API is not in every browser, nor in TypeScript's DOM types.
+type FilePickerWindow = Window & {
+  showOpenFilePicker?: (options?: FilePickerOptions) => Promise<FileSystemFileHandle[]>;
+  showSaveFilePicker?: (options?: FilePickerOptions) => Promise<FileSystemFileHandle>;
+};
+
+const PICKER_OPTIONS: FilePickerOptions = {
+  suggestedName: "deckster-sync.json",
+  types: [{ description: "Deckster Lab sync file", accept: { "application/json": [".json"] } }]
+};
+
+export function canPickFiles() {
+  return typeof window !== "undefined" && typeof (window as FilePickerWindow).showOpenFilePicker === "function";
+}
+
+function handleAccess(handle: FileSystemFileHandle): FileAccess {
+  return {
+    name: handle.name,
+    read: async () => (await (await handle.getFile()).text()) || null,
+    write: async (text) => {
+      const writable = await handle.createWritable();
+      await writable.write(text);
+      await writable.close();
+    }
+  };
+}
+
+// Lets the user pick a sync file the app can read and write in place, or create one.
+export async function pickSyncFile(create: boolean): Promise<FileAccess> {
+  const picker = window as FilePickerWindow;
+  if (create) {
+    return handleAccess(await picker.showSaveFilePicker!(PICKER_OPTIONS));
+  }
+  const [handle] = await picker.showOpenFilePicker!(PICKER_OPTIONS);
+  return handleAccess(handle);
+}
+
+// Without the File System Access API the file is uploaded, and the merged file is
+// downloaded to replace it. Without an upload a new file is started.
+export function uploadedSyncFile(file: File | null): FileAccess {
+  const name = file?.name ?? "deckster-sync.json";
+  return {
+    name,
+    read: async () => (file ? await file.text() : null),
+    write: async (text) => downloadFile(name, text, "application/json")
+  };
+}
+
+function parseSyncFile(text: string | null): SyncFile {
+  if (!text) return { format: SYNC_FILE_FORMAT, decks: {} };
+  let raw: Partial<SyncFile>;
+  try {
+    raw = JSON.parse(text) as Partial<SyncFile>;
+  } catch {
+    throw new Error("The sync file is not valid JSON.");
+  }
+  if (!raw || raw.format !== SYNC_FILE_FORMAT || !raw.decks || typeof raw.decks !== "object") {
+    throw new Error("This is not a Deckster Lab sync file.");
+  }
+  return { format: SYNC_FILE_FORMAT, decks: raw.decks };
+}
+
+export function createFileAdapter(access: FileAccess): StorageAdapter {
+  return {
+    label: "sync file",
+    load: async (deck) => {
+      const file = parseSyncFile(await access.read());
+      return file.decks[deck.id] ? parseSyncDocument(file.decks[deck.id], deck) : null;
+    },
+    // The other decks in the file are read again so they are kept as they are now.
+    save: async (deck, state) => {
+      const file = parseSyncFile(await access.read());
+      const stored = file.decks[deck.id];
+      const reviews = state.reviews ?? (stored ? parseSyncDocument(stored, deck).reviews : []);
+      file.decks[deck.id] = createSyncDocument(deck, { ...state, reviews });
+      await access.write(JSON.stringify(file, null, 2));
+      return true;
+    }
+  };
+}
+
+export type HttpTarget = {
+  url: string;
+  username: string;
+  password: string;
+};
+
+function basicAuth(username: string, password: string) {
+  const bytes = new TextEncoder().encode(`${username}:${password}`);
+  return `Basic ${btoa(String.fromCharCode(...bytes))}`;
+}
+
+// Each deck is one JSON document under the base URL, read with GET and written with PUT,
+// which any WebDAV server accepts. ETags make a save fail when another device saved after
+// this one loaded, rather than overwrite its changes.
+export function createHttpAdapter(target: HttpTarget): StorageAdapter {
+  const base = target.url.trim().replace(/\/+$/, "");
+  const documentUrl = (deck: Deck) => `${base}/${encodeURIComponent(deck.id)}.json`;
+  const headers: Record<string, string> =
+    target.username || target.password ? { Authorization: basicAuth(target.username, target.password) } : {};
+  // Per deck, the ETag of the loaded document, or null when there was none, and its
+  // logged answers, which a save without reviews writes back.
+  const versions = new Map<string, string | null>();
+  const loadedReviews = new Map<string, ReviewLogEntry[]>();
+
+  const request = async (url: string, init: RequestInit) => {
+    try {
+      return await fetch(url, { ...init, cache: "no-store" });
+    } catch {
+      throw new Error(`Could not reach ${base}. Check the address and that the server allows this site (CORS).`);
+    }
+  };
+  const failed = (response: Response) =>
+    new Error(
+      response.status === 401 || response.status === 403
+        ? "The server refused the user name or password."
+        : `The server answered ${response.status} ${response.statusText}.`
+    );
+
+  return {
+    label: "server",
+    load: async (deck) => {
+      const response = await request(documentUrl(deck), { headers });
+      if (response.status === 404) {
+        versions.set(deck.id, null);
+        loadedReviews.set(deck.id, []);
+        return null;
+      }
+      if (!response.ok) throw failed(response);
+      versions.set(deck.id, response.headers.get("ETag"));
+      let body: unknown;
+      try {
+        body = await response.json();
+      } catch {
+        throw new Error("The server sent something other than JSON.");
+      }
+      const state = parseSyncDocument(body, deck);
+      loadedReviews.set(deck.id, state.reviews);
+      return state;
+    },
+    save: async (deck, state) => {
+      const version = versions.get(deck.id);
+      const condition: Record<string, string> =
+        version === null ? { "If-None-Match": "*" } : version ? { "If-Match": version } : {};
+      const response = await request(documentUrl(deck), {
+        method: "PUT",
+        headers: { ...headers, ...condition, "Content-Type": "application/json" },
+        body: JSON.stringify(
+          createSyncDocument(deck, { ...state, reviews: state.reviews ?? loadedReviews.get(deck.id) ?? [] })
+        )
+      });
+      if (response.status === 412) return false;
+      if (!response.ok) throw failed(response);
+      // A later save must match the document written now; without an ETag it is unchecked.
+      const written = response.headers.get("ETag");
+      if (written) versions.set(deck.id, written);
+      else versions.delete(deck.id);
+      if (state.reviews) loadedReviews.set(deck.id, state.reviews);
+      return true;
+    }
+  };
+}
@@ -0,0 +1,279 @@
+import { describe, expect, it } from "vitest";
+import { startOfDay, type CardSchedule } from "./scheduler";
+import { defaultSessionConfig, type SessionConfig } from "./session";
+import {
+  applyStudyAction,
+  createStudyEngine,
+  emptyStudyState,
+  studyView,
+  type StudyContext,
+  type StudyState
+} from "./studyEngine";
+import type { Card } from "./types";
+
+const NOW = new Date(2026, 3, 15, 12).getTime();
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function card(id: string, extra: Partial<Card> = {}): Card {
+  return {
+    id,
+    note_id: `note-${id}`,
+    fields: {},
+    de_word: `Wort ${id}`,
+    de_sentence: "",
+    en_word: `word ${id}`,
+    en_sentence: "",
+    audio_url: null,
+    tags: [],
+    ...extra
+  };
+}
+
+function context(cards: Card[], config: Partial<SessionConfig> = {}): StudyContext {
+  return {
+    cards,
+    config: { ...defaultSessionConfig(), ...config },
+    directionOf: () => "de-en",
+    eligible: () => true
+  };
+}
+
+// Answered well yesterday, due from the start of today like a card answered "again".
+function dueSchedule(): CardSchedule {
+  return { interval: 1, ease: 2.5, due: startOfDay(NOW), lapses: 0, reps: 1, lastReviewed: NOW - DAY_MS };
+}
+
+function state(patch: Partial<StudyState> = {}): StudyState {
+  return { ...emptyStudyState(), ...patch };
+}
+
+const deck = [card("a"), card("b"), card("c")];
+
+describe("study engine", () => {
+  describe("with an empty deck", () => {
+    it("shows no card and no session end", () => {
+      const view = studyView(state(), context([]), NOW);
+      expect(view.currentCard).toBeNull();
+      expect(view.nextCard).toBeNull();
+      expect(view.sessionEnd).toBeNull();
+      expect(view.reviewQueue).toEqual([]);
+    });
+
+    it("ignores answers and review", () => {
+      const before = state();
+      for (const action of [
+        { type: "answer", grade: "good", responseMs: 1000 },
+        { type: "startReview" },
+        { type: "undo" }
+      ] as const) {
+        const result = applyStudyAction(before, action, context([]), NOW);
+        expect(result.state).toBe(before);
+        expect(result.events).toEqual([]);
+      }
+    });
+
+    it("keeps the progress of a deck that has no cards", () => {
+      const kept = state({ missedIds: ["a"], schedules: { a: dueSchedule() } });
+      const engine = createStudyEngine(kept, context([]), () => NOW);
+      expect(engine.getState()).toBe(kept);
+    });
+  });
+
+  describe("answering", () => {
+    it("moves through the session in order and reports each answer", () => {
+      const engine = createStudyEngine(state(), context(deck), () => NOW);
+      expect(engine.getView().currentCard?.id).toBe("a");
+
+      const events = engine.dispatch({ type: "answer", grade: "again", responseMs: 2500 });
+      expect(events).toEqual([
+        {
+          type: "answered",
+          cardId: "a",
+          direction: "de-en",
+          grade: "again",
+          timestamp: NOW,
+          responseMs: 2500,
+          previousInterval: null
+        }
+      ]);
+      expect(engine.getState().missedIds).toEqual(["a"]);
+      expect(engine.getState().schedules.a).toBeDefined();
+      expect(engine.getState().newCardsToday.count).toBe(1);
+      expect(engine.getView().currentCard?.id).toBe("b");
+    });
+
+    it("ends the session after the last card", () => {
+      const engine = createStudyEngine(state({ index: 2 }), context(deck), () => NOW);
+      const events = engine.dispatch({ type: "answer", grade: "good", responseMs: 1000 });
+      expect(events.map((event) => event.type)).toEqual(["answered", "sessionEnded"]);
+      expect(events[1]).toEqual({ type: "sessionEnded", reason: "end" });
+      expect(engine.getView().currentCard).toBeNull();
+    });
+
+    it("clears a missed card once it is answered correctly", () => {
+      const engine = createStudyEngine(state({ missedIds: ["a", "b"] }), context(deck), () => NOW);
+      engine.dispatch({ type: "answer", grade: "good", responseMs: 1000 });
+      expect(engine.getState().missedIds).toEqual(["b"]);
+    });
+
+    it("passes over new cards once the daily limit is reached", () => {
+      const today = { day: startOfDay(NOW), count: 1 };
+      const view = studyView(
+        state({ newCardsToday: today, schedules: { c: dueSchedule() } }),
+        context(deck, { newPerDay: 1 }),
+        NOW
+      );
+      expect(view.newLimitReached).toBe(true);
+      expect(view.currentCard?.id).toBe("c");
+    });
+
+    it("ends the session early when only new cards are left past the limit", () => {
+      const engine = createStudyEngine(state(), context(deck, { newPerDay: 1 }), () => NOW);
+      const events = engine.dispatch({ type: "answer", grade: "good", responseMs: 1000 });
+      expect(events[1]).toEqual({ type: "sessionEnded", reason: "limit" });
+      expect(engine.getView().currentCard).toBeNull();
+    });
+
+    it("undoes an answer completely", () => {
+      const before = state();
+      const answered = applyStudyAction(before, { type: "answer", grade: "good", responseMs: 900 }, context(deck), NOW);
+      const undone = applyStudyAction(answered.state, { type: "undo" }, context(deck), NOW);
+      expect(undone.events).toEqual([{ type: "undone", cardId: "a", timestamp: NOW }]);
+      expect(undone.state.index).toBe(0);
+      expect(undone.state.schedules).toEqual({});
+      expect(undone.state.history).toEqual([]);
+      expect(undone.state.session).toEqual(before.session);
+    });
+
+    it("regrades only the latest answer of a card", () => {
+      const engine = createStudyEngine(state(), context(deck), () => NOW);
+      engine.dispatch({ type: "answer", grade: "good", responseMs: 900 });
+      const events = engine.dispatch({ type: "regrade", position: 0, grade: "again" });
+      expect(events).toEqual([{ type: "regraded", cardId: "a", timestamp: NOW, grade: "again" }]);
+      expect(engine.getState().missedIds).toEqual(["a"]);
+      expect(engine.getState().session.correct).toBe(0);
+      expect(engine.dispatch({ type: "regrade", position: 0, grade: "again" })).toEqual([]);
+    });
+  });
+
+  describe("review mode", () => {
+    const dueState = () => state({ schedules: { a: dueSchedule(), c: dueSchedule() } });
+
+    it("does not start without due cards", () => {
+      const engine = createStudyEngine(state(), context(deck), () => NOW);
+      expect(engine.dispatch({ type: "startReview" })).toEqual([]);
+      expect(engine.getState().reviewMode).toBe(false);
+    });
+
+    it("slides the next card in when an answered card is no longer due", () => {
+      const engine = createStudyEngine(dueState(), context(deck), () => NOW);
+      engine.dispatch({ type: "startReview" });
+      expect(engine.getView().currentCard?.id).toBe("a");
+      engine.dispatch({ type: "answer", grade: "good", responseMs: 1000 });
+      expect(engine.getState().reviewIndex).toBe(0);
+      expect(engine.getView().reviewQueue).toEqual(["c"]);
+      expect(engine.getView().currentCard?.id).toBe("c");
+    });
+
+    it("wraps around to the start of the queue", () => {
+      const engine = createStudyEngine(dueState(), context(deck), () => NOW);
+      engine.dispatch({ type: "startReview" });
+      engine.dispatch({ type: "answer", grade: "again", responseMs: 1000 });
+      expect(engine.getView().currentCard?.id).toBe("c");
+      engine.dispatch({ type: "answer", grade: "again", responseMs: 1000 });
+      expect(engine.getState().reviewIndex).toBe(0);
+      expect(engine.getView().currentCard?.id).toBe("a");
+    });
+
+    it("ends when the queue empties mid-session", () => {
+      const engine = createStudyEngine(state({ index: 1, schedules: { a: dueSchedule() } }), context(deck), () => NOW);
+      engine.dispatch({ type: "startReview" });
+      const events = engine.dispatch({ type: "answer", grade: "good", responseMs: 1000 });
+      expect(events.map((event) => event.type)).toEqual(["answered", "reviewFinished"]);
+      expect(engine.getState().reviewMode).toBe(false);
+      expect(engine.getState().index).toBe(1);
+      expect(engine.getView().currentCard?.id).toBe("b");
+    });
+
+    it("leaves review mode restored from storage when nothing is due", () => {
+      const engine = createStudyEngine(state({ reviewMode: true, reviewIndex: 4 }), context(deck), () => NOW);
+      expect(engine.getState().reviewMode).toBe(false);
+      expect(engine.getState().reviewIndex).toBe(0);
+    });
+
+    it("keeps to the focus of the session", () => {
+      const focused = context(deck, { focus: { name: "tag:travel", cardIds: ["c"] } });
+      const view = studyView(dueState(), focused, NOW);
+      expect(view.sessionOrder.map((item) => item.id)).toEqual(["c"]);
+      expect(view.reviewQueue).toEqual(["c"]);
+    });
+  });
+
+  describe("stale ids", () => {
+    const stale = () =>
+      state({
+        missedIds: ["a", "gone"],
+        reverseMissedIds: ["gone"],
+        schedules: { a: dueSchedule(), gone: dueSchedule() },
+        reverseSchedules: { gone: dueSchedule() },
+        history: [
+          {
+            cardId: "gone",
+            direction: "de-en",
+            grade: "again",
+            timestamp: NOW - 1000,
+            before: {
+              index: 0,
+              reviewMode: false,
+              reviewIndex: 0,
+              schedule: null,
+              missed: false,
+              session: emptyStudyState().session,
+              newCardsToday: { day: 0, count: 0 }
+            }
+          }
+        ]
+      });
+
+    it("drops cards the deck no longer has", () => {
+      const engine = createStudyEngine(stale(), context(deck), () => NOW);
+      const pruned = engine.getState();
+      expect(pruned.missedIds).toEqual(["a"]);
+      expect(pruned.reverseMissedIds).toEqual([]);
+      expect(Object.keys(pruned.schedules)).toEqual(["a"]);
+      expect(pruned.reverseSchedules).toEqual({});
+      expect(pruned.history).toEqual([]);
+    });
+
+    it("drops cards removed while studying", () => {
+      const engine = createStudyEngine(state({ missedIds: ["a", "b"] }), context(deck), () => NOW);
+      engine.setContext(context([card("a"), card("c")]));
+      expect(engine.getState().missedIds).toEqual(["a"]);
+    });
+
+    it("does not review a due card that left the deck", () => {
+      const engine = createStudyEngine(stale(), context(deck), () => NOW);
+      engine.dispatch({ type: "startReview" });
+      expect(engine.getView().reviewQueue).toEqual(["a"]);
+    });
+
+    it("starts over when the position is past a session that shrank", () => {
+      const engine = createStudyEngine(state({ index: 3 }), context(deck), () => NOW);
+      engine.setContext(context([card("a")]));
+      expect(engine.getState().index).toBe(0);
+      expect(engine.getView().currentCard?.id).toBe("a");
+    });
+
+    it("keeps its state when nothing changed", () => {
+      const current = state({ missedIds: ["a"] });
+      const engine = createStudyEngine(current, context(deck), () => NOW);
+      let notified = 0;
+      engine.subscribe(() => {
+        notified += 1;
+      });
+      engine.setContext(context(deck));
+      expect(engine.getState()).toBe(current);
+      expect(notified).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,444 @@
+import { canRegrade, pushAnswer, type AnswerRecord } from "./history";
+import { buildDueQueue, isDue, scheduleCard, type CardSchedule, type Grade } from "./scheduler";
+import {
+  buildSessionOrder,
+  countNewCard,
+  emptySessionProgress,
+  isGoalReached,
+  newCardsToday,
+  recordSessionAnswer,
+  type SessionConfig,
+  type SessionEnd
+} from "./session";
+import type { CardDirection, ProgressState } from "./storage";
+import type { Card } from "./types";
+
+// The flashcard session without a user interface: which card is up, what an answer
+// changes, review mode, undo and regrading. The study view and the terminal study command
+// both drive it. Actions are pure functions of the state and the context they run in, and
+// report what happened as events, so callers decide what to log or persist.
+
+export type StudyState = Pick<
+  ProgressState,
+  | "index"
+  | "missedIds"
+  | "reverseMissedIds"
+  | "reviewMode"
+  | "reviewIndex"
+  | "schedules"
+  | "reverseSchedules"
+  | "session"
+  | "newCardsToday"
+  | "history"
+>;
+
+export type StudyContext = {
+  cards: Card[];
+  config: SessionConfig;
+  // The side each card is asked from.
+  directionOf: (cardId: string) => CardDirection;
+  // Cards that may come up at all, e.g. only those with audio when listening.
+  eligible: (card: Card) => boolean;
+};
+
+export type StudyView = {
+  // Each card's schedule in the direction it is asked in.
+  activeSchedules: Record<string, CardSchedule>;
+  studyCards: Card[];
+  reviewQueue: string[];
+  sessionOrder: Card[];
+  // The first position from index on that may be shown: once today's new cards are used
+  // up, cards without a schedule are passed over. -1 when there is none.
+  sessionPosition: number;
+  sessionEnd: SessionEnd | null;
+  currentCard: Card | null;
+  currentDirection: CardDirection;
+  nextCard: Card | null;
+  newToday: number;
+  newLimitReached: boolean;
+};
+
+export type StudyAction =
+  | { type: "answer"; grade: Grade; responseMs: number }
+  | { type: "undo" }
+  | { type: "regrade"; position: number; grade: Grade }
+  | { type: "startReview" }
+  | { type: "exitReview" }
+  | { type: "restart" }
+  | { type: "keepGoing" }
+  // Moves the session to a card; nothing happens when it is not in the session.
+  | { type: "studyCard"; cardId: string }
+  | { type: "reset" };
+
+export type StudyEvent =
+  | {
+      type: "answered";
+      cardId: string;
+      direction: CardDirection;
+      grade: Grade;
+      timestamp: number;
+      responseMs: number;
+      previousInterval: number | null;
+    }
+  | { type: "undone"; cardId: string; timestamp: number }
+  | { type: "regraded"; cardId: string; timestamp: number; grade: Grade }
+  // Review mode ended because no card is due any more.
+  | { type: "reviewFinished" }
+  | { type: "sessionEnded"; reason: SessionEnd };
+
+export type StudyResult = {
+  state: StudyState;
+  events: StudyEvent[];
+};
+
+export function emptyStudyState(): StudyState {
+  return {
+    index: 0,
+    missedIds: [],
+    reverseMissedIds: [],
+    reviewMode: false,
+    reviewIndex: 0,
+    schedules: {},
+    reverseSchedules: {},
+    session: emptySessionProgress(),
+    newCardsToday: { day: 0, count: 0 },
+    history: []
+  };
+}
+
+export function pickStudyState(progress: StudyState): StudyState {
+  return {
+    index: progress.index,
+    missedIds: progress.missedIds,
+    reverseMissedIds: progress.reverseMissedIds,
+    reviewMode: progress.reviewMode,
+    reviewIndex: progress.reviewIndex,
+    schedules: progress.schedules,
+    reverseSchedules: progress.reverseSchedules,
+    session: progress.session,
+    newCardsToday: progress.newCardsToday,
+    history: progress.history
+  };
+}
+
+export function studyView(state: StudyState, context: StudyContext, now: number): StudyView {
+  const { cards, config, directionOf, eligible } = context;
+  const activeSchedules: Record<string, CardSchedule> = {};
+  cards.forEach((card) => {
+    const schedule = directionOf(card.id) === "en-de" ? state.reverseSchedules[card.id] : state.schedules[card.id];
+    if (schedule) activeSchedules[card.id] = schedule;
+  });
+  const focus = config.focus ? new Set(config.focus.cardIds) : null;
+  const studyCards = cards.filter((card) => eligible(card) && (!focus || focus.has(card.id)));
+  const reviewQueue = buildDueQueue(activeSchedules, studyCards.map((card) => card.id), now);
+  const sessionOrder = buildSessionOrder(cards, config).filter(eligible);
+  const newToday = newCardsToday(state.newCardsToday, now);
+  const newLimitReached = config.newPerDay !== null && newToday >= config.newPerDay;
+
+  let sessionPosition = -1;
+  for (let position = state.index; position < sessionOrder.length; position += 1) {
+    if (!newLimitReached || activeSchedules[sessionOrder[position].id]) {
+      sessionPosition = position;
+      break;
+    }
+  }
+
+  let sessionEnd: SessionEnd | null = null;
+  if (cards.length > 0) {
+    if (sessionOrder.length === 0) sessionEnd = "empty";
+    else if (isGoalReached(config, state.session) && !state.session.keptGoing) sessionEnd = "goal";
+    else if (sessionPosition < 0) sessionEnd = newLimitReached && state.index < sessionOrder.length ? "limit" : "end";
+  }
+
+  const cardById = new Map(cards.map((card) => [card.id, card]));
+  const reviewing = state.reviewMode && reviewQueue.length > 0;
+  let currentCard: Card | null = null;
+  let nextCard: Card | null = null;
+  if (reviewing) {
+    currentCard = cardById.get(reviewQueue[state.reviewIndex % reviewQueue.length]) ?? null;
+    nextCard = cardById.get(reviewQueue[(state.reviewIndex + 1) % reviewQueue.length]) ?? null;
+  } else if (sessionPosition >= 0) {
+    currentCard = sessionEnd ? null : (sessionOrder[sessionPosition] ?? null);
+    nextCard = sessionOrder[sessionPosition + 1] ?? null;
+  }
+
+  return {
+    activeSchedules,
+    studyCards,
+    reviewQueue,
+    sessionOrder,
+    sessionPosition,
+    sessionEnd,
+    currentCard,
+    currentDirection: currentCard ? directionOf(currentCard.id) : "de-en",
+    nextCard,
+    newToday,
+    newLimitReached
+  };
+}
+
+function markMissed(ids: string[], cardId: string, correct: boolean) {
+  if (correct) return ids.includes(cardId) ? ids.filter((id) => id !== cardId) : ids;
+  return ids.includes(cardId) ? ids : [...ids, cardId];
+}
+
+function withoutStaleIds(ids: string[], known: Set<string>) {
+  const kept = ids.filter((id) => known.has(id));
+  return kept.length === ids.length ? ids : kept;
+}
+
+function withoutStaleKeys<T>(values: Record<string, T>, known: Set<string>) {
+  const staleIds = Object.keys(values).filter((id) => !known.has(id));
+  if (staleIds.length === 0) return values;
+  const kept = { ...values };
+  staleIds.forEach((id) => delete kept[id]);
+  return kept;
+}
+
+// Keeps the state in step with its context: drops cards the deck no longer has, leaves
+// review mode once nothing is due and moves positions that ran past the end back to the
+// start. Returns the same state when nothing had to change.
+export function normalizeStudyState(state: StudyState, context: StudyContext, now: number): StudyResult {
+  const events: StudyEvent[] = [];
+  let next = state;
+  // An empty deck is more likely one that failed to load than one whose cards are all
+  // gone, so its progress is left alone.
+  if (context.cards.length > 0) {
+    const known = new Set(context.cards.map((card) => card.id));
+    const history = next.history.filter((record) => known.has(record.cardId));
+    const pruned: StudyState = {
+      ...next,
+      missedIds: withoutStaleIds(next.missedIds, known),
+      reverseMissedIds: withoutStaleIds(next.reverseMissedIds, known),
+      schedules: withoutStaleKeys(next.schedules, known),
+      reverseSchedules: withoutStaleKeys(next.reverseSchedules, known),
+      history: history.length === next.history.length ? next.history : history
+    };
+    const keys = Object.keys(pruned) as Array<keyof StudyState>;
+    if (keys.some((key) => pruned[key] !== next[key])) next = pruned;
+  }
+
+  const view = studyView(next, context, now);
+  if (next.reviewMode && view.reviewQueue.length === 0) {
+    next = { ...next, reviewMode: false, reviewIndex: 0 };
+    events.push({ type: "reviewFinished" });
+  } else if (next.reviewMode && next.reviewIndex >= view.reviewQueue.length) {
+    next = { ...next, reviewIndex: 0 };
+  }
+  // index equal to the session length means the session has been worked through.
+  if (next.index > view.sessionOrder.length) next = { ...next, index: 0 };
+  return { state: next, events };
+}
+
+// In review mode a card that is no longer due drops out of the queue, so the next card
+// slides into the current position instead of being skipped.
+function advance(state: StudyState, view: StudyView, stillQueued: boolean): StudyState {
+  if (state.reviewMode) {
+    if (view.reviewQueue.length === 0 || !stillQueued) return state;
+    return { ...state, reviewIndex: (state.reviewIndex + 1) % view.reviewQueue.length };
+  }
+  return view.sessionPosition >= 0 ? { ...state, index: view.sessionPosition + 1 } : state;
+}
+
+function answer(state: StudyState, view: StudyView, grade: Grade, responseMs: number, now: number): StudyResult {
+  const card = view.currentCard;
+  if (!card) return { state, events: [] };
+  const direction = view.currentDirection;
+  const reverse = direction === "en-de";
+  const previous = view.activeSchedules[card.id];
+  const nextSchedule = scheduleCard(previous, grade, now);
+  const missed = reverse ? state.reverseMissedIds : state.missedIds;
+  const schedules = reverse ? state.reverseSchedules : state.schedules;
+  const record: AnswerRecord = {
+    cardId: card.id,
+    direction,
+    grade,
+    timestamp: now,
+    before: {
+      index: state.index,
+      reviewMode: state.reviewMode,
+      reviewIndex: state.reviewIndex,
+      schedule: previous ?? null,
+      missed: missed.includes(card.id),
+      session: state.session,
+      newCardsToday: state.newCardsToday
+    }
+  };
+  const nextMissed = markMissed(missed, card.id, grade !== "again");
+  const nextSchedules = { ...schedules, [card.id]: nextSchedule };
+  const answered: StudyState = {
+    ...state,
+    history: pushAnswer(state.history, record),
+    session: recordSessionAnswer(state.session, card.id, grade !== "again", !previous, responseMs),
+    newCardsToday: previous ? state.newCardsToday : countNewCard(state.newCardsToday, now),
+    ...(reverse
+      ? { reverseMissedIds: nextMissed, reverseSchedules: nextSchedules }
+      : { missedIds: nextMissed, schedules: nextSchedules })
+  };
+  return {
+    state: advance(answered, view, isDue(nextSchedule, now)),
+    events: [
+      {
+        type: "answered",
+        cardId: card.id,
+        direction,
+        grade,
+        timestamp: now,
+        responseMs,
+        previousInterval: previous ? previous.interval : null
+      }
+    ]
+  };
+}
+
+// Puts everything the last answer changed back, including the card and review position.
+function undo(state: StudyState): StudyResult {
+  const record = state.history[state.history.length - 1];
+  if (!record) return { state, events: [] };
+  const { before } = record;
+  const reverse = record.direction === "en-de";
+  const schedules = { ...(reverse ? state.reverseSchedules : state.schedules) };
+  if (before.schedule) schedules[record.cardId] = before.schedule;
+  else delete schedules[record.cardId];
+  const without = (reverse ? state.reverseMissedIds : state.missedIds).filter((id) => id !== record.cardId);
+  const missed = before.missed ? [...without, record.cardId] : without;
+  return {
+    state: {
+      ...state,
+      ...(reverse ? { reverseSchedules: schedules, reverseMissedIds: missed } : { schedules, missedIds: missed }),
+      index: before.index,
+      reviewMode: before.reviewMode,
+      reviewIndex: before.reviewIndex,
+      session: before.session,
+      newCardsToday: before.newCardsToday,
+      history: state.history.slice(0, -1)
+    },
+    events: [{ type: "undone", cardId: record.cardId, timestamp: record.timestamp }]
+  };
+}
+
+// Grading an earlier answer differently reschedules the card from the state it was
+// answered in, without moving the current position.
+function regrade(state: StudyState, position: number, grade: Grade): StudyResult {
+  const record = state.history[position];
+  if (!record || record.grade === grade || !canRegrade(state.history, position)) return { state, events: [] };
+  const { cardId } = record;
+  const reverse = record.direction === "en-de";
+  const nextSchedule = scheduleCard(record.before.schedule ?? undefined, grade, record.timestamp);
+  const correct = grade !== "again";
+  const wasCorrect = record.grade !== "again";
+  const schedules = { ...(reverse ? state.reverseSchedules : state.schedules), [cardId]: nextSchedule };
+  const missed = markMissed(reverse ? state.reverseMissedIds : state.missedIds, cardId, correct);
+  let sessionMissed = state.session.missedIds;
+  if (correct && !record.before.session.missedIds.includes(cardId)) {
+    sessionMissed = sessionMissed.filter((id) => id !== cardId);
+  } else if (!correct && !sessionMissed.includes(cardId)) {
+    sessionMissed = [...sessionMissed, cardId];
+  }
+  return {
+    state: {
+      ...state,
+      ...(reverse ? { reverseSchedules: schedules, reverseMissedIds: missed } : { schedules, missedIds: missed }),
+      session: {
+        ...state.session,
+        correct: state.session.correct + (correct ? 1 : 0) - (wasCorrect ? 1 : 0),
+        missedIds: sessionMissed
+      },
+      history: state.history.map((item, itemPosition) => (itemPosition === position ? { ...item, grade } : item))
+    },
+    events: [{ type: "regraded", cardId, timestamp: record.timestamp, grade }]
+  };
+}
+
+function reduce(state: StudyState, action: StudyAction, view: StudyView, now: number): StudyResult {
+  const unchanged = { state, events: [] };
+  switch (action.type) {
+    case "answer":
+      return answer(state, view, action.grade, action.responseMs, now);
+    case "undo":
+      return undo(state);
+    case "regrade":
+      return regrade(state, action.position, action.grade);
+    case "startReview":
+      if (view.reviewQueue.length === 0) return unchanged;
+      return { state: { ...state, reviewMode: true, reviewIndex: 0 }, events: [] };
+    case "exitReview":
+      return { state: { ...state, reviewMode: false }, events: [] };
+    case "restart":
+      return { state: { ...state, index: 0, reviewMode: false, session: emptySessionProgress(now) }, events: [] };
+    case "keepGoing":
+      return { state: { ...state, session: { ...state.session, keptGoing: true } }, events: [] };
+    case "studyCard": {
+      const position = view.sessionOrder.findIndex((card) => card.id === action.cardId);
+      if (position < 0) return unchanged;
+      return {
+        state: { ...state, index: position, reviewMode: false, session: { ...state.session, keptGoing: true } },
+        events: []
+      };
+    }
+    case "reset":
+      return { state: { ...emptyStudyState(), session: emptySessionProgress(now) }, events: [] };
+  }
+}
+
+export function applyStudyAction(state: StudyState, action: StudyAction, context: StudyContext, now: number) {
+  const before = studyView(state, context, now);
+  const result = reduce(state, action, before, now);
+  const normalized = normalizeStudyState(result.state, context, now);
+  const events = [...result.events, ...normalized.events];
+  const after = studyView(normalized.state, context, now);
+  if (!before.sessionEnd && after.sessionEnd && !normalized.state.reviewMode) {
+    events.push({ type: "sessionEnded", reason: after.sessionEnd });
+  }
+  return { state: normalized.state, events };
+}
+
+export type StudyEngine = {
+  getState: () => StudyState;
+  getView: () => StudyView;
+  getContext: () => StudyContext;
+  dispatch: (action: StudyAction) => StudyEvent[];
+  // A new deck, session or direction; the state is normalized against it.
+  setContext: (context: StudyContext) => StudyEvent[];
+  // Replaces the state as a whole, e.g. after a backup is restored or a sync.
+  replaceState: (state: StudyState) => void;
+  subscribe: (listener: () => void) => () => void;
+};
+
+// Holds the state between actions for callers without a state of their own, such as the
+// terminal, and for React through useSyncExternalStore. The clock can be replaced in tests.
+export function createStudyEngine(initial: StudyState, context: StudyContext, clock = Date.now): StudyEngine {
+  let currentContext = context;
+  let state = normalizeStudyState(initial, context, clock()).state;
+  const listeners = new Set<() => void>();
+
+  const update = (next: StudyState) => {
+    if (next === state) return;
+    state = next;
+    listeners.forEach((listener) => listener());
+  };
+
+  return {
+    getState: () => state,
+    getView: () => studyView(state, currentContext, clock()),
+    getContext: () => currentContext,
+    dispatch: (action) => {
+      const result = applyStudyAction(state, action, currentContext, clock());
+      update(result.state);
+      return result.events;
+    },
+    setContext: (next) => {
+      currentContext = next;
+      const result = normalizeStudyState(state, next, clock());
+      update(result.state);
+      return result.events;
+    },
+    replaceState: (next) => update(normalizeStudyState(next, currentContext, clock()).state),
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    }
+  };
+}
@@ -0,0 +1,95 @@
+import { isDue, type CardSchedule } from "./scheduler";
+import { hasTag, normalizeTags } from "./tags";
+import type { Card } from "./types";
+
+// A sub-deck is the part of a deck carrying a tag. A filtered deck narrows it down further
+// by how the learner is doing, e.g. "missed + tag:travel", and can be saved to study again.
+
+export type FilterStatus = "all" | "new" | "missed" | "known" | "due";
+
+export type SavedFilter = {
+  id: string;
+  name: string;
+  // A card matches when it has any of these; no tags matches the whole deck.
+  tags: string[];
+  status: FilterStatus;
+};
+
+export type FilterContext = {
+  missedIds: Set<string>;
+  schedules: Record<string, CardSchedule>;
+  now: number;
+};
+
+export type SubDeckProgress = {
+  total: number;
+  fresh: number;
+  missed: number;
+  due: number;
+  // Cards whose interval has reached three weeks, as in the stats export.
+  mature: number;
+};
+
+export const FILTER_STATUSES: Array<{ id: FilterStatus; label: string }> = [
+  { id: "all", label: "All cards" },
+  { id: "new", label: "New" },
+  { id: "missed", label: "Missed" },
+  { id: "known", label: "Known" },
+  { id: "due", label: "Due" }
+];
+
+const MATURE_DAYS = 21;
+
+export function matchesStatus(card: Card, status: FilterStatus, context: FilterContext) {
+  const schedule = context.schedules[card.id];
+  if (status === "new") return !schedule && !context.missedIds.has(card.id);
+  if (status === "missed") return context.missedIds.has(card.id);
+  if (status === "known") return Boolean(schedule) && !context.missedIds.has(card.id);
+  if (status === "due") return isDue(schedule, context.now);
+  return true;
+}
+
+export function filterCards(cards: Card[], filter: Omit<SavedFilter, "id" | "name">, context: FilterContext) {
+  return cards.filter(
+    (card) =>
+      (filter.tags.length === 0 || filter.tags.some((tag) => hasTag(card, tag))) &&
+      matchesStatus(card, filter.status, context)
+  );
+}
+
+// Written the way the learner builds it: "missed + tag:travel", or "tag:travel" alone.
+export function describeFilter(filter: Omit<SavedFilter, "id" | "name">) {
+  const parts = [
+    ...(filter.status === "all" ? [] : [filter.status]),
+    filter.tags.length > 0 ? filter.tags.map((tag) => `tag:${tag}`).join(" or ") : "whole deck"
+  ];
+  return parts.join(" + ");
+}
+
+export function subDeckProgress(cards: Card[], context: FilterContext): SubDeckProgress {
+  const progress: SubDeckProgress = { total: cards.length, fresh: 0, missed: 0, due: 0, mature: 0 };
+  cards.forEach((card) => {
+    const schedule = context.schedules[card.id];
+    if (context.missedIds.has(card.id)) progress.missed += 1;
+    else if (!schedule) progress.fresh += 1;
+    if (isDue(schedule, context.now)) progress.due += 1;
+    if (schedule && schedule.interval >= MATURE_DAYS) progress.mature += 1;
+  });
+  return progress;
+}
+
+export function newFilterId() {
+  return `filter-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function sanitizeSavedFilters(value: unknown): SavedFilter[] {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap((entry) => {
+    if (!entry || typeof entry !== "object") return [];
+    const parsed = entry as Partial<SavedFilter>;
+    if (typeof parsed.id !== "string" || !parsed.id || typeof parsed.name !== "string") return [];
+    const status = FILTER_STATUSES.some((option) => option.id === parsed.status) ? parsed.status! : "all";
+    const tags = Array.isArray(parsed.tags) ? normalizeTags(parsed.tags.filter((tag) => typeof tag === "string")) : [];
+    return [{ id: parsed.id, name: parsed.name.trim() || describeFilter({ tags, status }), tags, status }];
+  });
+}
@@ -0,0 +1,260 @@
+import { describe, expect, it } from "vitest";
+import type { AnswerRecord } from "./history";
+import type { ReviewLogEntry } from "./reviewLog";
+import { LEGACY_SCHEMA } from "./schema";
+import type { CardSchedule } from "./scheduler";
+import { emptySessionProgress } from "./session";
+import { defaultSettings, emptyProgress, type ProgressState } from "./storage";
+import type { SavedDeckState, StorageAdapter } from "./storageAdapter";
+import { emptyDeckState, mergeDeckState, mergeProgress, stampChanges, syncDeck, type DeckState } from "./sync";
+import type { Card, Deck } from "./types";
+
+const NOW = new Date(2026, 3, 15, 12).getTime();
+const HOUR_MS = 60 * 60 * 1000;
+
+function card(id: string): Card {
+  return {
+    id,
+    note_id: `note-${id}`,
+    fields: {},
+    de_word: `Wort ${id}`,
+    de_sentence: "",
+    en_word: `word ${id}`,
+    en_sentence: "",
+    audio_url: null,
+    tags: []
+  };
+}
+
+const deck: Deck = {
+  id: "test",
+  title: "Test",
+  schema: LEGACY_SCHEMA,
+  cards: [card("a"), card("b"), card("c")],
+  issues: []
+};
+
+function schedule(interval: number): CardSchedule {
+  return { interval, ease: 2.5, due: NOW + interval * 24 * HOUR_MS, lapses: 0, reps: 1, lastReviewed: NOW };
+}
+
+function progress(patch: Partial<ProgressState> = {}): ProgressState {
+  return { ...emptyProgress(), ...patch };
+}
+
+function answer(cardId: string): AnswerRecord {
+  return {
+    cardId,
+    direction: "de-en",
+    grade: "good",
+    timestamp: NOW,
+    before: {
+      index: 0,
+      reviewMode: false,
+      reviewIndex: 0,
+      schedule: null,
+      missed: false,
+      session: emptySessionProgress(),
+      newCardsToday: { day: 0, count: 0 }
+    }
+  };
+}
+
+function review(cardId: string, timestamp: number): ReviewLogEntry {
+  return {
+    deckId: deck.id,
+    cardId,
+    timestamp,
+    grade: "good",
+    mode: "flashcards",
+    responseMs: 1000,
+    flipped: true,
+    audioPlayed: false,
+    previousInterval: null,
+    direction: "de-en"
+  };
+}
+
+function deckState(patch: Partial<DeckState> = {}): DeckState {
+  return { ...emptyDeckState(), ...patch };
+}
+
+// Keeps one copy of the deck in memory. Like the server adapter, a save is refused when
+// the copy changed since this adapter last loaded it.
+function memoryAdapter(label: string, initial: DeckState | null) {
+  let stored = initial;
+  let version = 0;
+  let loadedVersion = -1;
+  const adapter = {
+    label,
+    loads: 0,
+    saves: 0,
+    get stored() {
+      return stored;
+    },
+    // Stands in for another device saving between this adapter's load and save.
+    changeElsewhere(state: DeckState) {
+      stored = state;
+      version += 1;
+    },
+    load: async () => {
+      adapter.loads += 1;
+      loadedVersion = version;
+      return stored;
+    },
+    save: async (_deck: Deck, state: SavedDeckState) => {
+      adapter.saves += 1;
+      if (loadedVersion !== version) return false;
+      stored = { ...state, reviews: state.reviews ?? stored?.reviews ?? [] };
+      version += 1;
+      loadedVersion = version;
+      return true;
+    }
+  };
+  return adapter;
+}
+
+describe("sync", () => {
+  describe("merging progress", () => {
+    it("takes a card from the remote copy when it changed there last", () => {
+      const local = progress({ schedules: { a: schedule(1) }, changedAt: { a: NOW - HOUR_MS } });
+      const remote = progress({ schedules: { a: schedule(6) }, missedIds: ["b"], changedAt: { a: NOW, b: NOW } });
+      const merged = mergeProgress(local, remote, 0);
+      expect(merged.progress.schedules.a).toEqual(schedule(6));
+      expect(merged.progress.missedIds).toEqual(["b"]);
+      expect(merged.progress.changedAt).toEqual({ a: NOW, b: NOW });
+      expect(merged.pulled).toBe(2);
+      expect(merged.pushed).toBe(0);
+    });
+
+    it("keeps a card from this device when it changed here last", () => {
+      const local = progress({ schedules: { a: schedule(6) }, changedAt: { a: NOW } });
+      const remote = progress({ schedules: { a: schedule(1) }, missedIds: ["a"], changedAt: { a: NOW - HOUR_MS } });
+      const merged = mergeProgress(local, remote, 0);
+      expect(merged.progress.schedules.a).toEqual(schedule(6));
+      expect(merged.progress.missedIds).toEqual([]);
+      expect(merged.pulled).toBe(0);
+      expect(merged.pushed).toBe(1);
+    });
+
+    it("counts cards changed on both sides since the last sync as conflicts", () => {
+      const local = progress({
+        schedules: { a: schedule(1), b: schedule(1) },
+        changedAt: { a: NOW - HOUR_MS, b: NOW - 3 * HOUR_MS }
+      });
+      const remote = progress({ schedules: { a: schedule(6), b: schedule(6) }, changedAt: { a: NOW, b: NOW } });
+      const merged = mergeProgress(local, remote, NOW - 2 * HOUR_MS);
+      expect(merged.conflicts).toBe(1);
+      expect(merged.pulled).toBe(2);
+    });
+
+    it("does not count cards that ended up the same as conflicts", () => {
+      const local = progress({ schedules: { a: schedule(6) }, changedAt: { a: NOW - HOUR_MS } });
+      const remote = progress({ schedules: { a: schedule(6) }, changedAt: { a: NOW } });
+      const merged = mergeProgress(local, remote, NOW - 2 * HOUR_MS);
+      expect(merged.conflicts).toBe(0);
+      expect(merged.pulled + merged.pushed).toBe(0);
+      expect(merged.progress.changedAt.a).toBe(NOW);
+    });
+
+    it("drops the undo history of cards taken from the remote copy", () => {
+      const local = progress({
+        schedules: { a: schedule(1), b: schedule(1) },
+        history: [answer("a"), answer("b")],
+        changedAt: { a: NOW - HOUR_MS, b: NOW }
+      });
+      const remote = progress({ schedules: { a: schedule(6) }, changedAt: { a: NOW } });
+      const merged = mergeProgress(local, remote, 0);
+      expect(merged.progress.history.map((record) => record.cardId)).toEqual(["b"]);
+    });
+  });
+
+  describe("stamping changes", () => {
+    it("stamps only the cards whose state changed", () => {
+      const before = progress({ schedules: { a: schedule(1) }, changedAt: { a: NOW - HOUR_MS } });
+      const after = progress({ schedules: { a: schedule(1), b: schedule(1) }, changedAt: before.changedAt });
+      expect(stampChanges(before, after, NOW)).toEqual({ a: NOW - HOUR_MS, b: NOW });
+    });
+
+    it("keeps the change time a card was synced with", () => {
+      const before = progress({ schedules: { a: schedule(1) }, changedAt: { a: NOW - 2 * HOUR_MS } });
+      const after = progress({ schedules: { a: schedule(6) }, changedAt: { a: NOW - HOUR_MS } });
+      expect(stampChanges(before, after, NOW)).toBe(after.changedAt);
+    });
+  });
+
+  describe("merging a deck", () => {
+    it("adopts the synced settings only on the first sync of unchanged settings", () => {
+      const remoteSettings = { ...defaultSettings(), studyMode: "typed" as const };
+      const remote = deckState({ settings: remoteSettings });
+      const local = deckState();
+      expect(mergeDeckState(deck, local, remote, 0).state.settings).toEqual(remoteSettings);
+      expect(mergeDeckState(deck, local, remote, NOW).state.settings).toEqual(local.settings);
+
+      const mine = { ...defaultSettings(), showGermanSentence: false };
+      expect(mergeDeckState(deck, deckState({ settings: mine }), remote, 0).state.settings).toEqual(mine);
+    });
+
+    it("keeps the review log of both sides", () => {
+      const local = deckState({ reviews: [review("a", NOW - HOUR_MS), review("b", NOW)] });
+      const remote = deckState({ reviews: [review("a", NOW - HOUR_MS), review("c", NOW - 2 * HOUR_MS)] });
+      const result = mergeDeckState(deck, local, remote, 0);
+      expect(result.state.reviews.map((entry) => entry.cardId)).toEqual(["c", "a", "b"]);
+      expect(result.reviewsPulled).toBe(1);
+      expect(result.reviewsPushed).toBe(1);
+    });
+
+    it("pushes everything to a target that has no copy yet", () => {
+      const local = deckState({ progress: progress({ schedules: { a: schedule(1) }, missedIds: ["b"] }) });
+      const result = mergeDeckState(deck, local, null, 0);
+      expect(result.created).toBe(true);
+      expect(result.pushed).toBe(2);
+    });
+  });
+
+  describe("syncing a deck", () => {
+    const localState = () => deckState({ progress: progress({ schedules: { a: schedule(6) }, changedAt: { a: NOW } }) });
+
+    it("saves the merged state on both sides", async () => {
+      const local = memoryAdapter("browser", localState());
+      const remote = memoryAdapter("server", null);
+      const result = await syncDeck(deck, local, remote, 0);
+      expect(result.created).toBe(true);
+      expect(remote.stored?.progress.schedules.a).toEqual(schedule(6));
+      expect(local.saves).toBe(1);
+    });
+
+    it("starts over when another device saved in between", async () => {
+      const local = memoryAdapter("browser", localState());
+      const remote = memoryAdapter("server", null);
+      const load = remote.load;
+      remote.load = async () => {
+        const loaded = await load();
+        if (remote.loads === 1) {
+          remote.changeElsewhere(deckState({ progress: progress({ missedIds: ["b"], changedAt: { b: NOW } }) }));
+        }
+        return loaded;
+      };
+      const result = await syncDeck(deck, local, remote, 0);
+      expect(remote.loads).toBe(2);
+      expect(remote.saves).toBe(2);
+      expect(result.created).toBe(false);
+      expect(remote.stored?.progress.missedIds).toEqual(["b"]);
+      expect(remote.stored?.progress.schedules.a).toEqual(schedule(6));
+    });
+
+    it("gives up when the other side keeps changing", async () => {
+      const local = memoryAdapter("browser", localState());
+      const remote: StorageAdapter = { label: "server", load: async () => null, save: async () => false };
+      await expect(syncDeck(deck, local, remote, 0)).rejects.toThrow("server kept changing");
+      expect(local.saves).toBe(0);
+    });
+
+    it("fails when this device's copy could not be saved", async () => {
+      const local = memoryAdapter("browser", localState());
+      local.save = async () => false;
+      const remote = memoryAdapter("server", null);
+      await expect(syncDeck(deck, local, remote, 0)).rejects.toThrow("changed in the browser while syncing");
+    });
+  });
+});
@@ -0,0 +1,252 @@
+import { parseReviews, reviewKey } from "./backup";
+import { reconcileProgress, referencedCardIds } from "./reconcile";
+import type { ReviewLogEntry } from "./reviewLog";
+import {
+  PROGRESS_VERSION,
+  SETTINGS_VERSION,
+  defaultSettings,
+  emptyProgress,
+  upgradeProgress,
+  upgradeSettings,
+  type ProgressState,
+  type SettingsState
+} from "./storage";
+import type { StorageAdapter } from "./storageAdapter";
+import type { Deck } from "./types";
+
+// Syncing merges this browser's copy of a deck's state with the copy kept in a file or on
+// a server. Per card, the side that changed it last wins, using the change times progress
+// records for every card; the review log is the union of both. Cards changed on two
+// devices while they were offline are counted as conflicts but resolved the same way.
+
+export const SYNC_FORMAT = "deckster-sync";
+
+export type DeckState = {
+  progress: ProgressState;
+  settings: SettingsState;
+  reviews: ReviewLogEntry[];
+};
+
+export function emptyDeckState(): DeckState {
+  return { progress: emptyProgress(), settings: defaultSettings(), reviews: [] };
+}
+
+export type SyncDocument = {
+  format: typeof SYNC_FORMAT;
+  savedAt: string;
+  deck: { id: string; title: string };
+  progressVersion: number;
+  settingsVersion: number;
+  progress: ProgressState;
+  settings: SettingsState;
+  reviews: ReviewLogEntry[];
+};
+
+export type SyncResult = {
+  state: DeckState;
+  // Whether the other side had no copy of the deck yet.
+  created: boolean;
+  pulled: number;
+  pushed: number;
+  conflicts: number;
+  reviewsPulled: number;
+  reviewsPushed: number;
+};
+
+export function createSyncDocument(deck: Deck, state: DeckState): SyncDocument {
+  return {
+    format: SYNC_FORMAT,
+    savedAt: new Date().toISOString(),
+    deck: { id: deck.id, title: deck.title },
+    progressVersion: PROGRESS_VERSION,
+    settingsVersion: SETTINGS_VERSION,
+    progress: state.progress,
+    settings: state.settings,
+    reviews: state.reviews.map(({ id: _id, ...entry }) => entry)
+  };
+}
+
+export function parseSyncDocument(value: unknown, deck: Deck): DeckState {
+  const raw = (value && typeof value === "object" ? value : {}) as Partial<SyncDocument>;
+  if (raw.format !== SYNC_FORMAT) {
+    throw new Error("The sync target holds something other than Deckster Lab progress.");
+  }
+  if (raw.deck?.id !== deck.id) {
+    throw new Error(`The synced progress belongs to another deck (${String(raw.deck?.id)}).`);
+  }
+  const progressVersion = Number.isInteger(raw.progressVersion) ? Number(raw.progressVersion) : 1;
+  const settingsVersion = Number.isInteger(raw.settingsVersion) ? Number(raw.settingsVersion) : 1;
+  // An older app would drop what it does not know and write the rest back.
+  if (progressVersion > PROGRESS_VERSION || settingsVersion > SETTINGS_VERSION) {
+    throw new Error("The synced progress was written by a newer version of the app. Update this one first.");
+  }
+  return {
+    progress: upgradeProgress(raw.progress ?? null, progressVersion),
+    settings: upgradeSettings(raw.settings ?? null, settingsVersion),
+    reviews: parseReviews(raw.reviews, deck.id)
+  };
+}
+
+// Everything progress holds about one card, as a string that compares by value.
+function cardStates(progress: ProgressState) {
+  const missed = [
+    new Set(progress.missedIds),
+    new Set(progress.reverseMissedIds),
+    new Set(progress.genderMissedIds),
+    new Set(progress.clozeMissedIds)
+  ];
+  return (id: string) =>
+    JSON.stringify([
+      progress.schedules[id] ?? null,
+      progress.reverseSchedules[id] ?? null,
+      ...missed.map((ids) => ids.has(id))
+    ]);
+}
+
+function sameCardStates(before: ProgressState, after: ProgressState) {
+  return (
+    before.schedules === after.schedules &&
+    before.reverseSchedules === after.reverseSchedules &&
+    before.missedIds === after.missedIds &&
+    before.reverseMissedIds === after.reverseMissedIds &&
+    before.genderMissedIds === after.genderMissedIds &&
+    before.clozeMissedIds === after.clozeMissedIds
+  );
+}
+
+// Stamps the cards whose state differs between two versions of progress with `now`.
+// Cards whose change time moved as well were taken from a sync and keep that time.
+export function stampChanges(before: ProgressState, after: ProgressState, now: number) {
+  if (sameCardStates(before, after)) return after.changedAt;
+  const stateBefore = cardStates(before);
+  const stateAfter = cardStates(after);
+  let changedAt = after.changedAt;
+  new Set([...referencedCardIds(before), ...referencedCardIds(after)]).forEach((id) => {
+    if (before.changedAt[id] !== after.changedAt[id]) return;
+    if (stateBefore(id) === stateAfter(id)) return;
+    if (changedAt === after.changedAt) changedAt = { ...after.changedAt };
+    changedAt[id] = now;
+  });
+  return changedAt;
+}
+
+// Merges the card states of two copies of progress; everything else in progress, such as
+// the position in the session and the undo history, belongs to this device. `since` is
+// when this device last synced, for counting the cards changed on both sides since.
+export function mergeProgress(local: ProgressState, remote: ProgressState, since: number) {
+  const localState = cardStates(local);
+  const remoteState = cardStates(remote);
+  const ids = new Set([...referencedCardIds(local), ...referencedCardIds(remote)]);
+  const fromRemote = new Set<string>();
+  let pushed = 0;
+  let conflicts = 0;
+  const changedAt: Record<string, number> = {};
+
+  ids.forEach((id) => {
+    const localTime = local.changedAt[id] ?? 0;
+    const remoteTime = remote.changedAt[id] ?? 0;
+    if (Math.max(localTime, remoteTime) > 0) changedAt[id] = Math.max(localTime, remoteTime);
+    if (localState(id) === remoteState(id)) return;
+    if (localTime > since && remoteTime > since) conflicts += 1;
+    if (remoteTime > localTime) fromRemote.add(id);
+    else pushed += 1;
+  });
+
+  const pick = <T>(id: string, localValues: Record<string, T>, remoteValues: Record<string, T>) =>
+    fromRemote.has(id) ? remoteValues[id] : localValues[id];
+  const mergeSchedules = (localValues: ProgressState["schedules"], remoteValues: ProgressState["schedules"]) => {
+    const merged: ProgressState["schedules"] = {};
+    ids.forEach((id) => {
+      const schedule = pick(id, localValues, remoteValues);
+      if (schedule) merged[id] = schedule;
+    });
+    return merged;
+  };
+  const mergeMissed = (localIds: string[], remoteIds: string[]) => {
+    const localSet = new Set(localIds);
+    const remoteSet = new Set(remoteIds);
+    return [...new Set([...localIds, ...remoteIds])].filter((id) =>
+      fromRemote.has(id) ? remoteSet.has(id) : localSet.has(id)
+    );
+  };
+
+  const progress: ProgressState = {
+    ...local,
+    schedules: mergeSchedules(local.schedules, remote.schedules),
+    reverseSchedules: mergeSchedules(local.reverseSchedules, remote.reverseSchedules),
+    missedIds: mergeMissed(local.missedIds, remote.missedIds),
+    reverseMissedIds: mergeMissed(local.reverseMissedIds, remote.reverseMissedIds),
+    genderMissedIds: mergeMissed(local.genderMissedIds, remote.genderMissedIds),
+    clozeMissedIds: mergeMissed(local.clozeMissedIds, remote.clozeMissedIds),
+    // Undoing an answer would bring back a state the other device has moved on from.
+    history: local.history.filter((record) => !fromRemote.has(record.cardId)),
+    noteIds: { ...remote.noteIds, ...local.noteIds },
+    changedAt
+  };
+  return { progress, pulled: fromRemote.size, pushed, conflicts };
+}
+
+// The shuffle seed is picked at random for every device, so it is left out.
+function isDefaultSettings(settings: SettingsState) {
+  const comparable = (value: SettingsState) => JSON.stringify({ ...value, session: { ...value.session, seed: 0 } });
+  return comparable(settings) === comparable(defaultSettings());
+}
+
+// Settings are preferences of each device and are not merged. A device that never
+// changed them starts from the synced ones on its first sync.
+export function mergeDeckState(deck: Deck, local: DeckState, remote: DeckState | null, since: number): SyncResult {
+  const mine = reconcileProgress(local.progress, deck.cards).progress;
+  if (!remote) {
+    const state = { ...local, progress: mine };
+    const pushed = referencedCardIds(mine).size;
+    return { state, created: true, pulled: 0, pushed, conflicts: 0, reviewsPulled: 0, reviewsPushed: local.reviews.length };
+  }
+  const theirs = reconcileProgress(remote.progress, deck.cards);
+  const merged = mergeProgress(mine, theirs.progress, since);
+
+  const remoteReviews = remote.reviews.map((entry) => ({
+    ...entry,
+    deckId: deck.id,
+    cardId: theirs.remapped.get(entry.cardId) ?? entry.cardId
+  }));
+  const localKeys = new Set(local.reviews.map(reviewKey));
+  const remoteKeys = new Set(remoteReviews.map(reviewKey));
+  const pulledReviews = remoteReviews.filter((entry) => !localKeys.has(reviewKey(entry)));
+  const reviews = [...local.reviews, ...pulledReviews].sort((a, b) => a.timestamp - b.timestamp);
+
+  return {
+    state: {
+      progress: merged.progress,
+      settings: since === 0 && isDefaultSettings(local.settings) ? remote.settings : local.settings,
+      reviews
+    },
+    created: false,
+    pulled: merged.pulled,
+    pushed: merged.pushed,
+    conflicts: merged.conflicts,
+    reviewsPulled: pulledReviews.length,
+    reviewsPushed: local.reviews.filter((entry) => !remoteKeys.has(reviewKey(entry))).length
+  };
+}
+
+// How often a sync starts over when another device saved in between.
+const SYNC_ATTEMPTS = 3;
+
+export async function syncDeck(deck: Deck, local: StorageAdapter, remote: StorageAdapter, since: number) {
+  for (let attempt = 1; attempt <= SYNC_ATTEMPTS; attempt += 1) {
+    const [mine, theirs] = await Promise.all([local.load(deck), remote.load(deck)]);
+    const result = mergeDeckState(
+      deck,
+      mine ?? emptyDeckState(),
+      theirs,
+      since
+    );
+    if (!(await remote.save(deck, result.state))) continue;
+    // The other side already holds the merged state, so syncing again picks it up.
+    if (!(await local.save(deck, result.state))) {
+      throw new Error(`Progress was changed in the ${local.label} while syncing. Sync again to combine both.`);
+    }
+    return result;
+  }
+  throw new Error(`The ${remote.label} kept changing while syncing. Try again in a moment.`);
+}
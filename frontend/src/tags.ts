@@ -0,0 +1,60 @@
+import type { Card } from "./types";
+
+// Tags follow Anki: single words, where "::" builds a hierarchy such as "a1::travel".
+// They compare without regard to case, and the first spelling seen is kept.
+
+export function normalizeTag(value: string) {
+  return value.trim().replace(/\s+/g, "_");
+}
+
+export function tagKey(tag: string) {
+  return tag.toLocaleLowerCase("de");
+}
+
+export function normalizeTags(values: string[]) {
+  const seen = new Set<string>();
+  const tags: string[] = [];
+  values.map(normalizeTag).forEach((tag) => {
+    if (!tag || seen.has(tagKey(tag))) return;
+    seen.add(tagKey(tag));
+    tags.push(tag);
+  });
+  return tags;
+}
+
+// What the user typed into a tag field: tags separated by spaces or commas.
+export function parseTagInput(text: string) {
+  return normalizeTags(text.split(/[\s,]+/));
+}
+
+export function hasTag(card: Card, tag: string) {
+  const key = tagKey(tag);
+  return card.tags.some((item) => tagKey(item) === key);
+}
+
+export function sameTags(a: string[], b: string[]) {
+  return a.length === b.length && a.every((tag, index) => tagKey(tag) === tagKey(b[index]));
+}
+
+export function addTags(tags: string[], added: string[]) {
+  return normalizeTags([...tags, ...added]);
+}
+
+export function removeTags(tags: string[], removed: string[]) {
+  const keys = new Set(removed.map(tagKey));
+  return tags.filter((tag) => !keys.has(tagKey(tag)));
+}
+
+// Every tag used in the deck with the number of cards carrying it, A–Z.
+export function collectTags(cards: Card[]) {
+  const counts = new Map<string, { tag: string; count: number }>();
+  cards.forEach((card) =>
+    card.tags.forEach((tag) => {
+      const entry = counts.get(tagKey(tag)) ?? { tag, count: 0 };
+      entry.count += 1;
+      counts.set(tagKey(tag), entry);
+    })
+  );
+  const collator = new Intl.Collator("de", { sensitivity: "base" });
+  return [...counts.values()].sort((a, b) => collator.compare(a.tag, b.tag));
+}
@@ -0,0 +1,170 @@
+import { levenshtein, normalizeGerman, splitHeadword } from "./german";
+import type { Grade } from "./scheduler";
+
+export type DiffPart = {
+  kind: "same" | "missing" | "extra";
+  text: string;
+};
+
+export type PartStatus = "correct" | "close" | "wrong" | "missing" | "none";
+
+export type TypedAnswerResult = {
+  grade: Grade;
+  article: PartStatus;
+  stem: PartStatus;
+  plural: PartStatus;
+  messages: string[];
+  diff: DiffPart[];
+};
+
+// The diff compares letters the way grading does: "ae" and "ä", or "ss" and "ß", are the
+// same letter, so an answer graded correct shows no marks. The spellings with two letters
+// are kept together as one unit.
+function letterUnits(value: string) {
+  const units: string[] = [];
+  for (let i = 0; i < value.length; ) {
+    const pair = value.slice(i, i + 2);
+    const size = /^(ae|oe|ue|ss)$/i.test(pair) ? 2 : 1;
+    units.push(value.slice(i, i + size));
+    i += size;
+  }
+  return units;
+}
+
+function foldLetter(unit: string) {
+  return normalizeGerman(unit) || unit.toLowerCase();
+}
+
+// Character diff of the learner's answer against the expected one, built from the
+// longest common subsequence. "missing" parts are in the answer key only, "extra"
+// parts only in what was typed.
+export function diffCharacters(typedText: string, expectedText: string): DiffPart[] {
+  const typed = letterUnits(typedText);
+  const expected = letterUnits(expectedText);
+  const typedKeys = typed.map(foldLetter);
+  const expectedKeys = expected.map(foldLetter);
+  const rows = typed.length;
+  const cols = expected.length;
+  const lcs = Array.from({ length: rows + 1 }, () => new Array<number>(cols + 1).fill(0));
+  for (let i = rows - 1; i >= 0; i -= 1) {
+    for (let j = cols - 1; j >= 0; j -= 1) {
+      lcs[i][j] =
+        typedKeys[i] === expectedKeys[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  const push = (kind: DiffPart["kind"], text: string) => {
+    const last = parts[parts.length - 1];
+    if (last?.kind === kind) {
+      last.text += text;
+    } else {
+      parts.push({ kind, text });
+    }
+  };
+  let i = 0;
+  let j = 0;
+  while (i < rows && j < cols) {
+    if (typedKeys[i] === expectedKeys[j]) {
+      push("same", expected[j]);
+      i += 1;
+      j += 1;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      push("extra", typed[i]);
+      i += 1;
+    } else {
+      push("missing", expected[j]);
+      j += 1;
+    }
+  }
+  if (i < rows) push("extra", typed.slice(i).join(""));
+  if (j < cols) push("missing", expected.slice(j).join(""));
+  return parts;
+}
+
+function allowedTypos(length: number) {
+  if (length >= 10) return 2;
+  if (length >= 5) return 1;
+  return 0;
+}
+
+function compactPlural(value: string) {
+  return normalizeGerman(value.replace(/¨/g, "umlaut ")).replace(/[\s-]+/g, "");
+}
+
+function startsLowercase(value: string) {
+  const first = value.trim().charAt(0);
+  return first !== first.toUpperCase();
+}
+
+// Grades a typed `de_word`. The article and plural of dictionary notation are checked
+// on their own, so "der Ansage" reads as a gender mistake rather than a misspelling.
+// With `nounCapitals`, a noun written in lower case is only almost right.
+export function gradeTypedAnswer(
+  expectedWord: string,
+  typedWord: string,
+  { nounCapitals = false }: { nounCapitals?: boolean } = {}
+): TypedAnswerResult {
+  const expected = splitHeadword(expectedWord);
+  const typed = splitHeadword(typedWord);
+  const messages: string[] = [];
+
+  // Without an expected article, a leading "der"/"die"/"das" is just part of the answer.
+  const typedStem = expected.article ? typed.stem : [typed.article, typed.stem].filter(Boolean).join(" ");
+  const expectedStem = normalizeGerman(expected.stem);
+  const distance = levenshtein(normalizeGerman(typedStem), expectedStem);
+
+  let stem: PartStatus = "wrong";
+  if (!typedStem.trim()) {
+    stem = "missing";
+    messages.push("No answer given.");
+  } else if (distance === 0) {
+    stem = "correct";
+    if (nounCapitals && expected.article && startsLowercase(typedStem) && !startsLowercase(expected.stem)) {
+      stem = "close";
+      messages.push(`Nouns start with a capital letter: "${expected.stem}".`);
+    }
+  } else if (distance <= allowedTypos(expectedStem.length)) {
+    stem = "close";
+    messages.push(`Almost: the word is spelled "${expected.stem}".`);
+  } else {
+    messages.push(`The word is "${expected.stem}".`);
+  }
+
+  let article: PartStatus = "none";
+  if (expected.article) {
+    if (!typed.article) {
+      article = "missing";
+      messages.push(`Remember the article: ${expected.article} ${expected.stem}.`);
+    } else if (typed.article === expected.article) {
+      article = "correct";
+    } else {
+      article = "wrong";
+      messages.push(`Wrong article: it is ${expected.article}, not ${typed.article}.`);
+    }
+  }
+
+  let plural: PartStatus = "none";
+  if (typed.plural) {
+    if (!expected.plural) {
+      plural = "wrong";
+      messages.push("This word has no plural in the word list.");
+    } else if (compactPlural(typed.plural) === compactPlural(expected.plural)) {
+      plural = "correct";
+    } else {
+      plural = "wrong";
+      messages.push(`The plural is written "${expected.plural}".`);
+    }
+  } else if (expected.plural) {
+    plural = "missing";
+  }
+
+  let grade: Grade = "good";
+  if (stem === "wrong" || stem === "missing" || article === "wrong") {
+    grade = "again";
+  } else if (stem === "close" || article === "missing" || plural === "wrong") {
+    grade = "hard";
+  }
+
+  return { grade, article, stem, plural, messages, diff: diffCharacters(typedWord.trim(), expectedWord) };
+}
@@ -1,15 +1,100 @@
+export type Article = "der" | "die" | "das";
+
+export type Gender = "masculine" | "feminine" | "neuter";
+
+export type WordClass = "noun" | "verb" | "adjective" | "phrase" | "other";
+
+export type WordGrammar = {
+  article: Article | null;
+  articles: Article[];
+  gender: Gender | null;
+  lemma: string;
+  plural: string | null;
+  pluralNotation: string | null;
+  pluralOnly: boolean;
+  reflexive: boolean;
+  wordClass: WordClass;
+};
+
+// A deck declares its own fields and renders each side of a card from them. The front is
+// the language being learned: its audio, voice and drills follow `languages.front`.
+export type DeckField = {
+  id: string;
+  label: string;
+  required: boolean;
+};
+
+// Templates reference fields as {{field_id}}, e.g. "{{article}} {{noun}}".
+export type SideTemplate = {
+  word: string;
+  sentence: string;
+};
+
+export type DeckSchema = {
+  fields: DeckField[];
+  front: SideTemplate;
+  back: SideTemplate;
+  // BCP 47 codes such as "de-DE" or "es-ES", used for speech and voice choice.
+  languages: { front: string; back: string };
+};
+
+export const CARD_FIELDS = ["de_word", "de_sentence", "en_word", "en_sentence"] as const;
+
+export type CardField = (typeof CARD_FIELDS)[number];
+
+// The rendered sides keep the names of the original German-only format, de_* for the
+// front and en_* for the back, so edits, backups and exports stay compatible; `fields`
+// holds the deck's own fields they were rendered from.
 export type Card = {
   id: string;
   note_id: string;
+  fields: Record<string, string>;
   de_word: string;
   de_sentence: string;
   en_word: string;
   en_sentence: string;
   audio_url?: string | null;
+  // Topics such as "travel" or "family", carried over from Anki note tags.
+  tags: string[];
+  grammar?: WordGrammar;
+};
+
+// The card shape of deck files written before schemas, and of Anki imports.
+export type LegacyCard = Pick<Card, "id" | "note_id" | CardField | "audio_url" | "tags">;
+
+// A card that was left out of the deck because it does not fit the schema.
+export type DeckIssue = {
+  position: number;
+  cardId: string | null;
+  problems: string[];
+};
+
+export type DeckSource = {
+  label: string;
+  url: string;
 };
 
 export type Deck = {
   id: string;
   title: string;
+  description?: string;
+  source?: DeckSource;
+  local?: boolean;
+  schema: DeckSchema;
   cards: Card[];
+  issues: DeckIssue[];
+};
+
+export type DeckManifestEntry = {
+  id: string;
+  title: string;
+  description?: string;
+  url: string;
+  cardCount?: number;
+  source?: DeckSource;
+  local?: boolean;
+};
+
+export type DeckManifest = {
+  decks: DeckManifestEntry[];
 };
@@ -1,9 +1,35 @@
-import { defineConfig } from "vite";
+import { createHash } from "node:crypto";
+import { readFileSync } from "node:fs";
+import { defineConfig, type Plugin } from "vite";
 import react from "@vitejs/plugin-react";
 
+// Emits sw.js from service-worker.js with the hashed build files to precache. The build
+// id changes whenever any of them does, which makes browsers install the new worker.
+function serviceWorker(): Plugin {
+  return {
+    name: "deckster-service-worker",
+    apply: "build",
+    enforce: "post",
+    generateBundle(_options, bundle) {
+      const files = Object.keys(bundle)
+        .filter((fileName) => !fileName.endsWith(".map"))
+        .sort();
+      const buildId = createHash("sha256").update(files.join("\n")).digest("hex").slice(0, 12);
+      const template = readFileSync(new URL("./service-worker.js", import.meta.url), "utf8");
+      this.emitFile({
+        type: "asset",
+        fileName: "sw.js",
+        source: template
+          .replace("__BUILD_ID__", JSON.stringify(buildId))
+          .replace("__BUILD_FILES__", JSON.stringify(files))
+      });
+    }
+  };
+}
+
 export default defineConfig({
   base: "./",
-  plugins: [react()],
+  plugins: [react(), serviceWorker()],
   server: {
     port: 5173
   }
@@ -6,13 +6,17 @@ Usage:
   python3 tools/apkg_to_deck.py data/Goethe_Institute_A1_Wordlist.apkg
 
 Optional arguments:
-  --output frontend/src/data/deck.json
+  --output frontend/public/decks/<deck-id>/deck.json
+  --manifest frontend/public/decks/index.json
   --media-dir frontend/public/media
   --no-audio
+
+The deck is registered in the manifest so the app lists it in its deck picker.
 """
 from __future__ import annotations
 
 import argparse
+import html
 import json
 import re
 import sqlite3
@@ -26,7 +30,7 @@ SOUND_PATTERN = re.compile(r"\[sound:([^\]]+)\]")
 def strip_html(value: str) -> str:
     if not value:
         return ""
-    cleaned = re.sub(r"<[^>]+>", " ", value)
+    cleaned = html.unescape(re.sub(r"<[^>]+>", " ", value))
     normalized = re.sub(r"\s+", " ", cleaned)
     return normalized.strip()
 
@@ -46,14 +50,35 @@ def slugify(value: str) -> str:
     return dashed or "deck"
 
 
+def register_deck(manifest_path: Path, entry: dict[str, object]) -> None:
+    manifest: dict[str, list[dict[str, object]]] = {"decks": []}
+    if manifest_path.exists():
+        manifest = json.loads(manifest_path.read_text(encoding="utf-8"))
+    decks = manifest.setdefault("decks", [])
+    for existing in decks:
+        if existing.get("id") == entry["id"]:
+            existing.update(entry)
+            break
+    else:
+        decks.append(entry)
+    manifest_path.parent.mkdir(parents=True, exist_ok=True)
+    manifest_path.write_text(json.dumps(manifest, ensure_ascii=False, indent=2) + "\n", encoding="utf-8")
+
+
 def parse_args() -> argparse.Namespace:
     parser = argparse.ArgumentParser(description="Convert Anki .apkg to Deckster Lab JSON.")
     parser.add_argument("apkg", type=Path, help="Path to .apkg file")
     parser.add_argument(
         "--output",
         type=Path,
-        default=Path("frontend/src/data/deck.json"),
-        help="Output deck JSON path",
+        default=None,
+        help="Output deck JSON path (defaults to frontend/public/decks/<deck-id>/deck.json)",
+    )
+    parser.add_argument(
+        "--manifest",
+        type=Path,
+        default=Path("frontend/public/decks/index.json"),
+        help="Deck manifest to register the converted deck in",
     )
     parser.add_argument(
         "--media-dir",
@@ -72,7 +97,8 @@ def main() -> None:
         raise SystemExit(f"APKG file not found: {apkg_path}")
 
     media_out_dir: Path = args.media_dir
-    output_path: Path = args.output
+    deck_id = slugify(apkg_path.stem)
+    output_path: Path = args.output or Path("frontend/public/decks") / deck_id / "deck.json"
 
     with tempfile.TemporaryDirectory() as tmpdir:
         tmpdir = Path(tmpdir)
@@ -96,7 +122,7 @@ def main() -> None:
         conn = sqlite3.connect(extracted)
         conn.row_factory = sqlite3.Row
         try:
-            rows = conn.execute("SELECT id, flds FROM notes").fetchall()
+            rows = conn.execute("SELECT id, flds, tags FROM notes").fetchall()
         finally:
             conn.close()
 
@@ -145,12 +171,14 @@ def main() -> None:
                     "en_word": en_word,
                     "en_sentence": en_sentence,
                     "audio_url": audio_url,
+                    # Anki keeps a note's tags as one space-separated string.
+                    "tags": (row["tags"] or "").split(),
                 }
             )
 
     file_stem = apkg_path.stem.replace("_", " ").strip()
     deck = {
-        "id": slugify(apkg_path.stem),
+        "id": deck_id,
         "title": file_stem,
         "cards": cards,
     }
@@ -160,6 +188,18 @@ def main() -> None:
 
     print(f"Wrote {len(cards)} cards to {output_path}")
 
+    manifest_path: Path = args.manifest
+    try:
+        deck_url = output_path.resolve().relative_to(manifest_path.resolve().parent.parent).as_posix()
+    except ValueError:
+        print(f"Skipped {manifest_path}: {output_path} is not served next to the manifest")
+        return
+    register_deck(
+        manifest_path,
+        {"id": deck_id, "title": file_stem, "url": deck_url, "cardCount": len(cards)},
+    )
+    print(f"Registered {deck_id} in {manifest_path}")
+
 
 if __name__ == "__main__":
     main()